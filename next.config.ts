@@ -3,6 +3,14 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
     reactCompiler: true,
 
+    experimental: {
+        serverActions: {
+            // Ledger CSV imports go up to 5 MB (see ledger/actions.ts), plus
+            // the multipart overhead of the form
+            bodySizeLimit: "6mb",
+        },
+    },
+
     images: {
         remotePatterns: [
             {
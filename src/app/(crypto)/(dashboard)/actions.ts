@@ -0,0 +1,88 @@
+"use server";
+
+/**
+ * Server actions behind the dashboard layout picker and editor.
+ */
+
+import { revalidatePath } from "next/cache";
+import {
+  addLayout,
+  getDashboardLayouts,
+  removeLayout,
+  saveLayoutWidgets,
+  setActiveLayout,
+} from "@/lib/layout-store";
+import { normalizeWidgets } from "@/lib/widgets";
+import type { LayoutWidget } from "@/types/dashboard";
+
+export type LayoutFormState = {
+  error: string | null;
+};
+
+const MAX_NAME_LENGTH = 40;
+
+// Widgets posted by the editor as JSON, cleaned up like saved layouts
+function readWidgets(value: unknown): LayoutWidget[] | null {
+  try {
+    const json: unknown = JSON.parse(String(value ?? ""));
+    return Array.isArray(json) ? normalizeWidgets(json) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save the editor's widgets into an existing layout. Widgets the registry
+ * doesn't know are dropped.
+ */
+export async function saveDashboardLayout(
+  layoutId: string,
+  widgets: unknown,
+): Promise<LayoutFormState> {
+  if (!Array.isArray(widgets)) return { error: "The layout could not be read" };
+
+  const { layouts } = await getDashboardLayouts();
+  if (!layouts.some((layout) => layout.id === layoutId)) {
+    return { error: "This layout no longer exists" };
+  }
+
+  await saveLayoutWidgets(layoutId, normalizeWidgets(widgets));
+
+  revalidatePath("/");
+  return { error: null };
+}
+
+/**
+ * Save the editor's widgets as a new named layout and switch to it.
+ */
+export async function createDashboardLayout(
+  _state: LayoutFormState,
+  formData: FormData,
+): Promise<LayoutFormState> {
+  const name = String(formData.get("name") ?? "").trim();
+  const widgets = readWidgets(formData.get("widgets"));
+
+  if (!name) return { error: "Name the layout" };
+  if (name.length > MAX_NAME_LENGTH) {
+    return { error: `Names are at most ${MAX_NAME_LENGTH} characters` };
+  }
+  if (!widgets) return { error: "The layout could not be read" };
+
+  await addLayout(name, widgets);
+
+  revalidatePath("/");
+  return { error: null };
+}
+
+export async function selectDashboardLayout(layoutId: string): Promise<void> {
+  await setActiveLayout(layoutId);
+
+  revalidatePath("/");
+}
+
+export async function deleteDashboardLayout(formData: FormData): Promise<void> {
+  const id = String(formData.get("id") ?? "");
+  if (id) await removeLayout(id);
+
+  revalidatePath("/");
+}
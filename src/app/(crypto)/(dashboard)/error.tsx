@@ -0,0 +1,55 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useTransition } from "react";
+import { Card } from "@/components/ui/Card";
+import { failedDashboardData } from "@/lib/errors";
+
+type ErrorProps = {
+  error: Error & { digest?: string };
+  reset: () => void;
+};
+
+/**
+ * Page-level error boundary of the dashboard, for failures the widget
+ * boundaries don't cover (preferences, layouts, the page itself). Says
+ * which data call failed when it was one, else gives the error reference
+ * to look up in the server logs.
+ */
+export default function DashboardError({ error, reset }: ErrorProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const failedCall = failedDashboardData(error);
+
+  function retry() {
+    startTransition(() => {
+      router.refresh();
+      reset();
+    });
+  }
+
+  return (
+    <main className="min-h-screen bg-page p-8 text-fg">
+      <Card
+        title="The dashboard could not be loaded"
+        subtitle={
+          !failedCall && error.digest
+            ? `Error reference: ${error.digest}`
+            : undefined
+        }
+        error={failedCall ?? "Something went wrong while rendering the page."}
+        actions={
+          <button
+            type="button"
+            onClick={retry}
+            disabled={isPending}
+            className="rounded-lg bg-inverse px-3 py-1.5 text-xs font-medium text-on-inverse disabled:opacity-50"
+          >
+            {isPending ? "Retrying…" : "Try again"}
+          </button>
+        }
+        className="mx-auto max-w-lg"
+      />
+    </main>
+  );
+}
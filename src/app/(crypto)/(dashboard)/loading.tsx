@@ -0,0 +1,33 @@
+import { WidgetSkeleton } from "@/components/dashboard/WidgetSkeleton";
+import { Skeleton } from "@/components/ui/Skeleton";
+import { WIDGETS } from "@/lib/widgets";
+import type { WidgetSpan } from "@/types/dashboard";
+
+// Width of a widget in the 3-column grid of large screens (as on the page)
+const SPAN_CLASSES: Record<WidgetSpan, string> = {
+  1: "lg:col-span-1",
+  2: "lg:col-span-2",
+  3: "lg:col-span-3",
+};
+
+/**
+ * Shown while the dashboard reads the preferences and the active layout
+ * (before the widgets stream in): the default layout in skeletons.
+ */
+export default function Loading() {
+  return (
+    <main className="min-h-screen bg-page p-8 text-fg">
+      <div className="mb-4 flex items-center justify-between">
+        <Skeleton className="h-6 w-48" />
+        <Skeleton className="h-4 w-16" />
+      </div>
+      <div className="grid gap-4 lg:grid-cols-3">
+        {Object.values(WIDGETS).map(({ id, defaultSpan }) => (
+          <div key={id} className={`grid ${SPAN_CLASSES[defaultSpan]}`}>
+            <WidgetSkeleton widget={id} />
+          </div>
+        ))}
+      </div>
+    </main>
+  );
+}
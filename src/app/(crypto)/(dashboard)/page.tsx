@@ -9,151 +9,193 @@
  * The goal of this file is to remain clean + easy to maintain.
  * All UI sections are extracted into reusable components (see /components/dashboard).
  *
- * Data Fetching Responsibility:
+ * Which widgets are shown, in which order and at which width comes from the
+ * active layout (saved in the local store, edited with ?customize=1). Each
+ * widget declares the data it needs in the registry (lib/widgets), and only
+ * that data is fetched (lib/dashboard-data).
+ *
+ * Widgets stream in independently: each one sits behind its own Suspense
+ * boundary (with a skeleton of its shape) and error boundary, so a slow or
+ * failed data set only holds back or fails the widgets that need it.
+ *
+ * Data Fetching Responsibility (as needed by the layout):
  *  ▪ Global Metrics
  *  ▪ Top 10 Coins (Market Cap, 24h Change, Volume…)
- *  ▪ BTC Price History (chart visualization)
+ *  ▪ The page of the market cap ranking shown in the coins table
+ *  ▪ Price History of the selected coin + range (chart visualization)
+ *  ▪ Watchlisted coins with their 7-day sparklines
+ *  ▪ Market snapshots recorded by the server (dominance + rank history)
+ *
+ *  ▪ OHLC candles of that coin (only in candlestick mode)
+ *  ▪ 90-day price history of each top coin (risk metrics)
  *
- * The final UI displays:
+ * The chart selection lives in the URL (?coin=ethereum&range=7d&chart=…)
+ * so views can be bookmarked and shared. Defaults: bitcoin, 30 days, area.
+ * The coins table pages through the ranking with ?page=2, 3…
+ * The heatmap change window is ?heatmap=1h|24h|7d (default 24h).
+ * Widgets carry ids (#price-chart, #top-coins…) the command palette
+ * jumps to.
+ * Every amount is quoted in the currency picked in the nav (cookie, USD by
+ * default): it is passed to each fetcher and widget.
+ * Once rendered, the KPI cards and the coins table follow the market live
+ * (server-sent events from /api/live, see LiveMarket).
+ *
+ * The widgets available (default layout, top to bottom):
  *  ✔ KPI Cards
- *  ✔ Extra Market Stats (Top Gainer / Loser + Avg 24h Change)
- *  ✔ BTC Price Overview Chart
+ *  ✔ Extra Market Stats (Top Gainer / Loser + 24h breadth)
+ *  ✔ Watchlist (starred coins, saved in the local store)
+ *  ✔ Price Overview Chart (coin picker, time range, line/area/candles)
  *  ✔ Market Green Day Gauge
+ *  ✔ Dominance History + Week over Week deltas / rank changes
  *  ✔ Top Coins Table
- *  ✔ Market Share Distribution Bar
+ *  ✔ Market Share Distribution Bar (top 5 + others)
+ *  ✔ Market Heatmap (treemap by market cap, colored by 1h/24h/7d change)
  *  ✔ 24h Volume Bar Chart
+ *  ✔ Risk Overview (volatility, drawdown, Sharpe/Sortino, beta, correlations)
  *
  * This dashboard is designed to demonstrate production-level structure and modularity.
  */
 
-import { BtcPriceChart } from "@/components/dashboard/widgets/BtcPriceChart";
+import Link from "next/link";
+import { Suspense } from "react";
 // UI Components
-import { ExtraMetrics } from "@/components/dashboard/widgets/ExtraMetrics";
-import { GreenDaysGauge } from "@/components/dashboard/widgets/GreenDaysGauge";
-import { KpiPrimaryMetrics } from "@/components/dashboard/widgets/KpiPrimaryMetrics";
-import { MarketShareOverview } from "@/components/dashboard/widgets/MarketShareOverview";
-import { TopCoinsTable } from "@/components/dashboard/widgets/TopCoinsTable";
-import { VolumeOverview } from "@/components/dashboard/widgets/VolumeOverview";
-import { getGlobalData, getMarketChart, getTopCoins } from "@/lib/coingecko";
+import { DashboardWidget } from "@/components/dashboard/DashboardWidget";
+import { LayoutEditor } from "@/components/dashboard/LayoutEditor";
+import { LayoutPicker } from "@/components/dashboard/LayoutPicker";
 import {
-  buildPriceBars,
-  buildVolumeBars,
-  computeGreenRate,
-} from "@/lib/metrics";
-import type { MarketCoin } from "@/types/coingecko";
-
-// ─────────────────────────────────────────────────────────────
-// Type for computed market share section
-// ─────────────────────────────────────────────────────────────
-
-type MarketShareItem = {
-  id: string;
-  name: string;
-  share: number; // market cap distribution (%)
+  LiveMarketProvider,
+  LiveStatus,
+} from "@/components/dashboard/LiveMarket";
+import { WidgetBoundary } from "@/components/dashboard/WidgetBoundary";
+import { WidgetSkeleton } from "@/components/dashboard/WidgetSkeleton";
+import { parseChartMode } from "@/lib/chart";
+import type { DashboardParams } from "@/lib/dashboard-data";
+import { parseChangeWindow } from "@/lib/heatmap";
+import { findActiveLayout, getDashboardLayouts } from "@/lib/layout-store";
+import { getCurrencyPreference, getLocalePreference } from "@/lib/preferences";
+import { parseTimeRange } from "@/lib/time-range";
+import { WIDGETS } from "@/lib/widgets";
+import type { WidgetSpan } from "@/types/dashboard";
+
+// Width of a widget in the 3-column grid of large screens
+const SPAN_CLASSES: Record<WidgetSpan, string> = {
+  1: "lg:col-span-1",
+  2: "lg:col-span-2",
+  3: "lg:col-span-3",
 };
 
-export default async function Page() {
-  /**
-   * Fetch all required data in parallel (faster page load)
-   * These run server-side — no client keys needed.
-   */
-  const [globalData, topCoins, btcChart] = await Promise.all([
-    getGlobalData(),
-    getTopCoins(10),
-    getMarketChart("bitcoin", 30),
-  ]);
-
-  // ─────────────────────────────────────────────
-  // Derived BTC price chart bars (12 sample points)
-  // ─────────────────────────────────────────────
-  const priceBars = buildPriceBars(btcChart.prices, 12);
-
-  // Calculate Green Days % (how many days BTC closed higher)
-  const { greenRate, up, down } = computeGreenRate(btcChart.prices);
-
-  // Volume bar chart (24h trading volume)
-  const volumeBars = buildVolumeBars(topCoins);
+// First value of a search param
+function firstParam(value: string | string[] | undefined) {
+  return Array.isArray(value) ? value[0] : value;
+}
 
-  // ─────────────────────────────────────────────
-  // Market Share (Top 5 only)
-  // ─────────────────────────────────────────────
-  const top5 = topCoins.slice(0, 5);
-  const totalTop5Cap = top5.reduce(
-    (sum, coin) => sum + (coin.market_cap || 0),
-    0,
-  );
+// ?page= as a positive integer, defaulting to the first page
+function parsePage(value: string | string[] | undefined) {
+  const page = Number.parseInt(firstParam(value) ?? "", 10);
+  return Number.isFinite(page) && page > 1 ? page : 1;
+}
 
-  const marketShare: MarketShareItem[] = top5.map((coin: MarketCoin) => ({
-    id: coin.id,
-    name: coin.name,
-    share: totalTop5Cap ? (coin.market_cap / totalTop5Cap) * 100 : 0,
-  }));
+type PageProps = {
+  searchParams: Promise<{
+    coin?: string | string[];
+    range?: string | string[];
+    chart?: string | string[];
+    page?: string | string[];
+    heatmap?: string | string[];
+    customize?: string | string[];
+  }>;
+};
 
-  // ─────────────────────────────────────────────
-  // Extract Extra Stats: Top Gainer / Top Loser / Avg Change
-  // ─────────────────────────────────────────────
-  const coinsWithChange = topCoins.filter(
-    (c) => typeof c.price_change_percentage_24h === "number",
+export default async function Page({ searchParams }: PageProps) {
+  const { customize, ...query } = await searchParams;
+  const [currency, locale, layouts] = await Promise.all([
+    getCurrencyPreference(),
+    getLocalePreference(),
+    getDashboardLayouts(),
+  ]);
+  const layout = findActiveLayout(layouts);
+
+  const params: DashboardParams = {
+    coinId: firstParam(query.coin) || "bitcoin",
+    range: parseTimeRange(query.range),
+    chartMode: parseChartMode(query.chart),
+    page: parsePage(query.page),
+    heatmapWindow: parseChangeWindow(query.heatmap),
+    currency,
+  };
+
+  // Current view without / with the editor
+  const viewQuery = new URLSearchParams(
+    Object.entries(query).flatMap(([key, value]) => {
+      const first = firstParam(value);
+      return first ? [[key, first]] : [];
+    }),
   );
-
-  // Top gainer in 24h
-  const topGainer =
-    coinsWithChange
-      .slice()
-      .sort(
-        (a, b) =>
-          (b.price_change_percentage_24h ?? 0) -
-          (a.price_change_percentage_24h ?? 0),
-      )[0] ?? null;
-
-  // Biggest drop in 24h
-  const topLoser =
-    coinsWithChange
-      .slice()
-      .sort(
-        (a, b) =>
-          (a.price_change_percentage_24h ?? 0) -
-          (b.price_change_percentage_24h ?? 0),
-      )[0] ?? null;
-
-  // Average change of top 10 coins
-  const avgChange24h =
-    coinsWithChange.length > 0
-      ? coinsWithChange.reduce(
-          (sum, c) => sum + (c.price_change_percentage_24h ?? 0),
-          0,
-        ) / coinsWithChange.length
-      : 0;
+  const viewHref = viewQuery.size ? `/?${viewQuery}` : "/";
+  const customizeHref = `/?${new URLSearchParams([
+    ...viewQuery,
+    ["customize", "1"],
+  ])}`;
 
   return (
-    <main className="min-h-screen bg-slate-100 p-8 text-slate-900">
-      {/* ─── KPI: Primary Market Indicators ─── */}
-      <section className="mb-4 grid gap-4 md:grid-cols-4">
-        <KpiPrimaryMetrics data={globalData} />
-      </section>
-
-      {/* ─── Extra Exchange / Gainer / Loser ─── */}
-      <ExtraMetrics
-        markets={globalData.markets}
-        topGainer={topGainer}
-        topLoser={topLoser}
-        avgChange24h={avgChange24h}
-      />
-
-      {/* ─── BTC Chart + Green Days Gauge ─── */}
-      <section className="mb-6 grid gap-4 lg:grid-cols-3">
-        <BtcPriceChart bars={priceBars} />
-        <GreenDaysGauge greenRate={greenRate} up={up} down={down} />
-      </section>
-
-      {/* ─── Top Coins + Market Share Bar ─── */}
-      <section className="grid gap-4 lg:grid-cols-3">
-        <TopCoinsTable coins={topCoins} />
-        <MarketShareOverview items={marketShare} />
-      </section>
-
-      {/* ─── Top 24h Volume Chart ─── */}
-      <VolumeOverview bars={volumeBars} />
+    <main className="min-h-screen bg-page p-8 text-fg">
+      <LiveMarketProvider currency={currency}>
+        <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-3">
+            <LayoutPicker layouts={layouts.layouts} activeId={layout.id} />
+            {!customize && (
+              <Link
+                href={customizeHref}
+                className="text-[11px] text-fg-muted hover:text-fg-soft"
+              >
+                Customize
+              </Link>
+            )}
+          </div>
+          <LiveStatus />
+        </div>
+
+        {/* ─── Layout editor (?customize=1) ─── */}
+        {customize && (
+          <LayoutEditor
+            key={layout.id}
+            layout={layout}
+            canDelete={layouts.layouts.length > 1}
+            doneHref={viewHref}
+          />
+        )}
+
+        {/* ─── Widgets of the active layout ─── */}
+        <div className="grid gap-4 lg:grid-cols-3">
+          {layout.widgets.map(({ widget, span }) => (
+            <section
+              key={widget}
+              id={WIDGETS[widget].anchor}
+              className={`grid ${SPAN_CLASSES[span]}`}
+            >
+              <WidgetBoundary label={WIDGETS[widget].label}>
+                <Suspense fallback={<WidgetSkeleton widget={widget} />}>
+                  <DashboardWidget
+                    widget={widget}
+                    params={params}
+                    locale={locale}
+                  />
+                </Suspense>
+              </WidgetBoundary>
+            </section>
+          ))}
+        </div>
+
+        {!layout.widgets.length && (
+          <p className="py-12 text-center text-sm text-fg-subtle">
+            This layout has no widgets yet —{" "}
+            <Link href={customizeHref} className="underline">
+              customize it
+            </Link>
+            .
+          </p>
+        )}
+      </LiveMarketProvider>
     </main>
   );
 }
@@ -0,0 +1,81 @@
+"use server";
+
+/**
+ * Server actions behind the app-wide display preferences (currency,
+ * locale, theme) and the watchlist.
+ */
+
+import { revalidatePath } from "next/cache";
+import { cookies } from "next/headers";
+import { CURRENCY_COOKIE, parseCurrency } from "@/lib/currency";
+import { MarketDataError } from "@/lib/errors";
+import { LOCALE_COOKIE, parseLocale } from "@/lib/format";
+import { getCoinsByIds, isCoinIdFormat } from "@/lib/market-data";
+import { parseTheme, THEME_COOKIE } from "@/lib/theme";
+import { setWatched } from "@/lib/watchlist-store";
+
+const ONE_YEAR_S = 365 * 24 * 60 * 60;
+
+const COOKIE_OPTIONS = {
+  path: "/",
+  maxAge: ONE_YEAR_S,
+  sameSite: "lax",
+} as const;
+
+/**
+ * Store the quote currency of the dashboard and re-render it.
+ */
+export async function setCurrencyPreference(value: string) {
+  const store = await cookies();
+  store.set(CURRENCY_COOKIE, parseCurrency(value), COOKIE_OPTIONS);
+
+  revalidatePath("/", "layout");
+}
+
+/**
+ * Store the locale numbers and dates are formatted in and re-render.
+ */
+export async function setLocalePreference(value: string) {
+  const store = await cookies();
+  store.set(LOCALE_COOKIE, parseLocale(value), COOKIE_OPTIONS);
+
+  revalidatePath("/", "layout");
+}
+
+/**
+ * Store the color theme and re-render (the root layout sets it on <html>).
+ */
+export async function setThemePreference(value: string) {
+  const store = await cookies();
+  store.set(THEME_COOKIE, parseTheme(value), COOKIE_OPTIONS);
+
+  revalidatePath("/", "layout");
+}
+
+/**
+ * Star or unstar a coin; the dashboard and coin pages re-render. Only
+ * coins the market data provider knows can be starred.
+ */
+export async function setWatchlistEntry(
+  coinId: string,
+  watched: boolean,
+): Promise<{ error: string | null }> {
+  if (!isCoinIdFormat(coinId)) return { error: "Unknown coin" };
+  if (watched === true) {
+    try {
+      const { data } = await getCoinsByIds([coinId]);
+      if (!data.some((coin) => coin.id === coinId)) {
+        return { error: "Unknown coin" };
+      }
+    } catch (error) {
+      if (error instanceof MarketDataError) {
+        return { error: "Market data provider is unavailable" };
+      }
+      throw error;
+    }
+  }
+  await setWatched(coinId, watched === true);
+
+  revalidatePath("/", "layout");
+  return { error: null };
+}
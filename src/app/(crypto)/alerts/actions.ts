@@ -0,0 +1,217 @@
+"use server";
+
+/**
+ * Server actions behind the alert rule and webhook forms, webhook tests
+ * and on-demand evaluation.
+ */
+
+import { revalidatePath } from "next/cache";
+import { runAlertRules } from "@/lib/alert-runner";
+import {
+  addAlertRule,
+  addWebhook,
+  clearAlertHistory,
+  listWebhooks,
+  removeAlertRule,
+  removeWebhook,
+  setAlertRuleEnabled,
+  setWebhookEnabled,
+} from "@/lib/alert-store";
+import { ALERT_DIRECTIONS, ALERT_METRICS } from "@/lib/alerts";
+import { parseCurrency } from "@/lib/currency";
+import { MarketDataError } from "@/lib/errors";
+import { deliverWebhook, isValidWebhookUrl } from "@/lib/webhooks";
+import type {
+  AlertEvent,
+  AlertRuleInput,
+  WebhookDelivery,
+} from "@/types/alerts";
+
+export type AlertFormState = {
+  error: string | null;
+};
+
+export type WebhookTestState = {
+  delivery: WebhookDelivery | null;
+  error: string | null;
+};
+
+export type EvaluateState = {
+  // Outcome of the last run, shown next to the button
+  message: string | null;
+};
+
+function readRuleInput(
+  formData: FormData,
+): { error: string } | { input: AlertRuleInput } {
+  const metric = ALERT_METRICS.find(
+    (option) => option.id === formData.get("metric"),
+  )?.id;
+  const direction = ALERT_DIRECTIONS.find(
+    (option) => option.id === formData.get("direction"),
+  )?.id;
+  const coinId = String(formData.get("coinId") ?? "").trim();
+  const threshold = Number(formData.get("threshold"));
+  const cooldownMinutes = Number(formData.get("cooldownMinutes") || 0);
+  const hysteresis = Number(formData.get("hysteresis") || 0);
+
+  if (!metric) return { error: "Pick a metric" };
+  if (!direction) return { error: "Pick above or below" };
+  if (!coinId) return { error: "Pick a coin" };
+  if (formData.get("threshold") === "" || !Number.isFinite(threshold)) {
+    return { error: "Threshold must be a number" };
+  }
+  if (!Number.isFinite(cooldownMinutes) || cooldownMinutes < 0) {
+    return { error: "Cooldown must be zero or more minutes" };
+  }
+  if (!Number.isFinite(hysteresis) || hysteresis < 0) {
+    return { error: "Hysteresis must be zero or more" };
+  }
+
+  return {
+    input: {
+      metric,
+      coinId,
+      direction,
+      threshold,
+      currency: parseCurrency(String(formData.get("currency") ?? "")),
+      cooldownMinutes,
+      hysteresis,
+    },
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Rules
+// ─────────────────────────────────────────────────────────────
+
+export async function saveAlertRule(
+  _state: AlertFormState,
+  formData: FormData,
+): Promise<AlertFormState> {
+  const result = readRuleInput(formData);
+  if ("error" in result) return { error: result.error };
+
+  await addAlertRule(result.input);
+
+  revalidatePath("/alerts");
+  return { error: null };
+}
+
+export async function toggleAlertRule(formData: FormData): Promise<void> {
+  const id = String(formData.get("id") ?? "");
+  if (id) await setAlertRuleEnabled(id, formData.get("enabled") === "true");
+
+  revalidatePath("/alerts");
+}
+
+export async function deleteAlertRule(formData: FormData): Promise<void> {
+  const id = String(formData.get("id") ?? "");
+  if (id) await removeAlertRule(id);
+
+  revalidatePath("/alerts");
+}
+
+/**
+ * Evaluate the rules now instead of waiting for the schedule.
+ */
+export async function evaluateAlerts(): Promise<EvaluateState> {
+  try {
+    const result = await runAlertRules();
+    revalidatePath("/alerts");
+
+    if (result.skipped) {
+      return { message: "Market data is stale — evaluation skipped" };
+    }
+    return {
+      message: `Evaluated ${result.evaluated} rule${
+        result.evaluated === 1 ? "" : "s"
+      }, ${result.events.length} triggered`,
+    };
+  } catch (error) {
+    if (error instanceof MarketDataError) {
+      return { message: "Market data provider is unavailable" };
+    }
+    throw error;
+  }
+}
+
+export async function clearHistory(): Promise<void> {
+  await clearAlertHistory();
+  revalidatePath("/alerts");
+}
+
+// ─────────────────────────────────────────────────────────────
+// Webhooks
+// ─────────────────────────────────────────────────────────────
+
+export async function saveWebhook(
+  _state: AlertFormState,
+  formData: FormData,
+): Promise<AlertFormState> {
+  const url = String(formData.get("url") ?? "").trim();
+  const name = String(formData.get("name") ?? "").trim();
+  const secret = String(formData.get("secret") ?? "").trim();
+
+  if (!isValidWebhookUrl(url)) {
+    return { error: "URL must start with http:// or https://" };
+  }
+
+  await addWebhook({
+    name: name || new URL(url).host,
+    url,
+    secret: secret || null,
+  });
+
+  revalidatePath("/alerts");
+  return { error: null };
+}
+
+export async function toggleWebhook(formData: FormData): Promise<void> {
+  const id = String(formData.get("id") ?? "");
+  if (id) await setWebhookEnabled(id, formData.get("enabled") === "true");
+
+  revalidatePath("/alerts");
+}
+
+export async function deleteWebhook(formData: FormData): Promise<void> {
+  const id = String(formData.get("id") ?? "");
+  if (id) await removeWebhook(id);
+
+  revalidatePath("/alerts");
+}
+
+/**
+ * POST a sample alert to one webhook (even a paused one) and report how
+ * the delivery went. Nothing is recorded in the history.
+ */
+export async function testWebhook(
+  _state: WebhookTestState,
+  formData: FormData,
+): Promise<WebhookTestState> {
+  const id = String(formData.get("id") ?? "");
+  const webhook = (await listWebhooks()).find((item) => item.id === id);
+  if (!webhook) return { delivery: null, error: "Unknown webhook" };
+
+  const now = Date.now();
+  const sample: AlertEvent = {
+    id: `test:${now}`,
+    ruleId: "test",
+    triggeredAt: now,
+    metric: "price",
+    coinId: "bitcoin",
+    direction: "above",
+    threshold: 100_000,
+    currency: "usd",
+    value: 100_500,
+    message: "Test alert: Bitcoin price above $100,000.00 (now $100,500.00)",
+    deliveries: [],
+  };
+
+  return {
+    delivery: await deliverWebhook(webhook, "webhook.test", sample, {
+      retries: 0,
+    }),
+    error: null,
+  };
+}
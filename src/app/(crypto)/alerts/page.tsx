@@ -0,0 +1,109 @@
+/**
+ * Alerts — /alerts
+ *
+ * Rules ("BTC price above $X", "ETH 24h change below -5%", "BTC dominance
+ * above 55%", "SOL volume above 3× its 30-day average") are persisted in
+ * the local data store and evaluated server-side on a schedule (see
+ * lib/alert-runner). Triggered alerts are POSTed to the webhooks and kept
+ * in the history.
+ *
+ * Data Fetching Responsibility:
+ *  ▪ Rules, webhooks and alert history from the local store
+ *  ▪ Top 100 coins (coin picker + rule names)
+ *
+ * The final UI displays:
+ *  ✔ Rules with their status, last value and last trigger
+ *  ✔ Webhooks with a test delivery button
+ *  ✔ Alert history with the delivery outcome per webhook
+ */
+
+import { clearHistory } from "@/app/(crypto)/alerts/actions";
+import { AlertRuleForm } from "@/components/alerts/AlertRuleForm";
+import {
+  AlertHistoryTable,
+  AlertRulesTable,
+  WebhooksTable,
+} from "@/components/alerts/AlertTables";
+import { EvaluateButton } from "@/components/alerts/EvaluateButton";
+import { WebhookForm } from "@/components/alerts/WebhookForm";
+import { Card } from "@/components/ui/Card";
+import {
+  listAlertHistory,
+  listAlertRules,
+  listWebhooks,
+} from "@/lib/alert-store";
+import { getTopCoins } from "@/lib/market-data";
+import { getLocalePreference } from "@/lib/preferences";
+
+// Coins rules can be picked for
+const COIN_UNIVERSE = 100;
+
+export default async function AlertsPage() {
+  const [rules, webhooks, history, coinsRes, locale] = await Promise.all([
+    listAlertRules(),
+    listWebhooks(),
+    listAlertHistory(),
+    getTopCoins(COIN_UNIVERSE),
+    getLocalePreference(),
+  ]);
+
+  const activeRules = rules.filter((rule) => rule.enabled).length;
+  const coinOptions = coinsRes.data.map(({ id, name }) => ({ id, name }));
+  const coinNames = Object.fromEntries(
+    coinOptions.map((coin) => [coin.id, coin.name]),
+  );
+
+  return (
+    <main className="min-h-screen bg-page p-8 text-fg">
+      <header className="mb-6 flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold">Alerts</h1>
+          <p className="text-sm text-fg-subtle">
+            {activeRules} active rule{activeRules === 1 ? "" : "s"} ·{" "}
+            {webhooks.length} webhook
+            {webhooks.length === 1 ? "" : "s"}
+          </p>
+        </div>
+        <EvaluateButton />
+      </header>
+
+      {/* ─── Rules ─── */}
+      <Card className="mb-4 overflow-x-auto">
+        <p className="mb-2 text-xs font-medium text-fg-muted">Rules</p>
+        <AlertRulesTable rules={rules} coinNames={coinNames} locale={locale} />
+
+        <div className="mt-4 border-t pt-4">
+          <AlertRuleForm coins={coinOptions} />
+        </div>
+      </Card>
+
+      {/* ─── Webhooks ─── */}
+      <Card className="mb-4 overflow-x-auto">
+        <p className="mb-2 text-xs font-medium text-fg-muted">Webhooks</p>
+        <WebhooksTable webhooks={webhooks} />
+
+        <div className="mt-4 border-t pt-4">
+          <WebhookForm />
+        </div>
+      </Card>
+
+      {/* ─── History ─── */}
+      <Card className="overflow-x-auto">
+        <div className="mb-2 flex items-center justify-between">
+          <p className="text-xs font-medium text-fg-muted">History</p>
+          {history.length > 0 && (
+            <form action={clearHistory}>
+              <button
+                type="submit"
+                className="text-[11px] text-down hover:underline"
+              >
+                Clear history
+              </button>
+            </form>
+          )}
+        </div>
+        <AlertHistoryTable events={history} locale={locale} />
+      </Card>
+    </main>
+  );
+}
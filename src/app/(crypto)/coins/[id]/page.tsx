@@ -0,0 +1,160 @@
+/**
+ * Coin Detail — /coins/[id]
+ *
+ * Reached by clicking a row of the dashboard's Top Coins table.
+ *
+ * Data Fetching Responsibility:
+ *  ▪ Coin profile (rank, supply, ATH/ATL) from /coins/{id}
+ *  ▪ Full market chart for the selected range (?range=7d, …)
+ *  ▪ Technical indicators computed from it (?indicators=sma,rsi, …)
+ *
+ * Amounts are quoted in the currency picked in the nav (cookie).
+ *
+ * The final UI displays:
+ *  ✔ Coin header (price, 24h change, rank, watchlist star)
+ *  ✔ Market / supply / ATH-ATL stats
+ *  ✔ Price (with indicator overlays/panels), market cap and volume history
+ */
+
+import { notFound } from "next/navigation";
+import { CoinHeader } from "@/components/coin/CoinHeader";
+import { CoinStats } from "@/components/coin/CoinStats";
+import { HistoryChart } from "@/components/coin/HistoryChart";
+import { SegmentedLinks } from "@/components/ui/SegmentedLinks";
+import { TimeRangeSelector } from "@/components/ui/TimeRangeSelector";
+import { ToggleLinks } from "@/components/ui/ToggleLinks";
+import { CHART_MODES, parseChartMode } from "@/lib/chart";
+import { UpstreamHttpError } from "@/lib/errors";
+import { mergeFreshness } from "@/lib/http-client";
+import {
+  buildIndicatorOverlays,
+  buildIndicatorPanels,
+  INDICATOR_OPTIONS,
+  parseIndicators,
+} from "@/lib/indicators";
+import { getCoinDetail, getMarketChart, getOhlc } from "@/lib/market-data";
+import { getCurrencyPreference, getLocalePreference } from "@/lib/preferences";
+import { THEME_COLORS } from "@/lib/theme";
+import { parseTimeRange } from "@/lib/time-range";
+import { listWatchlist } from "@/lib/watchlist-store";
+
+type CoinPageProps = {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{
+    range?: string | string[];
+    chart?: string | string[];
+    indicators?: string | string[];
+  }>;
+};
+
+export default async function CoinPage({
+  params,
+  searchParams,
+}: CoinPageProps) {
+  const { id } = await params;
+  const query = await searchParams;
+  const range = parseTimeRange(query.range);
+  const chartMode = parseChartMode(query.chart);
+  const indicators = parseIndicators(query.indicators);
+  const [currency, locale, watchlist] = await Promise.all([
+    getCurrencyPreference(),
+    getLocalePreference(),
+    listWatchlist(),
+  ]);
+
+  const [detailRes, chartRes, ohlcRes] = await Promise.all([
+    getCoinDetail(id, currency),
+    getMarketChart(id, range.days, currency),
+    chartMode === "candlestick" ? getOhlc(id, range.days, currency) : null,
+  ]).catch((error: unknown) => {
+    // Unknown coin id upstream → 404 page instead of an error page
+    if (error instanceof UpstreamHttpError && error.status === 404) notFound();
+    throw error;
+  });
+
+  const coin = detailRes.data;
+  const chart = chartRes.data;
+  const pathname = `/coins/${id}`;
+  const subtitle = `${range.label} history`;
+  // Keep the indicator selection when switching range or chart mode
+  const indicatorQuery: Record<string, string> = indicators.length
+    ? { indicators: indicators.join(",") }
+    : {};
+
+  return (
+    <main className="min-h-screen bg-page p-8 text-fg">
+      <CoinHeader
+        coin={coin}
+        watched={watchlist.includes(coin.id)}
+        currency={currency}
+        locale={locale}
+      />
+      <CoinStats coin={coin} currency={currency} locale={locale} />
+
+      {/* ─── History: price, market cap, volume ─── */}
+      <div className="mb-4 flex items-center justify-between">
+        <p className="text-sm font-semibold">History</p>
+        <TimeRangeSelector
+          active={range}
+          pathname={pathname}
+          query={{ chart: chartMode, ...indicatorQuery }}
+        />
+      </div>
+
+      <section className="grid gap-4 lg:grid-cols-2">
+        <div className="lg:col-span-2">
+          <HistoryChart
+            title="Price"
+            subtitle={subtitle}
+            mode={chartMode}
+            series={chart.prices}
+            candles={ohlcRes?.data}
+            currency={currency}
+            locale={locale}
+            overlays={buildIndicatorOverlays(indicators, chart)}
+            panels={buildIndicatorPanels(indicators, chart)}
+            actions={
+              <>
+                <ToggleLinks
+                  options={INDICATOR_OPTIONS}
+                  selected={indicators}
+                  param="indicators"
+                  pathname={pathname}
+                  query={{ range: range.id, chart: chartMode }}
+                />
+                <SegmentedLinks
+                  options={CHART_MODES}
+                  active={chartMode}
+                  param="chart"
+                  pathname={pathname}
+                  query={{ range: range.id, ...indicatorQuery }}
+                />
+              </>
+            }
+            freshness={ohlcRes ? mergeFreshness(chartRes, ohlcRes) : chartRes}
+          />
+        </div>
+        <HistoryChart
+          title="Market Cap"
+          subtitle={subtitle}
+          mode="area"
+          series={chart.market_caps}
+          color={THEME_COLORS.series[0]}
+          currency={currency}
+          locale={locale}
+          freshness={chartRes}
+        />
+        <HistoryChart
+          title="Volume"
+          subtitle={subtitle}
+          mode="area"
+          series={chart.total_volumes}
+          color={THEME_COLORS.series[1]}
+          currency={currency}
+          locale={locale}
+          freshness={chartRes}
+        />
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,23 @@
+import { AppNav } from "@/components/ui/AppNav";
+import {
+  getCurrencyPreference,
+  getLocalePreference,
+  getThemePreference,
+} from "@/lib/preferences";
+
+export default async function Layout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <>
+      <AppNav
+        currency={await getCurrencyPreference()}
+        locale={await getLocalePreference()}
+        theme={await getThemePreference()}
+      />
+      {children}
+    </>
+  );
+}
@@ -0,0 +1,87 @@
+"use server";
+
+/**
+ * Server actions behind the ledger CSV import and transaction removal.
+ */
+
+import { revalidatePath } from "next/cache";
+import { MarketDataError } from "@/lib/errors";
+import { resolveLedgerCoins } from "@/lib/ledger";
+import {
+  type CoinRef,
+  importLedgerCsv,
+  readLedgerCsvSymbols,
+} from "@/lib/ledger-csv";
+import {
+  appendTransactions,
+  clearTransactions,
+  removeTransaction,
+} from "@/lib/ledger-store";
+
+export type ImportState = {
+  // null until a file was submitted
+  result: {
+    layout: string | null;
+    imported: number;
+    duplicates: number;
+    errors: { line: number; message: string }[];
+  } | null;
+  error: string | null;
+};
+
+// Larger exports should be split per year. Server action bodies are capped
+// just above this in next.config.ts, so the check below is what users see.
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+export async function importCsv(
+  _state: ImportState,
+  formData: FormData,
+): Promise<ImportState> {
+  const file = formData.get("file");
+  if (!(file instanceof File) || file.size === 0) {
+    return { result: null, error: "Choose a CSV file to import" };
+  }
+  if (file.size > MAX_FILE_BYTES) {
+    return { result: null, error: "File is larger than 5 MB" };
+  }
+
+  const text = await file.text();
+  let coins: CoinRef[];
+  try {
+    coins = await resolveLedgerCoins(readLedgerCsvSymbols(text));
+  } catch (error) {
+    if (error instanceof MarketDataError) {
+      return {
+        result: null,
+        error: "Market data provider is unavailable, try again in a minute",
+      };
+    }
+    throw error;
+  }
+
+  const parsed = importLedgerCsv(text, coins);
+  const imported = await appendTransactions(parsed.transactions);
+
+  revalidatePath("/ledger");
+  return {
+    result: {
+      layout: parsed.layout,
+      imported,
+      duplicates: parsed.transactions.length - imported,
+      errors: parsed.errors,
+    },
+    error: null,
+  };
+}
+
+export async function deleteTransaction(formData: FormData): Promise<void> {
+  const id = String(formData.get("id") ?? "");
+  if (id) await removeTransaction(id);
+
+  revalidatePath("/ledger");
+}
+
+export async function clearLedger(): Promise<void> {
+  await clearTransactions();
+  revalidatePath("/ledger");
+}
@@ -0,0 +1,157 @@
+/**
+ * Ledger — /ledger
+ *
+ * Per-trade history imported from exchange CSV exports and persisted in the
+ * local data store, with gains computed under the selected cost-basis
+ * method (?method=fifo|lifo|average).
+ *
+ * Data Fetching Responsibility:
+ *  ▪ Transactions from the local store
+ *  ▪ Quotes of the coins in the ledger (current prices)
+ *  ▪ Market history of coins with fills that have no USD price
+ *
+ * The final UI displays:
+ *  ✔ Realized / unrealized gains
+ *  ✔ Open positions
+ *  ✔ Realized gains per year with CSV export
+ *  ✔ CSV import + transaction list
+ */
+
+import { clearLedger } from "@/app/(crypto)/ledger/actions";
+import { ImportForm } from "@/components/ledger/ImportForm";
+import {
+  LedgerPositionsTable,
+  RealizedGainsTable,
+  TransactionsTable,
+} from "@/components/ledger/LedgerTables";
+import { Card } from "@/components/ui/Card";
+import { SegmentedLinks } from "@/components/ui/SegmentedLinks";
+import { StaleBadge } from "@/components/ui/StaleBadge";
+import {
+  COST_BASIS_METHODS,
+  parseCostBasisMethod,
+  summarizeByYear,
+} from "@/lib/cost-basis";
+import { formatCurrency } from "@/lib/format";
+import { loadLedgerReport } from "@/lib/ledger";
+import { getLocalePreference } from "@/lib/preferences";
+
+type LedgerPageProps = {
+  searchParams: Promise<{ method?: string | string[] }>;
+};
+
+function gainClass(value: number) {
+  return value >= 0 ? "text-up" : "text-down";
+}
+
+export default async function LedgerPage({ searchParams }: LedgerPageProps) {
+  const query = await searchParams;
+  const method = parseCostBasisMethod(query.method);
+  const [report, locale] = await Promise.all([
+    loadLedgerReport(method),
+    getLocalePreference(),
+  ]);
+
+  const years = summarizeByYear(report.realized);
+  const realizedTotal = report.realized.reduce((sum, row) => sum + row.gain, 0);
+  const unrealizedTotal = report.positions.reduce(
+    (sum, position) => sum + (position.unrealizedGain ?? 0),
+    0,
+  );
+  const unpricedIds = new Set(report.unpriced.map((tx) => tx.id));
+
+  const cards = [
+    { label: "Realized Gains", value: realizedTotal },
+    { label: "Unrealized Gains", value: unrealizedTotal },
+  ];
+
+  return (
+    <main className="min-h-screen bg-page p-8 text-fg">
+      <header className="mb-6 flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold">Ledger</h1>
+          <p className="text-sm text-fg-subtle">
+            {report.transactions.length} transactions · cost basis method
+          </p>
+        </div>
+        <SegmentedLinks
+          options={COST_BASIS_METHODS}
+          active={method}
+          param="method"
+          pathname="/ledger"
+        />
+      </header>
+
+      {report.unpriced.length > 0 && (
+        <p className="mb-4 rounded-lg bg-warn-soft px-3 py-2 text-xs text-warn">
+          {report.unpriced.length} transaction
+          {report.unpriced.length === 1 ? " has" : "s have"} no USD price and no
+          market history at that date; they are valued at $0.
+        </p>
+      )}
+
+      {/* ─── KPI: realized / unrealized ─── */}
+      <section className="mb-4 grid gap-4 md:grid-cols-2">
+        {cards.map((card) => (
+          <Card
+            key={card.label}
+            title={card.label}
+            actions={
+              <StaleBadge freshness={report.freshness} locale={locale} />
+            }
+          >
+            <p className={`mt-2 text-2xl font-bold ${gainClass(card.value)}`}>
+              {formatCurrency(card.value, "usd", locale, {
+                maximumFractionDigits: 2,
+              })}
+            </p>
+          </Card>
+        ))}
+      </section>
+
+      {/* ─── Open positions + realized gains per year ─── */}
+      <section className="mb-4 grid gap-4 lg:grid-cols-2">
+        <Card className="overflow-x-auto">
+          <p className="mb-2 text-xs font-medium text-fg-muted">
+            Open Positions
+          </p>
+          <LedgerPositionsTable positions={report.positions} locale={locale} />
+        </Card>
+        <Card className="overflow-x-auto">
+          <p className="mb-2 text-xs font-medium text-fg-muted">
+            Realized Gains by Year
+          </p>
+          <RealizedGainsTable years={years} method={method} locale={locale} />
+        </Card>
+      </section>
+
+      {/* ─── Import + transactions ─── */}
+      <Card>
+        <div className="mb-4 flex flex-wrap items-start justify-between gap-4 border-b pb-4">
+          <div>
+            <p className="mb-2 text-xs font-medium text-fg-muted">
+              Import transactions
+            </p>
+            <ImportForm />
+          </div>
+          {report.transactions.length > 0 && (
+            <form action={clearLedger}>
+              <button
+                type="submit"
+                className="text-[11px] text-down hover:underline"
+              >
+                Clear ledger
+              </button>
+            </form>
+          )}
+        </div>
+
+        <TransactionsTable
+          transactions={report.transactions}
+          unpricedIds={unpricedIds}
+          locale={locale}
+        />
+      </Card>
+    </main>
+  );
+}
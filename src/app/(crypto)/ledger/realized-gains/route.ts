@@ -0,0 +1,28 @@
+/**
+ * GET /ledger/realized-gains?year=2025&method=fifo
+ *
+ * Realized gains of one calendar year (UTC) as a CSV download.
+ */
+
+import { parseCostBasisMethod, realizedGainsCsv } from "@/lib/cost-basis";
+import { loadLedgerReport } from "@/lib/ledger";
+
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const method = parseCostBasisMethod(params.get("method") ?? undefined);
+  const year = Number(params.get("year"));
+
+  if (!Number.isInteger(year)) {
+    return new Response("Missing or invalid ?year=", { status: 400 });
+  }
+
+  const report = await loadLedgerReport(method);
+
+  return new Response(realizedGainsCsv(report.realized, year), {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="realized-gains-${year}-${method}.csv"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,62 @@
+"use server";
+
+/**
+ * Server actions behind the portfolio add / edit / remove forms.
+ */
+
+import { revalidatePath } from "next/cache";
+import { isCoinIdFormat } from "@/lib/market-data";
+import {
+  addHolding,
+  removeHolding,
+  updateHolding,
+} from "@/lib/portfolio-store";
+import type { Holding } from "@/types/portfolio";
+
+export type HoldingFormState = {
+  error: string | null;
+};
+
+function readHoldingInput(
+  formData: FormData,
+): { error: string } | { input: Omit<Holding, "id"> } {
+  const coinId = String(formData.get("coinId") ?? "").trim();
+  const quantity = Number(formData.get("quantity"));
+  const costBasis = Number(formData.get("costBasis"));
+
+  if (!coinId) return { error: "Pick a coin" };
+  if (!isCoinIdFormat(coinId)) return { error: "Unknown coin" };
+  if (!Number.isFinite(quantity) || quantity <= 0) {
+    return { error: "Quantity must be a positive number" };
+  }
+  if (!Number.isFinite(costBasis) || costBasis < 0) {
+    return { error: "Cost basis must be zero or more" };
+  }
+
+  return { input: { coinId, quantity, costBasis } };
+}
+
+/**
+ * Add a holding, or update it when the form carries an "id".
+ */
+export async function saveHolding(
+  _state: HoldingFormState,
+  formData: FormData,
+): Promise<HoldingFormState> {
+  const result = readHoldingInput(formData);
+  if ("error" in result) return { error: result.error };
+
+  const id = String(formData.get("id") ?? "");
+  if (id) await updateHolding({ id, ...result.input });
+  else await addHolding(result.input);
+
+  revalidatePath("/portfolio");
+  return { error: null };
+}
+
+export async function deleteHolding(formData: FormData): Promise<void> {
+  const id = String(formData.get("id") ?? "");
+  if (id) await removeHolding(id);
+
+  revalidatePath("/portfolio");
+}
@@ -0,0 +1,135 @@
+/**
+ * Portfolio — /portfolio
+ *
+ * Holdings are entered by the user and persisted in the local data store
+ * (see lib/store), then valued against live market data.
+ *
+ * Data Fetching Responsibility:
+ *  ▪ Holdings from the local store
+ *  ▪ Quotes of the held coins (current price + 24h change used for valuation)
+ *  ▪ Top 100 coins (the coin picker of the holding form)
+ *  ▪ Price history of each held coin for the selected range (?range=7d, …)
+ *
+ * The final UI displays:
+ *  ✔ Portfolio value, unrealized P&L and 24h P&L
+ *  ✔ Portfolio value history
+ *  ✔ Allocation breakdown
+ *  ✔ Holdings table with add / edit / remove
+ */
+
+import Link from "next/link";
+import { MarketShareOverview } from "@/components/dashboard/widgets/MarketShareOverview";
+import { HoldingForm } from "@/components/portfolio/HoldingForm";
+import { HoldingsTable } from "@/components/portfolio/HoldingsTable";
+import { PortfolioHistory } from "@/components/portfolio/PortfolioHistory";
+import { PortfolioKpis } from "@/components/portfolio/PortfolioKpis";
+import { Card } from "@/components/ui/Card";
+import { type Freshness, mergeFreshness } from "@/lib/http-client";
+import type { Series } from "@/lib/indicators";
+import { getCoinsByIds, getMarketChart, getTopCoins } from "@/lib/market-data";
+import {
+  buildAllocation,
+  buildPortfolioHistory,
+  valuePortfolio,
+} from "@/lib/portfolio";
+import { listHoldings } from "@/lib/portfolio-store";
+import { getLocalePreference } from "@/lib/preferences";
+import { parseTimeRange } from "@/lib/time-range";
+
+// Coins offered by the holding form's picker
+const COIN_PICKER_SIZE = 100;
+
+type PortfolioPageProps = {
+  searchParams: Promise<{ range?: string | string[] }>;
+};
+
+export default async function PortfolioPage({
+  searchParams,
+}: PortfolioPageProps) {
+  const query = await searchParams;
+  const range = parseTimeRange(query.range);
+
+  const [holdings, pickerRes, locale] = await Promise.all([
+    listHoldings(),
+    getTopCoins(COIN_PICKER_SIZE),
+    getLocalePreference(),
+  ]);
+
+  // Quotes of the held coins, wherever they rank, and the history of each;
+  // a coin whose history fails is left out of the value chart instead of
+  // failing the page
+  const heldCoinIds = [...new Set(holdings.map((holding) => holding.coinId))];
+  const [coinsRes, historyResults] = await Promise.all([
+    getCoinsByIds(heldCoinIds),
+    Promise.allSettled(heldCoinIds.map((id) => getMarketChart(id, range.days))),
+  ]);
+  const coins = coinsRes.data;
+
+  const pricesByCoin: Record<string, Series> = {};
+  const historyFreshness: Freshness[] = [];
+  historyResults.forEach((result, idx) => {
+    if (result.status !== "fulfilled") return;
+    pricesByCoin[heldCoinIds[idx]] = result.value.data.prices;
+    historyFreshness.push(result.value);
+  });
+
+  const summary = valuePortfolio(holdings, coins);
+  const allocation = buildAllocation(summary.positions);
+  const history = buildPortfolioHistory(holdings, pricesByCoin);
+  // Held coins outside the top stay pickable when editing their holding
+  const coinOptions = [
+    ...pickerRes.data,
+    ...coins.filter(
+      (coin) => !pickerRes.data.some((option) => option.id === coin.id),
+    ),
+  ].map(({ id, name }) => ({ id, name }));
+
+  return (
+    <main className="min-h-screen bg-page p-8 text-fg">
+      <header className="mb-6">
+        <Link href="/" className="text-xs text-fg-muted hover:text-fg-soft">
+          ← Back to dashboard
+        </Link>
+        <h1 className="mt-3 text-2xl font-bold">Portfolio</h1>
+      </header>
+
+      {/* ─── KPI: value + P&L ─── */}
+      <PortfolioKpis summary={summary} locale={locale} freshness={coinsRes} />
+
+      {/* ─── Value history + allocation ─── */}
+      <section className="mb-4 grid gap-4 lg:grid-cols-3">
+        <PortfolioHistory
+          history={history}
+          range={range}
+          locale={locale}
+          freshness={
+            historyFreshness.length
+              ? mergeFreshness(...historyFreshness)
+              : undefined
+          }
+        />
+        <MarketShareOverview
+          items={allocation}
+          title="Allocation"
+          description="Share of portfolio value per coin"
+          locale={locale}
+          freshness={coinsRes}
+        />
+      </section>
+
+      {/* ─── Holdings ─── */}
+      <Card>
+        <p className="mb-2 text-xs font-medium text-fg-muted">Holdings</p>
+        <HoldingsTable
+          positions={summary.positions}
+          coins={coinOptions}
+          locale={locale}
+        />
+
+        <div className="mt-4 border-t pt-4">
+          <HoldingForm coins={coinOptions} />
+        </div>
+      </Card>
+    </main>
+  );
+}
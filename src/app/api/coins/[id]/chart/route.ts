@@ -0,0 +1,40 @@
+/**
+ * GET /api/coins/{id}/chart?days=30&currency=usd
+ *
+ * Price, market cap and volume history of a coin, plus its green days
+ * stats (daily closes cut in CALENDAR_TIME_ZONE, like the dashboard gauge).
+ */
+
+import {
+  errorResponse,
+  jsonResponse,
+  parseCurrencyParam,
+  parseDaysParam,
+} from "@/lib/api";
+import { getMarketChart } from "@/lib/market-data";
+import { computeGreenDays } from "@/lib/metrics";
+import { resolveTimeZone } from "@/lib/resample";
+
+type RouteProps = {
+  params: Promise<{ id: string }>;
+};
+
+export async function GET(request: Request, { params }: RouteProps) {
+  try {
+    const { id } = await params;
+    const query = new URL(request.url).searchParams;
+    const days = parseDaysParam(query);
+    const currency = parseCurrencyParam(query);
+    const timeZone = resolveTimeZone(process.env.CALENDAR_TIME_ZONE);
+
+    const { data, stale, fetchedAt } = await getMarketChart(id, days, currency);
+
+    return jsonResponse(request, {
+      data,
+      metrics: { greenDays: computeGreenDays(data.prices, timeZone) },
+      meta: { stale, fetchedAt, currency, days, timeZone },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * GET /api/global?currency=usd
+ *
+ * Market-wide totals (market cap and volume per currency, dominance,
+ * active coins), plus the figures the dashboard KPIs show for the selected
+ * currency (see `buildGlobalMetrics`).
+ */
+
+import { errorResponse, jsonResponse, parseCurrencyParam } from "@/lib/api";
+import { getGlobalData } from "@/lib/market-data";
+import { buildGlobalMetrics } from "@/lib/market-summary";
+
+export async function GET(request: Request) {
+  try {
+    const currency = parseCurrencyParam(new URL(request.url).searchParams);
+    const { data, stale, fetchedAt } = await getGlobalData();
+
+    return jsonResponse(request, {
+      data,
+      metrics: buildGlobalMetrics(data, currency),
+      meta: { stale, fetchedAt, currency },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
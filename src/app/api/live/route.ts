@@ -0,0 +1,73 @@
+/**
+ * GET /api/live?currency=usd
+ *
+ * Server-sent events stream of the dashboard's live market state (see
+ * `lib/live`): a "snapshot" event on connect, then an "update" event with
+ * the changes after each poll that found some. Every connection shares the
+ * same upstream poll (`lib/live-feed`). A comment line is sent every 25s
+ * so idle proxies keep the connection open.
+ */
+
+import { errorResponse, parseCurrencyParam } from "@/lib/api";
+import type { Currency } from "@/lib/currency";
+import type { LiveEvent } from "@/lib/live";
+import { subscribeLive } from "@/lib/live-feed";
+
+const KEEP_ALIVE_MS = 25_000;
+
+function formatEvent(event: LiveEvent): string {
+  const data = event.type === "snapshot" ? event.state : event.patch;
+  return `event: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export async function GET(request: Request) {
+  let currency: Currency;
+  try {
+    currency = parseCurrencyParam(new URL(request.url).searchParams);
+  } catch (error) {
+    return errorResponse(error);
+  }
+
+  const encoder = new TextEncoder();
+  let close = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+
+      const unsubscribe = subscribeLive(currency, (event) =>
+        send(formatEvent(event)),
+      );
+      const keepAlive = setInterval(() => send(": ping\n\n"), KEEP_ALIVE_MS);
+
+      close = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(keepAlive);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+      request.signal.addEventListener("abort", close);
+    },
+    cancel() {
+      close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-store, no-transform",
+      Connection: "keep-alive",
+      // Disable response buffering in nginx-style proxies
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,55 @@
+/**
+ * GET /api/markets?limit=10&page=1&currency=usd
+ *
+ * One page of the market cap ranking, plus the dashboard's market summary
+ * of that page (see `buildMarketSummary`): gainers / losers, 24h breadth
+ * and the share of the total market cap held by its first 5 coins.
+ */
+
+import {
+  errorResponse,
+  jsonResponse,
+  parseCurrencyParam,
+  parseIntegerParam,
+} from "@/lib/api";
+import { mergeFreshness } from "@/lib/http-client";
+import { getGlobalData, getTopCoins } from "@/lib/market-data";
+import { buildMarketSummary } from "@/lib/market-summary";
+
+// CoinGecko's largest page
+const MAX_LIMIT = 250;
+
+export async function GET(request: Request) {
+  try {
+    const params = new URL(request.url).searchParams;
+    const limit = parseIntegerParam(params, "limit", {
+      fallback: 10,
+      min: 1,
+      max: MAX_LIMIT,
+    });
+    const page = parseIntegerParam(params, "page", {
+      fallback: 1,
+      min: 1,
+      max: 10_000,
+    });
+    const currency = parseCurrencyParam(params);
+
+    const [coinsRes, globalRes] = await Promise.all([
+      getTopCoins(limit, page, currency),
+      getGlobalData(),
+    ]);
+
+    return jsonResponse(request, {
+      data: coinsRes.data,
+      metrics: buildMarketSummary(coinsRes.data, globalRes.data, { currency }),
+      meta: {
+        ...mergeFreshness(coinsRes, globalRes),
+        currency,
+        limit,
+        page,
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
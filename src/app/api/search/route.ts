@@ -0,0 +1,30 @@
+/**
+ * GET /api/search?q=sol
+ *
+ * Coins matching a name or symbol, best matches first (exact symbol
+ * matches lead). Backs the command palette.
+ */
+
+import { errorResponse, jsonResponse } from "@/lib/api";
+import { InvalidParamError } from "@/lib/errors";
+import { searchCoins } from "@/lib/market-data";
+import { MIN_SEARCH_LENGTH, normalizeQuery } from "@/lib/search";
+
+export async function GET(request: Request) {
+  try {
+    const query = normalizeQuery(
+      new URL(request.url).searchParams.get("q") ?? "",
+    );
+    if (query.length < MIN_SEARCH_LENGTH) {
+      throw new InvalidParamError(
+        "q",
+        `"q" must be at least ${MIN_SEARCH_LENGTH} characters`,
+      );
+    }
+
+    const { data, stale, fetchedAt } = await searchCoins(query);
+    return jsonResponse(request, { data, meta: { stale, fetchedAt, query } });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { getThemePreference } from "@/lib/preferences";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -17,13 +18,13 @@ export const metadata: Metadata = {
   description: "Generated by create next app",
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
   return (
-    <html lang="en">
+    <html lang="en" data-theme={await getThemePreference()}>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
@@ -0,0 +1,132 @@
+"use client";
+
+import { useActionState } from "react";
+import {
+  type AlertFormState,
+  saveAlertRule,
+} from "@/app/(crypto)/alerts/actions";
+import { ALERT_DIRECTIONS, ALERT_METRICS } from "@/lib/alerts";
+import { CURRENCIES } from "@/lib/currency";
+
+type AlertRuleFormProps = {
+  coins: { id: string; name: string }[];
+};
+
+const INITIAL_STATE: AlertFormState = { error: null };
+
+const inputClass =
+  "rounded-lg border border-line bg-surface px-2 py-1 text-xs text-fg-soft";
+const labelClass = "flex flex-col gap-1 text-[11px] text-fg-muted";
+
+/**
+ * New alert rule: "<coin> <metric> above/below <threshold>". Validation
+ * happens in the server action; its error message is shown under the form.
+ */
+export function AlertRuleForm({ coins }: AlertRuleFormProps) {
+  const [state, formAction, pending] = useActionState(
+    saveAlertRule,
+    INITIAL_STATE,
+  );
+
+  return (
+    <form action={formAction} className="flex flex-wrap items-end gap-2">
+      <label className={labelClass}>
+        Coin
+        <select
+          name="coinId"
+          defaultValue={coins[0]?.id}
+          className={inputClass}
+        >
+          {coins.map((coin) => (
+            <option key={coin.id} value={coin.id}>
+              {coin.name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className={labelClass}>
+        Metric
+        <select name="metric" defaultValue="price" className={inputClass}>
+          {ALERT_METRICS.map((metric) => (
+            <option key={metric.id} value={metric.id}>
+              {metric.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className={labelClass}>
+        Condition
+        <select name="direction" defaultValue="above" className={inputClass}>
+          {ALERT_DIRECTIONS.map((direction) => (
+            <option key={direction.id} value={direction.id}>
+              {direction.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className={labelClass}>
+        Threshold
+        <input
+          name="threshold"
+          type="number"
+          step="any"
+          required
+          className={`${inputClass} w-28`}
+        />
+      </label>
+
+      <label className={labelClass}>
+        Currency (price)
+        <select name="currency" defaultValue="usd" className={inputClass}>
+          {CURRENCIES.map((currency) => (
+            <option key={currency.id} value={currency.id}>
+              {currency.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className={labelClass}>
+        Cooldown (min)
+        <input
+          name="cooldownMinutes"
+          type="number"
+          step="any"
+          min="0"
+          defaultValue={60}
+          className={`${inputClass} w-24`}
+        />
+      </label>
+
+      <label className={labelClass}>
+        Hysteresis
+        <input
+          name="hysteresis"
+          type="number"
+          step="any"
+          min="0"
+          defaultValue={0}
+          title="How far back across the threshold the value must go before the rule can trigger again (in the metric's unit)"
+          className={`${inputClass} w-24`}
+        />
+      </label>
+
+      <button
+        type="submit"
+        disabled={pending}
+        className="rounded-lg bg-inverse px-3 py-1.5 text-xs font-medium text-on-inverse disabled:opacity-50"
+      >
+        Add rule
+      </button>
+
+      {state.error && (
+        <p className="w-full text-[11px] text-down" role="alert">
+          {state.error}
+        </p>
+      )}
+    </form>
+  );
+}
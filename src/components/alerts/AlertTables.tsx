@@ -0,0 +1,275 @@
+import Link from "next/link";
+import {
+  deleteAlertRule,
+  deleteWebhook,
+  toggleAlertRule,
+  toggleWebhook,
+} from "@/app/(crypto)/alerts/actions";
+import { WebhookTestButton } from "@/components/alerts/WebhookForm";
+import { describeRule, formatMetricValue } from "@/lib/alerts";
+import { formatDateTime } from "@/lib/format";
+import type { AlertEvent, AlertRule, Webhook } from "@/types/alerts";
+
+const headClass = "border-b text-[11px] uppercase text-fg-subtle";
+
+// Pause / resume + remove buttons of a rule or webhook row
+function RowActions({
+  id,
+  enabled,
+  toggle,
+  remove,
+}: {
+  id: string;
+  enabled: boolean;
+  toggle: (formData: FormData) => Promise<void>;
+  remove: (formData: FormData) => Promise<void>;
+}) {
+  return (
+    <div className="flex items-center gap-2">
+      <form action={toggle}>
+        <input type="hidden" name="id" value={id} />
+        <input type="hidden" name="enabled" value={String(!enabled)} />
+        <button
+          type="submit"
+          className="text-[11px] text-fg-muted hover:text-fg-soft"
+        >
+          {enabled ? "Pause" : "Resume"}
+        </button>
+      </form>
+      <form action={remove}>
+        <input type="hidden" name="id" value={id} />
+        <button type="submit" className="text-[11px] text-down hover:underline">
+          Remove
+        </button>
+      </form>
+    </div>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────
+// Rules
+// ─────────────────────────────────────────────────────────────
+
+function ruleStatus(rule: AlertRule) {
+  if (!rule.enabled) return { label: "Paused", className: "text-fg-subtle" };
+  if (!rule.armed) {
+    return { label: "Triggered", className: "text-warn" };
+  }
+  return { label: "Armed", className: "text-up" };
+}
+
+export function AlertRulesTable({
+  rules,
+  coinNames,
+  locale,
+}: {
+  rules: AlertRule[];
+  // Display name per coin id (the id is shown for unknown coins)
+  coinNames: Record<string, string>;
+  locale: string;
+}) {
+  if (!rules.length) {
+    return (
+      <p className="py-4 text-xs text-fg-subtle">
+        No alert rules yet — add your first one below.
+      </p>
+    );
+  }
+
+  return (
+    <table className="min-w-full text-left text-xs">
+      <thead>
+        <tr className={headClass}>
+          <th className="py-2 pr-4">Rule</th>
+          <th className="py-2 pr-4">Status</th>
+          <th className="py-2 pr-4">Last Value</th>
+          <th className="py-2 pr-4">Last Triggered (UTC)</th>
+          <th className="py-2 pr-4">Cooldown</th>
+          <th className="py-2" />
+        </tr>
+      </thead>
+      <tbody>
+        {rules.map((rule) => {
+          const status = ruleStatus(rule);
+
+          return (
+            <tr key={rule.id} className="border-b last:border-0">
+              <td className="py-2 pr-4">
+                <Link
+                  href={`/coins/${rule.coinId}`}
+                  className="font-medium hover:underline"
+                >
+                  {describeRule(
+                    rule,
+                    coinNames[rule.coinId] ?? rule.coinId,
+                    locale,
+                  )}
+                </Link>
+                {rule.hysteresis > 0 && (
+                  <p className="text-[10px] text-fg-subtle">
+                    Re-arms{" "}
+                    {formatMetricValue(
+                      rule.metric,
+                      rule.hysteresis,
+                      rule.currency,
+                      locale,
+                      { signed: false },
+                    )}{" "}
+                    back across the threshold
+                  </p>
+                )}
+              </td>
+              <td className={`py-2 pr-4 font-medium ${status.className}`}>
+                {status.label}
+              </td>
+              <td className="py-2 pr-4">
+                {rule.lastValue === null
+                  ? "—"
+                  : formatMetricValue(
+                      rule.metric,
+                      rule.lastValue,
+                      rule.currency,
+                      locale,
+                    )}
+              </td>
+              <td className="py-2 pr-4 text-fg-muted">
+                {rule.lastTriggeredAt === null
+                  ? "Never"
+                  : formatDateTime(rule.lastTriggeredAt, locale)}
+              </td>
+              <td className="py-2 pr-4 text-fg-muted">
+                {rule.cooldownMinutes} min
+              </td>
+              <td className="py-2">
+                <RowActions
+                  id={rule.id}
+                  enabled={rule.enabled}
+                  toggle={toggleAlertRule}
+                  remove={deleteAlertRule}
+                />
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────
+// Webhooks
+// ─────────────────────────────────────────────────────────────
+
+export function WebhooksTable({ webhooks }: { webhooks: Webhook[] }) {
+  if (!webhooks.length) {
+    return (
+      <p className="py-4 text-xs text-fg-subtle">
+        No webhooks — triggered alerts are only kept in the history.
+      </p>
+    );
+  }
+
+  return (
+    <table className="min-w-full text-left text-xs">
+      <thead>
+        <tr className={headClass}>
+          <th className="py-2 pr-4">Name</th>
+          <th className="py-2 pr-4">URL</th>
+          <th className="py-2 pr-4">Signed</th>
+          <th className="py-2 pr-4">Test</th>
+          <th className="py-2" />
+        </tr>
+      </thead>
+      <tbody>
+        {webhooks.map((webhook) => (
+          <tr key={webhook.id} className="border-b last:border-0">
+            <td
+              className={`py-2 pr-4 font-medium ${
+                webhook.enabled ? "" : "text-fg-subtle"
+              }`}
+            >
+              {webhook.name}
+              {!webhook.enabled && " (paused)"}
+            </td>
+            <td className="max-w-xs truncate py-2 pr-4 text-fg-muted">
+              {webhook.url}
+            </td>
+            <td className="py-2 pr-4">{webhook.secret ? "Yes" : "No"}</td>
+            <td className="py-2 pr-4">
+              <WebhookTestButton webhookId={webhook.id} />
+            </td>
+            <td className="py-2">
+              <RowActions
+                id={webhook.id}
+                enabled={webhook.enabled}
+                toggle={toggleWebhook}
+                remove={deleteWebhook}
+              />
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────
+// History
+// ─────────────────────────────────────────────────────────────
+
+export function AlertHistoryTable({
+  events,
+  locale,
+}: {
+  events: AlertEvent[];
+  locale: string;
+}) {
+  if (!events.length) {
+    return (
+      <p className="py-4 text-xs text-fg-subtle">No alert has triggered yet.</p>
+    );
+  }
+
+  return (
+    <table className="min-w-full text-left text-xs">
+      <thead>
+        <tr className={headClass}>
+          <th className="py-2 pr-4">Time (UTC)</th>
+          <th className="py-2 pr-4">Alert</th>
+          <th className="py-2 pr-4">Deliveries</th>
+        </tr>
+      </thead>
+      <tbody>
+        {events.map((event) => (
+          <tr key={event.id} className="border-b align-top last:border-0">
+            <td className="whitespace-nowrap py-2 pr-4 text-fg-muted">
+              {formatDateTime(event.triggeredAt, locale)}
+            </td>
+            <td className="py-2 pr-4">{event.message}</td>
+            <td className="py-2 pr-4">
+              {event.deliveries.length ? (
+                <ul>
+                  {event.deliveries.map((delivery) => (
+                    <li
+                      key={delivery.webhookId}
+                      title={delivery.url}
+                      className={delivery.ok ? "text-up" : "text-down"}
+                    >
+                      {delivery.ok
+                        ? `HTTP ${delivery.status}`
+                        : (delivery.error ?? "Failed")}
+                      {delivery.attempts > 1 &&
+                        ` after ${delivery.attempts} attempts`}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <span className="text-fg-subtle">None</span>
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useActionState } from "react";
+import {
+  type EvaluateState,
+  evaluateAlerts,
+} from "@/app/(crypto)/alerts/actions";
+
+const INITIAL_STATE: EvaluateState = { message: null };
+
+/**
+ * Runs an evaluation round now instead of waiting for the schedule.
+ */
+export function EvaluateButton() {
+  const [state, formAction, pending] = useActionState(
+    evaluateAlerts,
+    INITIAL_STATE,
+  );
+
+  return (
+    <form action={formAction} className="flex items-center gap-2">
+      {state.message && (
+        <span className="text-[11px] text-fg-muted" aria-live="polite">
+          {state.message}
+        </span>
+      )}
+      <button
+        type="submit"
+        disabled={pending}
+        className="rounded-lg border border-line bg-surface px-3 py-1.5 text-xs font-medium text-fg-soft hover:bg-surface-muted disabled:opacity-50"
+      >
+        {pending ? "Evaluating…" : "Evaluate now"}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { useActionState } from "react";
+import {
+  type AlertFormState,
+  saveWebhook,
+  testWebhook,
+  type WebhookTestState,
+} from "@/app/(crypto)/alerts/actions";
+
+const INITIAL_STATE: AlertFormState = { error: null };
+const INITIAL_TEST_STATE: WebhookTestState = { delivery: null, error: null };
+
+const inputClass =
+  "rounded-lg border border-line bg-surface px-2 py-1 text-xs text-fg-soft";
+const labelClass = "flex flex-col gap-1 text-[11px] text-fg-muted";
+
+/**
+ * New webhook. The secret is optional; when set, payloads are signed.
+ */
+export function WebhookForm() {
+  const [state, formAction, pending] = useActionState(
+    saveWebhook,
+    INITIAL_STATE,
+  );
+
+  return (
+    <form action={formAction} className="flex flex-wrap items-end gap-2">
+      <label className={labelClass}>
+        Name
+        <input
+          name="name"
+          type="text"
+          placeholder="Optional"
+          className={`${inputClass} w-32`}
+        />
+      </label>
+
+      <label className={labelClass}>
+        URL
+        <input
+          name="url"
+          type="url"
+          required
+          placeholder="https://example.com/hooks/noro"
+          className={`${inputClass} w-72`}
+        />
+      </label>
+
+      <label className={labelClass}>
+        Signing secret
+        <input
+          name="secret"
+          type="password"
+          autoComplete="off"
+          placeholder="Optional"
+          className={`${inputClass} w-36`}
+        />
+      </label>
+
+      <button
+        type="submit"
+        disabled={pending}
+        className="rounded-lg bg-inverse px-3 py-1.5 text-xs font-medium text-on-inverse disabled:opacity-50"
+      >
+        Add webhook
+      </button>
+
+      {state.error && (
+        <p className="w-full text-[11px] text-down" role="alert">
+          {state.error}
+        </p>
+      )}
+    </form>
+  );
+}
+
+/**
+ * Sends a sample alert to one webhook and shows the response status.
+ */
+export function WebhookTestButton({ webhookId }: { webhookId: string }) {
+  const [state, formAction, pending] = useActionState(
+    testWebhook,
+    INITIAL_TEST_STATE,
+  );
+  const delivery = state.delivery;
+
+  return (
+    <form action={formAction} className="flex items-center gap-2">
+      <input type="hidden" name="id" value={webhookId} />
+      <button
+        type="submit"
+        disabled={pending}
+        className="text-[11px] text-fg-muted hover:text-fg-soft disabled:opacity-50"
+      >
+        {pending ? "Sending…" : "Send test"}
+      </button>
+      <span aria-live="polite" className="text-[11px]">
+        {state.error && <span className="text-down">{state.error}</span>}
+        {delivery && (
+          <span className={delivery.ok ? "text-up" : "text-down"}>
+            {delivery.ok
+              ? `Delivered (HTTP ${delivery.status})`
+              : delivery.error}
+          </span>
+        )}
+      </span>
+    </form>
+  );
+}
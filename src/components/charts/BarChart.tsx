@@ -0,0 +1,131 @@
+"use client";
+
+/**
+ * Reusable SVG bar chart for categorical data (e.g. volume per coin).
+ *
+ * Bars share the y-axis, gridlines and hover tooltip conventions of
+ * TimeSeriesChart. Unlike prices, amounts are compared from zero.
+ */
+
+import { useState } from "react";
+import { niceTicks, scaleLinear } from "@/lib/chart";
+import type { Currency } from "@/lib/currency";
+import { formatAxisValue, formatExactValue } from "@/lib/format";
+import { THEME_COLORS } from "@/lib/theme";
+
+type BarChartProps = {
+  bars: { label: string; value: number }[];
+  color?: string;
+  // Currency of the values; plain numbers when omitted
+  currency?: Currency;
+  locale: string;
+  className?: string;
+};
+
+const WIDTH = 1000;
+const HEIGHT = 300;
+
+export function BarChart({
+  bars,
+  color = THEME_COLORS.series[1],
+  currency,
+  locale,
+  className = "h-64",
+}: BarChartProps) {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  if (!bars.length) {
+    return (
+      <div
+        className={`flex items-center justify-center rounded-lg bg-surface-muted text-xs text-fg-subtle ${className}`}
+      >
+        No data available
+      </div>
+    );
+  }
+
+  const max = Math.max(...bars.map((bar) => bar.value)) || 1;
+  const y = scaleLinear([0, max * 1.05], [HEIGHT, 0]);
+  const yTicks = niceTicks(0, max * 1.05);
+
+  const slot = WIDTH / bars.length;
+  const barWidth = slot * 0.6;
+  const hovered = hoverIndex === null ? null : bars[hoverIndex];
+
+  return (
+    <div className={`relative pr-14 pb-6 ${className}`}>
+      <div
+        className="relative h-full w-full"
+        onPointerLeave={() => setHoverIndex(null)}
+      >
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          preserveAspectRatio="none"
+          className="absolute inset-0 h-full w-full"
+          role="img"
+          aria-label="Bar chart"
+        >
+          {yTicks.map((tick) => (
+            <line
+              key={tick}
+              x1={0}
+              x2={WIDTH}
+              y1={y(tick)}
+              y2={y(tick)}
+              style={{ stroke: THEME_COLORS.grid }}
+              strokeDasharray="4 4"
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+
+          {bars.map((bar, idx) => (
+            <rect
+              key={bar.label}
+              x={idx * slot + (slot - barWidth) / 2}
+              y={y(bar.value)}
+              width={barWidth}
+              height={HEIGHT - y(bar.value)}
+              style={{ fill: color }}
+              fillOpacity={hoverIndex === null || hoverIndex === idx ? 1 : 0.5}
+              onPointerEnter={() => setHoverIndex(idx)}
+            />
+          ))}
+        </svg>
+
+        {yTicks.map((tick) => (
+          <span
+            key={tick}
+            className="absolute left-full ml-2 -translate-y-1/2 text-[10px] text-fg-subtle"
+            style={{ top: `${(y(tick) / HEIGHT) * 100}%` }}
+          >
+            {formatAxisValue(tick, locale, currency)}
+          </span>
+        ))}
+
+        {bars.map((bar, idx) => (
+          <span
+            key={bar.label}
+            className="absolute top-full mt-1 -translate-x-1/2 text-[10px] text-fg-muted"
+            style={{ left: `${((idx + 0.5) / bars.length) * 100}%` }}
+          >
+            {bar.label}
+          </span>
+        ))}
+
+        {hovered && hoverIndex !== null && (
+          <div
+            className={`pointer-events-none absolute top-2 rounded-md bg-inverse/90 px-2 py-1 text-[11px] text-on-inverse shadow ${
+              hoverIndex >= bars.length / 2 ? "-translate-x-full" : ""
+            }`}
+            style={{ left: `${((hoverIndex + 0.5) / bars.length) * 100}%` }}
+          >
+            <p className="text-fg-faint">{hovered.label}</p>
+            <p className="font-semibold">
+              {formatExactValue(hovered.value, locale, currency)}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+/**
+ * Compact sub-chart for oscillators (RSI, MACD) drawn under a price chart.
+ *
+ * It shares the price chart's x-domain ("xDomain") so both line up, and has
+ * its own y-axis — fixed by the panel's "domain" when set, else auto-scaled.
+ */
+
+import {
+  type ChartPanel,
+  linePath,
+  pointsFromSeries,
+  scaleLinear,
+  valueDomain,
+} from "@/lib/chart";
+import { formatAxisValue } from "@/lib/format";
+import { THEME_COLORS } from "@/lib/theme";
+
+type IndicatorPanelProps = {
+  panel: ChartPanel;
+  xDomain: [number, number];
+  locale: string;
+  className?: string;
+};
+
+const WIDTH = 1000;
+const HEIGHT = 100;
+
+export function IndicatorPanel({
+  panel,
+  xDomain,
+  locale,
+  className = "h-24",
+}: IndicatorPanelProps) {
+  const linePoints = panel.lines.map((line) => pointsFromSeries(line.series));
+  const histogram = panel.histogram ?? [];
+
+  const domain =
+    panel.domain ??
+    valueDomain(linePoints.flat().concat(pointsFromSeries(histogram)), 0.1);
+  const x = scaleLinear(xDomain, [0, WIDTH]);
+  const y = scaleLinear(domain, [HEIGHT, 0]);
+
+  const barWidth = Math.max(1, (WIDTH / Math.max(histogram.length, 1)) * 0.6);
+  const zero = y(Math.min(Math.max(0, domain[0]), domain[1]));
+
+  return (
+    <div>
+      <div className="mb-1 flex flex-wrap items-center gap-3 text-[10px] text-fg-muted">
+        <span className="font-medium text-fg-soft">{panel.label}</span>
+        {panel.lines.map((line) => {
+          const latest = line.series[line.series.length - 1];
+          return (
+            <span key={line.id} style={{ color: line.color }}>
+              {line.label} {latest ? formatAxisValue(latest[1], locale) : "—"}
+            </span>
+          );
+        })}
+      </div>
+
+      <div className={`relative pr-14 ${className}`}>
+        <div className="relative h-full w-full">
+          <svg
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            preserveAspectRatio="none"
+            className="absolute inset-0 h-full w-full"
+            role="img"
+            aria-label={panel.label}
+          >
+            {(panel.guides ?? []).map((guide) => (
+              <line
+                key={guide}
+                x1={0}
+                x2={WIDTH}
+                y1={y(guide)}
+                y2={y(guide)}
+                style={{ stroke: THEME_COLORS.muted }}
+                strokeDasharray="4 4"
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+
+            {histogram.map(([ts, value]) => (
+              <rect
+                key={ts}
+                x={x(ts) - barWidth / 2}
+                y={Math.min(y(value), zero)}
+                width={barWidth}
+                height={Math.abs(zero - y(value))}
+                style={{
+                  fill: value >= 0 ? THEME_COLORS.up : THEME_COLORS.down,
+                }}
+                fillOpacity={0.5}
+              />
+            ))}
+
+            {linePoints.map((points, idx) => (
+              <path
+                key={panel.lines[idx].id}
+                d={linePath(points, x, y)}
+                fill="none"
+                style={{ stroke: panel.lines[idx].color }}
+                strokeWidth={1.5}
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+          </svg>
+
+          {(panel.guides ?? []).map((guide) => (
+            <span
+              key={guide}
+              className="absolute left-full ml-2 -translate-y-1/2 text-[10px] text-fg-subtle"
+              style={{ top: `${(y(guide) / HEIGHT) * 100}%` }}
+            >
+              {formatAxisValue(guide, locale)}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
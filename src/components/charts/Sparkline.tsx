@@ -0,0 +1,57 @@
+/**
+ * Tiny axis-less line chart of a price series (e.g. a 7-day sparkline),
+ * green when the series ends above where it started, red otherwise.
+ */
+
+import {
+  linePath,
+  pointsFromSeries,
+  scaleLinear,
+  valueDomain,
+} from "@/lib/chart";
+import { THEME_COLORS } from "@/lib/theme";
+
+type SparklineProps = {
+  // Evenly spaced values, oldest first
+  values: number[];
+  label?: string;
+  className?: string;
+};
+
+const WIDTH = 100;
+const HEIGHT = 30;
+
+export function Sparkline({
+  values,
+  label,
+  className = "h-8 w-24",
+}: SparklineProps) {
+  if (values.length < 2) {
+    return <div className={className} aria-hidden />;
+  }
+
+  // Index as the x value: the points are evenly spaced
+  const points = pointsFromSeries(values.map((value, idx) => [idx, value]));
+  const x = scaleLinear([0, values.length - 1], [0, WIDTH]);
+  const y = scaleLinear(valueDomain(points), [HEIGHT, 0]);
+  const rising = values[values.length - 1] >= values[0];
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      preserveAspectRatio="none"
+      role={label ? "img" : undefined}
+      aria-label={label}
+      aria-hidden={label ? undefined : true}
+      className={className}
+    >
+      <path
+        d={linePath(points, x, y)}
+        fill="none"
+        style={{ stroke: rising ? THEME_COLORS.up : THEME_COLORS.down }}
+        strokeWidth={1.5}
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
+}
@@ -0,0 +1,290 @@
+"use client";
+
+/**
+ * Reusable SVG time-series chart.
+ *
+ * Modes:
+ *  - line / area   → "series" ([timestamp, value][] from MarketChart)
+ *  - candlestick   → "candles" (OhlcCandle[] from getOhlc)
+ *
+ * The y-axis is scaled to the data's min/max (not zero) so small moves are
+ * visible. Hovering shows a crosshair and the values of the nearest point.
+ * "overlays" (moving averages, bands…) share the price y-axis.
+ *
+ * The SVG stretches to its container (preserveAspectRatio="none"); text is
+ * rendered as HTML on top so labels never get distorted.
+ */
+
+import { useState } from "react";
+import {
+  type ChartMode,
+  type ChartOverlay,
+  type ChartPoint,
+  linePath,
+  nearestIndex,
+  niceTicks,
+  pointsFromCandles,
+  pointsFromSeries,
+  scaleLinear,
+  timeTicks,
+  valueDomain,
+} from "@/lib/chart";
+import type { Currency } from "@/lib/currency";
+import {
+  formatAxisValue,
+  formatExactValue,
+  formatTimeLabel,
+  formatTooltipTime,
+} from "@/lib/format";
+import { THEME_COLORS } from "@/lib/theme";
+import type { OhlcCandle } from "@/types/coingecko";
+
+type TimeSeriesChartProps = {
+  mode: ChartMode;
+  series?: [number, number][];
+  candles?: OhlcCandle[];
+  overlays?: ChartOverlay[];
+  color?: string;
+  // Currency of the values; plain numbers when omitted
+  currency?: Currency;
+  locale: string;
+  className?: string;
+};
+
+// Internal drawing space; the SVG is stretched to the container size.
+const WIDTH = 1000;
+const HEIGHT = 300;
+
+export function TimeSeriesChart({
+  mode,
+  series = [],
+  candles = [],
+  overlays = [],
+  color = THEME_COLORS.up,
+  currency,
+  locale,
+  className = "h-64",
+}: TimeSeriesChartProps) {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const points: ChartPoint[] =
+    mode === "candlestick"
+      ? pointsFromCandles(candles)
+      : pointsFromSeries(series);
+
+  if (!points.length) {
+    return (
+      <div
+        className={`flex items-center justify-center rounded-lg bg-surface-muted text-xs text-fg-subtle ${className}`}
+      >
+        No data available
+      </div>
+    );
+  }
+
+  const first = points[0].ts;
+  const last = points[points.length - 1].ts;
+  const span = last - first;
+
+  const overlayPoints = overlays.map((overlay) =>
+    pointsFromSeries(overlay.series),
+  );
+  const domain = valueDomain(points.concat(...overlayPoints));
+  const x = scaleLinear([first, last], [0, WIDTH]);
+  const y = scaleLinear(domain, [HEIGHT, 0]);
+
+  const yTicks = niceTicks(domain[0], domain[1]);
+  const xTicks = timeTicks(points);
+
+  const candleWidth = Math.max(1, (WIDTH / points.length) * 0.6);
+  const hovered = hoverIndex === null ? null : points[hoverIndex];
+
+  function handlePointerMove(event: React.PointerEvent<HTMLDivElement>) {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const ratio = (event.clientX - rect.left) / rect.width;
+    setHoverIndex(nearestIndex(points, first + ratio * span));
+  }
+
+  // Single-point series have no span: center them
+  const xPercent = (ts: number) => (span ? (x(ts) / WIDTH) * 100 : 50);
+  const yPercent = (value: number) => (y(value) / HEIGHT) * 100;
+
+  return (
+    <div className={`relative pr-14 pb-6 ${className}`}>
+      <div
+        className="relative h-full w-full touch-none"
+        onPointerMove={handlePointerMove}
+        onPointerLeave={() => setHoverIndex(null)}
+      >
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          preserveAspectRatio="none"
+          className="absolute inset-0 h-full w-full overflow-visible"
+          role="img"
+          aria-label="Price chart"
+        >
+          {/* Gridlines */}
+          {yTicks.map((tick) => (
+            <line
+              key={tick}
+              x1={0}
+              x2={WIDTH}
+              y1={y(tick)}
+              y2={y(tick)}
+              style={{ stroke: THEME_COLORS.grid }}
+              strokeDasharray="4 4"
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+
+          {mode === "area" && (
+            <path
+              d={`${linePath(points, x, y)}L${x(last)},${HEIGHT}L${x(first)},${HEIGHT}Z`}
+              style={{ fill: color }}
+              fillOpacity={0.15}
+            />
+          )}
+
+          {mode !== "candlestick" && (
+            <path
+              d={linePath(points, x, y)}
+              fill="none"
+              style={{ stroke: color }}
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+
+          {mode === "candlestick" &&
+            points.map((p) => {
+              const candleColor =
+                p.close >= p.open ? THEME_COLORS.up : THEME_COLORS.down;
+              const top = y(Math.max(p.open, p.close));
+              const bottom = y(Math.min(p.open, p.close));
+
+              return (
+                <g key={p.ts}>
+                  <line
+                    x1={x(p.ts)}
+                    x2={x(p.ts)}
+                    y1={y(p.high)}
+                    y2={y(p.low)}
+                    style={{ stroke: candleColor }}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                  <rect
+                    x={x(p.ts) - candleWidth / 2}
+                    y={top}
+                    width={candleWidth}
+                    height={Math.max(1, bottom - top)}
+                    style={{ fill: candleColor }}
+                  />
+                </g>
+              );
+            })}
+
+          {overlayPoints.map((overlayPts, idx) => (
+            <path
+              key={overlays[idx].id}
+              d={linePath(overlayPts, x, y)}
+              fill="none"
+              style={{ stroke: overlays[idx].color }}
+              strokeWidth={1.5}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+        </svg>
+
+        {/* Overlay legend */}
+        {overlays.length > 0 && (
+          <div className="pointer-events-none absolute bottom-2 left-2 flex flex-wrap gap-2 text-[10px] text-fg-muted">
+            {overlays.map((overlay) => (
+              <span key={overlay.id} className="flex items-center gap-1">
+                <span
+                  className="h-0.5 w-3"
+                  style={{ background: overlay.color }}
+                />
+                {overlay.label}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {/* Y-axis labels (right gutter) */}
+        {yTicks.map((tick) => (
+          <span
+            key={tick}
+            className="absolute left-full ml-2 -translate-y-1/2 text-[10px] text-fg-subtle"
+            style={{ top: `${yPercent(tick)}%` }}
+          >
+            {formatAxisValue(tick, locale, currency)}
+          </span>
+        ))}
+
+        {/* X-axis labels */}
+        {xTicks.map((ts) => (
+          <span
+            key={ts}
+            className="absolute top-full mt-1 -translate-x-1/2 whitespace-nowrap text-[10px] text-fg-subtle"
+            style={{ left: `${xPercent(ts)}%` }}
+          >
+            {formatTimeLabel(ts, span, locale)}
+          </span>
+        ))}
+
+        {/* Crosshair + tooltip */}
+        {hovered && (
+          <>
+            <div
+              className="pointer-events-none absolute inset-y-0 border-l border-fg-subtle/60"
+              style={{ left: `${xPercent(hovered.ts)}%` }}
+            />
+            <div
+              className="pointer-events-none absolute inset-x-0 border-t border-fg-subtle/60"
+              style={{ top: `${yPercent(hovered.close)}%` }}
+            />
+            <div
+              className={`pointer-events-none absolute top-2 rounded-md bg-inverse/90 px-2 py-1 text-[11px] text-on-inverse shadow ${
+                xPercent(hovered.ts) > 50 ? "-translate-x-full" : ""
+              }`}
+              style={{ left: `${xPercent(hovered.ts)}%` }}
+            >
+              <p className="text-fg-faint">
+                {formatTooltipTime(hovered.ts, locale)}
+              </p>
+              {mode === "candlestick" ? (
+                <p className="whitespace-nowrap">
+                  O {formatExactValue(hovered.open, locale, currency)} · H{" "}
+                  {formatExactValue(hovered.high, locale, currency)} · L{" "}
+                  {formatExactValue(hovered.low, locale, currency)} · C{" "}
+                  {formatExactValue(hovered.close, locale, currency)}
+                </p>
+              ) : (
+                <p className="font-semibold">
+                  {formatExactValue(hovered.close, locale, currency)}
+                </p>
+              )}
+              {overlayPoints.map((overlayPts, idx) => {
+                // Overlays start after their warm-up period
+                if (!overlayPts.length || hovered.ts < overlayPts[0].ts) {
+                  return null;
+                }
+                const point = overlayPts[nearestIndex(overlayPts, hovered.ts)];
+
+                return (
+                  <p
+                    key={overlays[idx].id}
+                    style={{ color: overlays[idx].color }}
+                  >
+                    {overlays[idx].label}{" "}
+                    {formatExactValue(point.close, locale, currency)}
+                  </p>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
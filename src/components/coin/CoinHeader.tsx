@@ -0,0 +1,73 @@
+import Image from "next/image";
+import Link from "next/link";
+import { WatchlistToggle } from "@/components/ui/WatchlistToggle";
+import type { Currency } from "@/lib/currency";
+import { formatCurrency, formatPercent } from "@/lib/format";
+import type { CoinDetail } from "@/types/coingecko";
+
+type CoinHeaderProps = {
+  coin: CoinDetail;
+  // Whether the coin is on the watchlist
+  watched: boolean;
+  currency: Currency;
+  locale: string;
+};
+
+export function CoinHeader({
+  coin,
+  watched,
+  currency,
+  locale,
+}: CoinHeaderProps) {
+  const change = coin.price_change_percentage_24h;
+
+  return (
+    <header className="mb-6">
+      <Link href="/" className="text-xs text-fg-muted hover:text-fg-soft">
+        ← Back to dashboard
+      </Link>
+
+      <div className="mt-3 flex flex-wrap items-center gap-3">
+        <Image
+          src={coin.image}
+          alt={coin.name}
+          className="h-10 w-10 rounded-full"
+          width={100}
+          height={100}
+        />
+        <div>
+          <h1 className="text-2xl font-bold">
+            {coin.name}{" "}
+            <span className="text-base font-medium uppercase text-fg-subtle">
+              {coin.symbol}
+            </span>{" "}
+            <WatchlistToggle
+              coinId={coin.id}
+              coinName={coin.name}
+              watched={watched}
+              className="align-middle text-xl"
+            />
+          </h1>
+          {coin.market_cap_rank !== null && (
+            <span className="rounded-full bg-surface-strong px-2 py-0.5 text-[11px] font-medium text-fg-soft">
+              Rank #{coin.market_cap_rank}
+            </span>
+          )}
+        </div>
+
+        <div className="ml-auto text-right">
+          <p className="text-2xl font-bold">
+            {formatCurrency(coin.current_price, currency, locale)}
+          </p>
+          <p
+            className={`text-xs ${
+              (change ?? 0) >= 0 ? "text-up" : "text-down"
+            }`}
+          >
+            {formatPercent(change ?? 0, locale, { signed: true })} in last 24h
+          </p>
+        </div>
+      </div>
+    </header>
+  );
+}
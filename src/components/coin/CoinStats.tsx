@@ -0,0 +1,88 @@
+/**
+ * Coin Stats - market cap, supply and all-time high/low figures
+ * from the CoinGecko coin endpoint.
+ *
+ * Pure presentational component — receives data via props.
+ */
+
+import { Card } from "@/components/ui/Card";
+import { type Currency, getCurrencyOption } from "@/lib/currency";
+import {
+  formatCurrency,
+  formatDate,
+  formatNumber,
+  formatPercent,
+} from "@/lib/format";
+import type { CoinDetail } from "@/types/coingecko";
+
+type CoinStatsProps = {
+  coin: CoinDetail;
+  currency: Currency;
+  locale: string;
+};
+
+export function CoinStats({ coin, currency, locale }: CoinStatsProps) {
+  const formatAmount = (value: number | null, compact = false) =>
+    value === null ? "—" : formatCurrency(value, currency, locale, { compact });
+
+  const formatSupply = (value: number | null) =>
+    value === null
+      ? "—"
+      : `${formatNumber(value, locale, { maximumFractionDigits: 0 })} ${coin.symbol.toUpperCase()}`;
+
+  const formatDay = (value: string | null) =>
+    value ? formatDate(value, locale) : "—";
+
+  // Distance of the current price from the ATH/ATL
+  const formatChange = (value: number | null) =>
+    value === null ? "" : `· ${formatPercent(value, locale, { signed: true })}`;
+
+  const stats = [
+    {
+      label: "Market Cap",
+      value: formatAmount(coin.market_cap, true),
+      hint:
+        coin.market_cap_rank !== null ? `Rank #${coin.market_cap_rank}` : "",
+    },
+    {
+      label: "24h Volume",
+      value: formatAmount(coin.total_volume, true),
+      hint: `Total traded volume (${getCurrencyOption(currency).label})`,
+    },
+    {
+      label: "Circulating Supply",
+      value: formatSupply(coin.circulating_supply),
+      hint: `Total: ${formatSupply(coin.total_supply)}`,
+    },
+    {
+      label: "Max Supply",
+      value: formatSupply(coin.max_supply),
+      hint: coin.max_supply === null ? "No hard cap" : "Hard cap",
+    },
+    {
+      label: "All-Time High",
+      value: formatAmount(coin.ath),
+      hint: `${formatDay(coin.ath_date)} ${formatChange(
+        coin.ath_change_percentage,
+      )}`,
+    },
+    {
+      label: "All-Time Low",
+      value: formatAmount(coin.atl),
+      hint: `${formatDay(coin.atl_date)} ${formatChange(
+        coin.atl_change_percentage,
+      )}`,
+    },
+  ];
+
+  return (
+    <section className="mb-6 grid gap-4 md:grid-cols-3">
+      {stats.map((stat) => (
+        <Card key={stat.label} title={stat.label}>
+          <p className="mt-2 text-xl font-bold">{stat.value}</p>
+          <p className="mt-1 text-xs text-fg-muted">{stat.hint}</p>
+        </Card>
+      ))}
+    </section>
+  );
+}
@@ -0,0 +1,88 @@
+import { IndicatorPanel } from "@/components/charts/IndicatorPanel";
+import { TimeSeriesChart } from "@/components/charts/TimeSeriesChart";
+import { Card } from "@/components/ui/Card";
+import { StaleBadge } from "@/components/ui/StaleBadge";
+import type { ChartMode, ChartOverlay, ChartPanel } from "@/lib/chart";
+import type { Currency } from "@/lib/currency";
+import type { Freshness } from "@/lib/http-client";
+import type { OhlcCandle } from "@/types/coingecko";
+
+type HistoryChartProps = {
+  title: string;
+  subtitle: string;
+  mode: ChartMode;
+  series: [number, number][];
+  candles?: OhlcCandle[];
+  color?: string;
+  // Currency of the values; plain numbers when omitted
+  currency?: Currency;
+  locale: string;
+  // Indicator lines over the chart and oscillator panels under it
+  overlays?: ChartOverlay[];
+  panels?: ChartPanel[];
+  // Extra header controls (e.g. a chart mode selector)
+  actions?: React.ReactNode;
+  freshness?: Freshness;
+};
+
+/**
+ * Card around one series of a coin's market chart
+ * (prices, market caps or total volumes).
+ */
+export function HistoryChart({
+  title,
+  subtitle,
+  mode,
+  series,
+  candles,
+  color,
+  currency,
+  locale,
+  overlays,
+  panels = [],
+  actions,
+  freshness,
+}: HistoryChartProps) {
+  // Panels share the main chart's x-axis, which follows the candles in
+  // candlestick mode
+  const timestamps =
+    mode === "candlestick" && candles?.length
+      ? candles.map(([ts]) => ts)
+      : series.map(([ts]) => ts);
+  const xDomain: [number, number] = [
+    timestamps[0] ?? 0,
+    timestamps[timestamps.length - 1] ?? 1,
+  ];
+
+  return (
+    <Card
+      title={title}
+      subtitle={subtitle}
+      actions={
+        <>
+          <StaleBadge freshness={freshness} locale={locale} />
+          {actions}
+        </>
+      }
+    >
+      <div className="mt-4 rounded-lg bg-surface-muted p-4">
+        <TimeSeriesChart
+          mode={mode}
+          series={series}
+          candles={candles}
+          color={color}
+          currency={currency}
+          locale={locale}
+          overlays={overlays}
+          className="h-48"
+        />
+
+        {panels.map((panel) => (
+          <div key={panel.id} className="mt-4 border-t border-line pt-2">
+            <IndicatorPanel panel={panel} xDomain={xDomain} locale={locale} />
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,263 @@
+/**
+ * Renders one registered dashboard widget (see lib/widgets): loads the data
+ * it declares (lib/dashboard-data), then derives what the widget shows
+ * (market summary, green days, risk report…).
+ *
+ * Async: the page streams each widget in behind its own Suspense boundary
+ * and error boundary (see WidgetBoundary).
+ */
+
+import { DominanceHistory } from "@/components/dashboard/widgets/DominanceHistory";
+import { ExtraMetrics } from "@/components/dashboard/widgets/ExtraMetrics";
+import { GreenDaysGauge } from "@/components/dashboard/widgets/GreenDaysGauge";
+import { KpiPrimaryMetrics } from "@/components/dashboard/widgets/KpiPrimaryMetrics";
+import { MarketHeatmap } from "@/components/dashboard/widgets/MarketHeatmap";
+import { MarketShareOverview } from "@/components/dashboard/widgets/MarketShareOverview";
+import { PriceChart } from "@/components/dashboard/widgets/PriceChart";
+import { RiskOverview } from "@/components/dashboard/widgets/RiskOverview";
+import { TopCoinsTable } from "@/components/dashboard/widgets/TopCoinsTable";
+import { VolumeOverview } from "@/components/dashboard/widgets/VolumeOverview";
+import { WatchlistWidget } from "@/components/dashboard/widgets/WatchlistWidget";
+import { WeekOverWeek } from "@/components/dashboard/widgets/WeekOverWeek";
+import {
+  type DashboardData,
+  type DashboardParams,
+  loadDashboardData,
+  RISK_WINDOW_DAYS,
+  TOP_COINS_PAGE_SIZE,
+  TOP_COINS_WIDGET_COUNT,
+} from "@/lib/dashboard-data";
+import { mergeFreshness } from "@/lib/http-client";
+import { buildMarketSummary } from "@/lib/market-summary";
+import { buildVolumeBars, computeGreenDays } from "@/lib/metrics";
+import { resolveTimeZone } from "@/lib/resample";
+import { buildRiskReport, parseRiskFreeRate } from "@/lib/risk";
+import {
+  dominanceSeries,
+  recentSnapshots,
+  weekOverWeek,
+} from "@/lib/snapshots";
+import { WIDGETS } from "@/lib/widgets";
+import type { WidgetId } from "@/types/dashboard";
+
+// Window of the dominance history chart
+const DOMINANCE_HISTORY_DAYS = 30;
+
+type DashboardWidgetProps = {
+  widget: WidgetId;
+  params: DashboardParams;
+  locale: string;
+};
+
+// Coin picker options + display name of the charted coin
+function chartCoins(data: DashboardData, coinId: string) {
+  const options = (data.topCoins?.data ?? [])
+    .slice(0, TOP_COINS_WIDGET_COUNT)
+    .map(({ id, name }) => ({ id, name }));
+  const coin = options.find((option) => option.id === coinId) ?? {
+    id: coinId,
+    name: coinId,
+  };
+  return { options, coin };
+}
+
+export async function DashboardWidget({
+  widget,
+  params,
+  locale,
+}: DashboardWidgetProps) {
+  const data = await loadDashboardData(new Set(WIDGETS[widget].needs), params);
+  const { currency } = params;
+  const topCoins = data.topCoins?.data.slice(0, TOP_COINS_WIDGET_COUNT) ?? [];
+  // Calendar days for green days and daily returns
+  const timeZone = resolveTimeZone(process.env.CALENDAR_TIME_ZONE);
+
+  switch (widget) {
+    case "kpis":
+      if (!data.global) return null;
+      return (
+        <div className="grid gap-4 md:grid-cols-4">
+          <KpiPrimaryMetrics
+            data={data.global.data}
+            currency={currency}
+            locale={locale}
+            freshness={data.global}
+          />
+        </div>
+      );
+
+    case "extraMetrics": {
+      if (!data.global || !data.topCoins) return null;
+      const { topGainer, topLoser, breadth } = buildMarketSummary(
+        topCoins,
+        data.global.data,
+        { currency },
+      );
+      return (
+        <ExtraMetrics
+          markets={data.global.data.markets}
+          topGainer={topGainer}
+          topLoser={topLoser}
+          breadth={breadth}
+          currency={currency}
+          locale={locale}
+          freshness={mergeFreshness(data.global, data.topCoins)}
+        />
+      );
+    }
+
+    case "watchlist":
+      if (!data.watchlistCoins) return null;
+      return (
+        <WatchlistWidget
+          coins={data.watchlistCoins.data}
+          currency={currency}
+          locale={locale}
+          freshness={data.watchlistCoins}
+        />
+      );
+
+    case "priceChart": {
+      if (!data.chart) return null;
+      const { options, coin } = chartCoins(data, params.coinId);
+      return (
+        <PriceChart
+          mode={params.chartMode}
+          prices={data.chart.data.prices}
+          candles={data.ohlc?.data}
+          coin={coin}
+          coins={options}
+          range={params.range}
+          currency={currency}
+          locale={locale}
+          freshness={
+            data.ohlc ? mergeFreshness(data.chart, data.ohlc) : data.chart
+          }
+        />
+      );
+    }
+
+    case "greenDays": {
+      if (!data.chart) return null;
+      // How many calendar days the coin closed higher
+      const { coin } = chartCoins(data, params.coinId);
+      return (
+        <GreenDaysGauge
+          coinName={coin.name}
+          stats={computeGreenDays(data.chart.data.prices, timeZone)}
+          timeZone={timeZone}
+          locale={locale}
+          freshness={data.chart}
+        />
+      );
+    }
+
+    case "dominanceHistory": {
+      const snapshots = recentSnapshots(data.snapshots, DOMINANCE_HISTORY_DAYS);
+      return (
+        <DominanceHistory
+          btc={dominanceSeries(snapshots, "btc")}
+          eth={dominanceSeries(snapshots, "eth")}
+          days={DOMINANCE_HISTORY_DAYS}
+          locale={locale}
+        />
+      );
+    }
+
+    case "weekOverWeek":
+      return (
+        <WeekOverWeek
+          comparison={weekOverWeek(data.snapshots, currency)}
+          currency={currency}
+          locale={locale}
+        />
+      );
+
+    case "topCoins":
+      if (!data.tablePage) return null;
+      return (
+        <TopCoinsTable
+          coins={data.tablePage.data}
+          page={params.page}
+          pageSize={TOP_COINS_PAGE_SIZE}
+          hasNextPage={data.tablePage.data.length === TOP_COINS_PAGE_SIZE}
+          watchlist={data.watchlist}
+          currency={currency}
+          locale={locale}
+          freshness={data.tablePage}
+        />
+      );
+
+    case "marketShare": {
+      if (!data.global || !data.topCoins) return null;
+      const { marketShare } = buildMarketSummary(topCoins, data.global.data, {
+        currency,
+      });
+      return (
+        <MarketShareOverview
+          items={marketShare}
+          locale={locale}
+          freshness={data.topCoins}
+        />
+      );
+    }
+
+    case "heatmap":
+      if (!data.topCoins) return null;
+      // Every coin of the first page of the ranking
+      return (
+        <MarketHeatmap
+          coins={data.topCoins.data}
+          changeWindow={params.heatmapWindow}
+          query={{
+            coin: params.coinId,
+            range: params.range.id,
+            chart: params.chartMode,
+            ...(params.page > 1 && { page: String(params.page) }),
+          }}
+          currency={currency}
+          locale={locale}
+          freshness={data.topCoins}
+        />
+      );
+
+    case "volume":
+      if (!data.topCoins) return null;
+      return (
+        <VolumeOverview
+          bars={buildVolumeBars(topCoins)}
+          currency={currency}
+          locale={locale}
+          freshness={data.topCoins}
+        />
+      );
+
+    case "risk": {
+      // Risk metrics + correlation matrix across the top coins (benchmark: BTC)
+      const report = buildRiskReport(
+        data.riskHistories.map(({ coin, res }) => ({
+          id: coin.id,
+          name: coin.name,
+          symbol: coin.symbol,
+          prices: res.data.prices,
+        })),
+        {
+          riskFreeRate: parseRiskFreeRate(process.env.RISK_FREE_RATE),
+          timeZone,
+        },
+      );
+      return (
+        <RiskOverview
+          report={report}
+          windowDays={RISK_WINDOW_DAYS}
+          locale={locale}
+          freshness={
+            data.riskHistories.length
+              ? mergeFreshness(...data.riskHistories.map(({ res }) => res))
+              : undefined
+          }
+        />
+      );
+    }
+  }
+}
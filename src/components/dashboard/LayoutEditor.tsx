@@ -0,0 +1,262 @@
+"use client";
+
+import Link from "next/link";
+import { useActionState, useState, useTransition } from "react";
+import {
+  createDashboardLayout,
+  deleteDashboardLayout,
+  type LayoutFormState,
+  saveDashboardLayout,
+} from "@/app/(crypto)/(dashboard)/actions";
+import { defaultLayout, WIDGET_IDS, WIDGETS, widgetSpans } from "@/lib/widgets";
+import type {
+  DashboardLayout,
+  LayoutWidget,
+  WidgetId,
+  WidgetSpan,
+} from "@/types/dashboard";
+
+type LayoutEditorProps = {
+  layout: DashboardLayout;
+  // The last layout can't be deleted
+  canDelete: boolean;
+  // Where "Done" leads (the dashboard without the editor)
+  doneHref: string;
+};
+
+const INITIAL_STATE: LayoutFormState = { error: null };
+
+const SPAN_LABELS: Record<WidgetSpan, string> = {
+  1: "1/3 width",
+  2: "2/3 width",
+  3: "Full width",
+};
+
+const inputClass =
+  "rounded-lg border border-line bg-surface px-2 py-1 text-xs text-fg-soft";
+const labelClass = "flex flex-col gap-1 text-[11px] text-fg-muted";
+const buttonClass =
+  "rounded-lg border border-line px-2 py-1 text-xs text-fg-soft hover:bg-surface-muted disabled:opacity-40";
+
+/**
+ * Edits the active layout: add, remove, reorder and resize its widgets.
+ * Changes are a draft until saved, here or as a new named layout.
+ */
+export function LayoutEditor({
+  layout,
+  canDelete,
+  doneHref,
+}: LayoutEditorProps) {
+  const [widgets, setWidgets] = useState<LayoutWidget[]>(layout.widgets);
+  const [isSaving, startSaving] = useTransition();
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [state, formAction, pending] = useActionState(
+    createDashboardLayout,
+    INITIAL_STATE,
+  );
+
+  const shown = new Set(widgets.map(({ widget }) => widget));
+  const available = WIDGET_IDS.filter((id) => !shown.has(id));
+  const [toAdd, setToAdd] = useState<WidgetId | "">("");
+  const dirty = JSON.stringify(widgets) !== JSON.stringify(layout.widgets);
+
+  function move(index: number, offset: -1 | 1) {
+    const next = [...widgets];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setWidgets(next);
+  }
+
+  function resize(index: number, span: WidgetSpan) {
+    setWidgets(
+      widgets.map((item, i) => (i === index ? { ...item, span } : item)),
+    );
+  }
+
+  function add() {
+    const widget = toAdd || available[0];
+    if (!widget) return;
+    setWidgets([...widgets, { widget, span: WIDGETS[widget].defaultSpan }]);
+    setToAdd("");
+  }
+
+  return (
+    <section className="mb-4 rounded-xl bg-surface p-4 shadow-sm">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <p className="text-xs font-medium text-fg-muted">
+            Customize “{layout.name}”
+          </p>
+          <p className="text-[11px] text-fg-subtle">
+            {dirty ? "Unsaved changes" : "Saved"} · {widgets.length} widget
+            {widgets.length === 1 ? "" : "s"}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setWidgets(defaultLayout().widgets)}
+            className={buttonClass}
+          >
+            Reset to default
+          </button>
+          <button
+            type="button"
+            disabled={!dirty || isSaving}
+            onClick={() =>
+              startSaving(async () => {
+                const result = await saveDashboardLayout(layout.id, widgets);
+                setSaveError(result.error);
+              })
+            }
+            className="rounded-lg bg-inverse px-3 py-1 text-xs font-medium text-on-inverse disabled:opacity-40"
+          >
+            {isSaving ? "Saving…" : "Save"}
+          </button>
+          <Link href={doneHref} className={buttonClass}>
+            Done
+          </Link>
+        </div>
+      </div>
+
+      {/* ─── Widgets of the layout, top to bottom ─── */}
+      <ol className="divide-y text-xs">
+        {widgets.map((item, index) => {
+          const definition = WIDGETS[item.widget];
+          const spans = widgetSpans(item.widget);
+
+          return (
+            <li key={item.widget} className="flex items-center gap-3 py-2">
+              <span className="w-5 text-[11px] text-fg-subtle">
+                {index + 1}
+              </span>
+              <div className="min-w-0 flex-1">
+                <p className="font-medium text-fg">{definition.label}</p>
+                <p className="truncate text-[11px] text-fg-subtle">
+                  {definition.description}
+                </p>
+              </div>
+
+              <select
+                aria-label={`Width of ${definition.label}`}
+                value={item.span}
+                disabled={spans.length === 1}
+                onChange={(event) =>
+                  resize(index, Number(event.target.value) as WidgetSpan)
+                }
+                className={inputClass}
+              >
+                {spans.map((span) => (
+                  <option key={span} value={span}>
+                    {SPAN_LABELS[span]}
+                  </option>
+                ))}
+              </select>
+
+              <button
+                type="button"
+                aria-label={`Move ${definition.label} up`}
+                disabled={index === 0}
+                onClick={() => move(index, -1)}
+                className={buttonClass}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                aria-label={`Move ${definition.label} down`}
+                disabled={index === widgets.length - 1}
+                onClick={() => move(index, 1)}
+                className={buttonClass}
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() =>
+                  setWidgets(widgets.filter((_, i) => i !== index))
+                }
+                className="text-[11px] text-down hover:underline"
+              >
+                Remove
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+      {!widgets.length && (
+        <p className="py-4 text-xs text-fg-subtle">
+          No widgets — add some below.
+        </p>
+      )}
+
+      <div className="mt-4 flex flex-wrap items-end justify-between gap-4 border-t pt-4">
+        {/* ─── Add a widget ─── */}
+        <div className="flex items-end gap-2">
+          <label className={labelClass}>
+            Add widget
+            <select
+              value={toAdd || available[0] || ""}
+              disabled={!available.length}
+              onChange={(event) => setToAdd(event.target.value as WidgetId)}
+              className={inputClass}
+            >
+              {available.map((id) => (
+                <option key={id} value={id}>
+                  {WIDGETS[id].label}
+                </option>
+              ))}
+              {!available.length && <option value="">All widgets shown</option>}
+            </select>
+          </label>
+          <button
+            type="button"
+            disabled={!available.length}
+            onClick={add}
+            className={buttonClass}
+          >
+            Add
+          </button>
+        </div>
+
+        {/* ─── Save as a new layout / delete this one ─── */}
+        <div className="flex items-end gap-2">
+          <form action={formAction} className="flex items-end gap-2">
+            <input
+              type="hidden"
+              name="widgets"
+              value={JSON.stringify(widgets)}
+            />
+            <label className={labelClass}>
+              Save as new layout
+              <input
+                name="name"
+                required
+                placeholder="e.g. Trading"
+                className={inputClass}
+              />
+            </label>
+            <button type="submit" disabled={pending} className={buttonClass}>
+              {pending ? "Saving…" : "Save as"}
+            </button>
+          </form>
+
+          {canDelete && (
+            <form action={deleteDashboardLayout}>
+              <input type="hidden" name="id" value={layout.id} />
+              <button
+                type="submit"
+                className="px-2 py-1 text-xs text-down hover:underline"
+              >
+                Delete layout
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+
+      {saveError && <p className="mt-2 text-xs text-down">{saveError}</p>}
+      {state.error && <p className="mt-2 text-xs text-down">{state.error}</p>}
+    </section>
+  );
+}
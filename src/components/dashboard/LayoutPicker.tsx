@@ -0,0 +1,38 @@
+"use client";
+
+import { useTransition } from "react";
+import { selectDashboardLayout } from "@/app/(crypto)/(dashboard)/actions";
+import type { DashboardLayout } from "@/types/dashboard";
+
+type LayoutPickerProps = {
+  layouts: DashboardLayout[];
+  activeId: string;
+};
+
+/**
+ * Switches the dashboard between the saved layouts.
+ */
+export function LayoutPicker({ layouts, activeId }: LayoutPickerProps) {
+  const [isPending, startTransition] = useTransition();
+
+  return (
+    <label className="flex items-center gap-2 text-[11px] text-fg-muted">
+      Layout
+      <select
+        value={activeId}
+        disabled={isPending}
+        onChange={(event) => {
+          const id = event.target.value;
+          startTransition(() => selectDashboardLayout(id));
+        }}
+        className="rounded-lg border border-line bg-surface px-2 py-1 text-xs text-fg-soft disabled:opacity-60"
+      >
+        {layouts.map((layout) => (
+          <option key={layout.id} value={layout.id}>
+            {layout.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
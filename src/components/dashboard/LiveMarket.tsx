@@ -0,0 +1,166 @@
+"use client";
+
+/**
+ * Live market updates for the dashboard widgets.
+ *
+ * `LiveMarketProvider` subscribes to `/api/live` (server-sent events) and
+ * keeps the latest live state; widgets read it with `useLiveMarket` and
+ * overlay it on their server-rendered data. A dropped connection is retried
+ * with exponential backoff (1s → 30s), at once when the browser comes back
+ * online.
+ */
+
+import { createContext, useContext, useEffect, useMemo, useState } from "react";
+import type { Currency } from "@/lib/currency";
+import {
+  applyLivePatch,
+  type LivePatch,
+  type LiveQuote,
+  type LiveState,
+} from "@/lib/live";
+
+export type LiveConnectionStatus = "connecting" | "live" | "reconnecting";
+
+type LiveMarket = {
+  status: LiveConnectionStatus;
+  // null until the first snapshot arrives
+  state: LiveState | null;
+  // Live quotes by coin id
+  quotes: Map<string, LiveQuote>;
+};
+
+const BASE_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30_000;
+
+// Outside a provider widgets simply render their server data
+const LiveMarketContext = createContext<LiveMarket>({
+  status: "connecting",
+  state: null,
+  quotes: new Map(),
+});
+
+// Exponential delay with jitter, so a server restart isn't hit by every
+// browser at the same instant
+function retryDelay(attempt: number): number {
+  const ceiling = Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** attempt);
+  return Math.round(ceiling / 2 + (Math.random() * ceiling) / 2);
+}
+
+export function LiveMarketProvider({
+  currency,
+  children,
+}: {
+  currency: Currency;
+  children: React.ReactNode;
+}) {
+  const [status, setStatus] = useState<LiveConnectionStatus>("connecting");
+  const [state, setState] = useState<LiveState | null>(null);
+
+  useEffect(() => {
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempt = 0;
+
+    function connect() {
+      clearTimeout(retryTimer);
+      source?.close();
+      source = new EventSource(`/api/live?currency=${currency}`);
+
+      source.addEventListener("snapshot", (event) => {
+        attempt = 0;
+        setStatus("live");
+        setState(JSON.parse(event.data) as LiveState);
+      });
+      source.addEventListener("update", (event) => {
+        const patch = JSON.parse(event.data) as LivePatch;
+        setState((current) => current && applyLivePatch(current, patch));
+      });
+
+      // EventSource retries on its own at a fixed pace; back off instead
+      source.onerror = () => {
+        source?.close();
+        setStatus("reconnecting");
+        retryTimer = setTimeout(connect, retryDelay(attempt));
+        attempt += 1;
+      };
+    }
+
+    function handleOnline() {
+      if (source?.readyState === EventSource.CLOSED) connect();
+    }
+
+    // Quotes of another currency must not overlay this one's
+    setState(null);
+    setStatus("connecting");
+    connect();
+    window.addEventListener("online", handleOnline);
+
+    return () => {
+      clearTimeout(retryTimer);
+      source?.close();
+      window.removeEventListener("online", handleOnline);
+    };
+  }, [currency]);
+
+  const value = useMemo(
+    () => ({
+      status,
+      state,
+      quotes: new Map(state?.coins.map((coin) => [coin.id, coin])),
+    }),
+    [status, state],
+  );
+
+  return (
+    <LiveMarketContext.Provider value={value}>
+      {children}
+    </LiveMarketContext.Provider>
+  );
+}
+
+export function useLiveMarket(): LiveMarket {
+  return useContext(LiveMarketContext);
+}
+
+const STATUS_DISPLAY: Record<
+  LiveConnectionStatus,
+  { label: string; dot: string; title: string }
+> = {
+  connecting: {
+    label: "Connecting…",
+    dot: "bg-fg-faint",
+    title: "Connecting to live prices",
+  },
+  live: {
+    label: "Live",
+    dot: "bg-up",
+    title: "Prices update as the market moves",
+  },
+  reconnecting: {
+    label: "Reconnecting…",
+    dot: "bg-warn",
+    title: "Live prices are paused — showing the last update",
+  },
+};
+
+/**
+ * Dot + label showing the state of the live connection.
+ */
+export function LiveStatus() {
+  const { status } = useLiveMarket();
+  const display = STATUS_DISPLAY[status];
+
+  return (
+    <output
+      title={display.title}
+      className="flex items-center gap-1.5 text-[11px] text-fg-muted"
+    >
+      <span
+        className={`h-2 w-2 rounded-full ${display.dot} ${
+          status === "live" ? "animate-pulse" : ""
+        }`}
+      />
+      {display.label}
+    </output>
+  );
+}
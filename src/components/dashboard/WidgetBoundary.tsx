@@ -0,0 +1,91 @@
+"use client";
+
+/**
+ * Error boundary around one dashboard widget: a widget that fails (data
+ * that can't be loaded, a rendering error) is replaced by an error card
+ * with a retry button while the rest of the dashboard keeps rendering.
+ */
+
+import { useRouter } from "next/navigation";
+import { Component, useTransition } from "react";
+import { Card } from "@/components/ui/Card";
+import { failedDashboardData } from "@/lib/errors";
+
+type WidgetBoundaryProps = {
+  // Widget name shown on the error card
+  label: string;
+  children: React.ReactNode;
+};
+
+type WidgetBoundaryState = {
+  error: (Error & { digest?: string }) | null;
+};
+
+// React only catches render errors in class components
+export class WidgetBoundary extends Component<
+  WidgetBoundaryProps,
+  WidgetBoundaryState
+> {
+  state: WidgetBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): WidgetBoundaryState {
+    return { error };
+  }
+
+  reset = () => this.setState({ error: null });
+
+  render() {
+    const { error } = this.state;
+    if (!error) return this.props.children;
+
+    return (
+      <WidgetError
+        label={this.props.label}
+        error={error}
+        onRetry={this.reset}
+      />
+    );
+  }
+}
+
+type WidgetErrorProps = {
+  label: string;
+  error: Error & { digest?: string };
+  // Clears the boundary once fresh server data is in
+  onRetry: () => void;
+};
+
+/**
+ * Error card of a failed widget. Retrying re-renders the page on the server
+ * (the widget's data is fetched again) and then the widget.
+ */
+export function WidgetError({ label, error, onRetry }: WidgetErrorProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  function retry() {
+    startTransition(() => {
+      router.refresh();
+      onRetry();
+    });
+  }
+
+  return (
+    <Card
+      title={label}
+      error={
+        failedDashboardData(error) ?? "This widget could not be displayed."
+      }
+      actions={
+        <button
+          type="button"
+          onClick={retry}
+          disabled={isPending}
+          className="rounded-lg border border-line px-2 py-1 text-xs text-fg-soft hover:bg-surface-muted disabled:opacity-40"
+        >
+          {isPending ? "Retrying…" : "Retry"}
+        </button>
+      }
+    />
+  );
+}
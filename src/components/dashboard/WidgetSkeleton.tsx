@@ -0,0 +1,91 @@
+/**
+ * Placeholder of a dashboard widget while its data streams in, shaped like
+ * the widget (KPI cards, chart, gauge, rows) so the grid doesn't jump when
+ * it arrives.
+ */
+
+import { Card } from "@/components/ui/Card";
+import { Skeleton } from "@/components/ui/Skeleton";
+import type { WidgetId } from "@/types/dashboard";
+
+// Keys of the placeholder rows / cards, enough for the longest widget
+const PLACEHOLDER_KEYS = Array.from(
+  { length: 10 },
+  (_, idx) => `placeholder-${idx}`,
+);
+
+// Title + subtitle lines of a widget header
+function HeaderSkeleton() {
+  return (
+    <div className="space-y-2">
+      <Skeleton className="h-3 w-32" />
+      <Skeleton className="h-3 w-48" />
+    </div>
+  );
+}
+
+function ChartSkeleton({ height }: { height: string }) {
+  return (
+    <Card>
+      <HeaderSkeleton />
+      <Skeleton className={`mt-4 ${height}`} />
+    </Card>
+  );
+}
+
+function RowsSkeleton({ rows }: { rows: number }) {
+  return (
+    <Card>
+      <HeaderSkeleton />
+      <div className="mt-4 space-y-2">
+        {PLACEHOLDER_KEYS.slice(0, rows).map((key) => (
+          <Skeleton key={key} className="h-6" />
+        ))}
+      </div>
+    </Card>
+  );
+}
+
+function CardsSkeleton({ count, columns }: { count: number; columns: string }) {
+  return (
+    <div className={`grid gap-4 ${columns}`}>
+      {PLACEHOLDER_KEYS.slice(0, count).map((key) => (
+        <Card key={key} loading />
+      ))}
+    </div>
+  );
+}
+
+export function WidgetSkeleton({ widget }: { widget: WidgetId }) {
+  switch (widget) {
+    case "kpis":
+      return <CardsSkeleton count={4} columns="md:grid-cols-4" />;
+    case "extraMetrics":
+      return <CardsSkeleton count={3} columns="md:grid-cols-3" />;
+    case "priceChart":
+    case "volume":
+      return <ChartSkeleton height="h-72" />;
+    case "dominanceHistory":
+      return <ChartSkeleton height="h-48" />;
+    case "heatmap":
+      return <ChartSkeleton height="aspect-[2/1]" />;
+    case "greenDays":
+      return (
+        <Card>
+          <HeaderSkeleton />
+          <div className="mx-auto mt-4 h-40 w-40 overflow-hidden rounded-full">
+            <Skeleton className="h-full" />
+          </div>
+          <Skeleton className="mt-3 h-4" />
+        </Card>
+      );
+    case "watchlist":
+      return <RowsSkeleton rows={3} />;
+    case "weekOverWeek":
+    case "marketShare":
+      return <RowsSkeleton rows={5} />;
+    case "topCoins":
+    case "risk":
+      return <RowsSkeleton rows={10} />;
+  }
+}
@@ -0,0 +1,65 @@
+import { TimeSeriesChart } from "@/components/charts/TimeSeriesChart";
+import { Card } from "@/components/ui/Card";
+import { formatDateTime } from "@/lib/format";
+import { getColorForCoin } from "@/lib/theme";
+
+type DominanceHistoryProps = {
+  // Market cap share (%) over time, from the stored snapshots
+  btc: [number, number][];
+  eth: [number, number][];
+  // Window shown, in days
+  days: number;
+  locale: string;
+};
+
+/**
+ * BTC dominance (ETH as an overlay) over the recorded market snapshots.
+ * `/global` only has the current value, so the history starts when the
+ * server starts recording.
+ */
+export function DominanceHistory({
+  btc,
+  eth,
+  days,
+  locale,
+}: DominanceHistoryProps) {
+  const since = btc[0]?.[0];
+
+  return (
+    <Card
+      title="Dominance History"
+      subtitle={
+        <>
+          Share of total market cap (%), last {days} days
+          {since !== undefined &&
+            ` · recorded since ${formatDateTime(since, locale)} UTC`}
+        </>
+      }
+    >
+      {btc.length < 2 ? (
+        <div className="mt-4 flex h-48 items-center justify-center rounded-lg bg-surface-muted px-4 text-center text-xs text-fg-subtle">
+          History builds up as market snapshots are recorded — check back in a
+          few hours.
+        </div>
+      ) : (
+        <div className="mt-4 rounded-lg bg-surface-muted p-4">
+          <TimeSeriesChart
+            mode="line"
+            series={btc}
+            overlays={[
+              {
+                id: "eth",
+                label: "ETH",
+                color: getColorForCoin("ethereum", 1),
+                series: eth,
+              },
+            ]}
+            color={getColorForCoin("bitcoin", 0)}
+            locale={locale}
+            className="h-48"
+          />
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -1,3 +1,10 @@
+import { Card } from "@/components/ui/Card";
+import { StaleBadge } from "@/components/ui/StaleBadge";
+import type { Currency } from "@/lib/currency";
+import { formatCurrency, formatNumber, formatPercent } from "@/lib/format";
+import type { Freshness } from "@/lib/http-client";
+import type { MarketBreadth } from "@/lib/market-summary";
+
 type SimpleCoin = {
   id: string;
   name: string;
@@ -10,68 +17,95 @@ type ExtraMetricsProps = {
   markets: number;
   topGainer: SimpleCoin | null;
   topLoser: SimpleCoin | null;
-  avgChange24h: number;
+  breadth: MarketBreadth;
+  currency: Currency;
+  locale: string;
+  freshness?: Freshness;
 };
 
 export function ExtraMetrics({
   markets,
   topGainer,
   topLoser,
-  avgChange24h,
+  breadth,
+  currency,
+  locale,
+  freshness,
 }: ExtraMetricsProps) {
   return (
-    <section className="mb-6 grid gap-4 md:grid-cols-3">
+    <div className="grid gap-4 md:grid-cols-3">
       {/* Total Markets / Exchanges */}
-      <div className="rounded-xl bg-white p-4 shadow-sm">
-        <p className="text-xs font-medium text-slate-500">Total Markets</p>
-        <p className="mt-2 text-2xl font-bold">{markets.toLocaleString()}</p>
-        <p className="mt-1 text-xs text-slate-500">
+      <Card
+        title="Total Markets"
+        actions={<StaleBadge freshness={freshness} locale={locale} />}
+      >
+        <p className="mt-2 text-2xl font-bold">
+          {formatNumber(markets, locale)}
+        </p>
+        <p className="mt-1 text-xs text-fg-muted">
           Trading markets/exchanges tracked by CoinGecko
         </p>
-      </div>
+      </Card>
 
       {/* Top Gainer in last 24h */}
-      <div className="rounded-xl bg-white p-4 shadow-sm">
-        <p className="text-xs font-medium text-slate-500">Top Gainer (24h)</p>
+      <Card title="Top Gainer (24h)">
         {topGainer ? (
           <>
             <p className="mt-2 text-sm font-semibold">
               {topGainer.name} ({topGainer.symbol.toUpperCase()})
             </p>
-            <p className="mt-1 text-2xl font-bold text-emerald-600">
-              {topGainer.price_change_percentage_24h?.toFixed(2)}%
+            <p className="mt-1 text-2xl font-bold text-up">
+              {formatPercent(
+                topGainer.price_change_percentage_24h ?? 0,
+                locale,
+                {
+                  signed: true,
+                },
+              )}
             </p>
-            <p className="mt-1 text-xs text-slate-500">
-              Price: ${topGainer.current_price.toLocaleString()}
+            <p className="mt-1 text-xs text-fg-muted">
+              Price: {formatCurrency(topGainer.current_price, currency, locale)}
             </p>
           </>
         ) : (
-          <p className="mt-2 text-xs text-slate-400">No data available</p>
+          <p className="mt-2 text-xs text-fg-subtle">
+            No coin rose in the last 24h
+          </p>
         )}
-      </div>
+      </Card>
 
       {/* Top Loser in last 24h + Avg change */}
-      <div className="rounded-xl bg-white p-4 shadow-sm">
-        <p className="text-xs font-medium text-slate-500">Top Loser (24h)</p>
+      <Card title="Top Loser (24h)">
         {topLoser ? (
           <>
             <p className="mt-2 text-sm font-semibold">
               {topLoser.name} ({topLoser.symbol.toUpperCase()})
             </p>
-            <p className="mt-1 text-2xl font-bold text-rose-600">
-              {topLoser.price_change_percentage_24h?.toFixed(2)}%
+            <p className="mt-1 text-2xl font-bold text-down">
+              {formatPercent(
+                topLoser.price_change_percentage_24h ?? 0,
+                locale,
+                {
+                  signed: true,
+                },
+              )}
             </p>
-            <p className="mt-1 text-xs text-slate-500">
-              Price: ${topLoser.current_price.toLocaleString()}
+            <p className="mt-1 text-xs text-fg-muted">
+              Price: {formatCurrency(topLoser.current_price, currency, locale)}
             </p>
           </>
         ) : (
-          <p className="mt-2 text-xs text-slate-400">No data available</p>
+          <p className="mt-2 text-xs text-fg-subtle">
+            No coin fell in the last 24h
+          </p>
         )}
-        <p className="mt-3 text-[11px] text-slate-400">
-          Avg 24h change (top 10): {avgChange24h.toFixed(2)}%
+        <p className="mt-3 text-[11px] text-fg-subtle">
+          Top {breadth.coins}: {breadth.advancers} up · {breadth.decliners} down
+          · avg {formatPercent(breadth.avgChange24h, locale, { signed: true })}{" "}
+          · median{" "}
+          {formatPercent(breadth.medianChange24h, locale, { signed: true })}
         </p>
-      </div>
-    </section>
+      </Card>
+    </div>
   );
 }
@@ -1,35 +1,114 @@
+import { Card } from "@/components/ui/Card";
+import { StaleBadge } from "@/components/ui/StaleBadge";
+import { formatDay, formatPercent } from "@/lib/format";
+import type { Freshness } from "@/lib/http-client";
+import type { DayMove, GreenDayStats } from "@/lib/metrics";
+import { THEME_COLORS } from "@/lib/theme";
+
 type GreenDaysGaugeProps = {
-  greenRate: number;
-  up: number;
-  down: number;
+  coinName: string;
+  stats: GreenDayStats;
+  // Time zone the calendar days were cut in
+  timeZone: string;
+  locale: string;
+  freshness?: Freshness;
 };
 
-export function GreenDaysGauge({ greenRate, up, down }: GreenDaysGaugeProps) {
-  return (
-    <div className="rounded-xl bg-white p-4 shadow-sm">
-      <p className="text-xs font-medium text-slate-500">Green Days Rate</p>
-      <p className="text-sm text-slate-400">Based on BTC price moves</p>
+// Longer ranges only show their most recent days in the strip
+const STRIP_DAYS = 30;
+
+const DAY_COLORS: Record<DayMove["direction"], string> = {
+  up: "bg-up",
+  down: "bg-down",
+  flat: "bg-fg-faint",
+};
+
+export function GreenDaysGauge({
+  coinName,
+  stats,
+  timeZone,
+  locale,
+  freshness,
+}: GreenDaysGaugeProps) {
+  const { greenRate, up, down, currentStreak } = stats;
+  const strip = stats.days.slice(-STRIP_DAYS);
 
+  return (
+    <Card
+      title="Green Days Rate"
+      subtitle={`${coinName} daily closes (${timeZone})`}
+      actions={<StaleBadge freshness={freshness} locale={locale} />}
+    >
       <div className="mt-4 flex flex-col items-center">
         <div className="relative flex h-40 w-40 items-center justify-center">
-          <div className="absolute h-full w-full rounded-full bg-slate-100" />
+          <div className="absolute h-full w-full rounded-full bg-surface-strong" />
           <div
             className="absolute h-full w-full rounded-full"
             style={{
-              background: `conic-gradient(#22c55e ${greenRate}%, #e5e7eb ${greenRate}% 100%)`,
+              background: `conic-gradient(${THEME_COLORS.up} ${greenRate}%, ${THEME_COLORS.track} ${greenRate}% 100%)`,
             }}
           />
-          <div className="relative flex h-24 w-24 flex-col items-center justify-center rounded-full bg-white shadow-sm">
-            <span className="text-xs text-slate-500">Green Days</span>
-            <span className="text-xl font-bold">{greenRate.toFixed(1)}%</span>
+          <div className="relative flex h-24 w-24 flex-col items-center justify-center rounded-full bg-surface shadow-sm">
+            <span className="text-xs text-fg-muted">Green Days</span>
+            <span className="text-xl font-bold">
+              {formatPercent(greenRate, locale, { digits: 1 })}
+            </span>
           </div>
         </div>
 
-        <div className="mt-3 flex w-full justify-between text-xs text-slate-500">
-          <span>Up moves: {up}</span>
-          <span>Down moves: {down}</span>
+        <div className="mt-3 flex w-full justify-between text-xs text-fg-muted">
+          <span>Up days: {up}</span>
+          <span>Down days: {down}</span>
+        </div>
+
+        {/* ─── Streaks ─── */}
+        <div className="mt-2 flex w-full justify-between text-xs text-fg-muted">
+          <span>
+            Streak:{" "}
+            {currentStreak ? (
+              <span
+                className={
+                  currentStreak.direction === "up"
+                    ? "font-medium text-up"
+                    : "font-medium text-down"
+                }
+              >
+                {currentStreak.length} {currentStreak.direction}
+              </span>
+            ) : (
+              "—"
+            )}
+          </span>
+          <span>
+            Best: {stats.longestUpStreak} up / {stats.longestDownStreak} down
+          </span>
         </div>
+
+        {/* ─── Calendar strip: one cell per day, oldest first ─── */}
+        {strip.length > 0 && (
+          <div className="mt-3 w-full">
+            <div className="flex gap-0.5">
+              {strip.map((day) => (
+                <span
+                  key={day.ts}
+                  title={`${formatDay(day.ts, locale, timeZone)}: ${formatPercent(
+                    day.changePct,
+                    locale,
+                    { signed: true },
+                  )}`}
+                  className={`h-4 flex-1 rounded-sm ${DAY_COLORS[day.direction]}`}
+                />
+              ))}
+            </div>
+            <div className="mt-1 flex justify-between text-[10px] text-fg-subtle">
+              <span>{formatDay(strip[0].ts, locale, timeZone)}</span>
+              <span>
+                {formatDay(strip[strip.length - 1].ts, locale, timeZone)}
+              </span>
+            </div>
+          </div>
+        )}
       </div>
-    </div>
+    </Card>
   );
 }
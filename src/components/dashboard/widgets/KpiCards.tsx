@@ -1,55 +1,65 @@
+import { Card } from "@/components/ui/Card";
+import { type Currency, getCurrencyOption } from "@/lib/currency";
+import { formatCurrency, formatNumber, formatPercent } from "@/lib/format";
 import type { GlobalData } from "@/types/coingecko";
 
-type Props = { data: GlobalData };
+type Props = { data: GlobalData; currency: Currency; locale: string };
 
-export function KpiCards({ data }: Props) {
+export function KpiCards({ data, currency, locale }: Props) {
   return (
-    <section className="mb-4 grid gap-4 md:grid-cols-4 bg-red-900">
+    <section className="mb-4 grid gap-4 md:grid-cols-4">
       {/* Total Market Cap */}
-      <div className="rounded-xl bg-white p-4 shadow-sm">
-        <p className="text-xs font-medium text-slate-500">Total Market Cap</p>
+      <Card title="Total Market Cap">
         <p className="mt-2 text-2xl font-bold">
-          ${Math.round(data.total_market_cap.usd).toLocaleString()}
+          {formatCurrency(
+            data.total_market_cap[currency] ?? 0,
+            currency,
+            locale,
+            {
+              compact: true,
+            },
+          )}
         </p>
-        <p className="mt-1 text-xs text-emerald-600">
-          {data.market_cap_change_percentage_24h_usd.toFixed(2)}% in last 24h
+        <p className="mt-1 text-xs text-up">
+          {formatPercent(data.market_cap_change_percentage_24h_usd, locale, {
+            signed: true,
+          })}{" "}
+          in last 24h
         </p>
-      </div>
+      </Card>
 
       {/* 24h Volume */}
-      <div className="rounded-xl bg-white p-4 shadow-sm">
-        <p className="text-xs font-medium text-slate-500">24h Volume</p>
+      <Card title="24h Volume">
         <p className="mt-2 text-2xl font-bold">
-          ${Math.round(data.total_volume.usd).toLocaleString()}
+          {formatCurrency(data.total_volume[currency] ?? 0, currency, locale, {
+            compact: true,
+          })}
         </p>
-        <p className="mt-1 text-xs text-slate-500">
-          Total traded volume in USD
+        <p className="mt-1 text-xs text-fg-muted">
+          Total traded volume in {getCurrencyOption(currency).label}
         </p>
-      </div>
+      </Card>
 
       {/* Active Cryptocurrencies */}
-      <div className="rounded-xl bg-white p-4 shadow-sm">
-        <p className="text-xs font-medium text-slate-500">
-          Active Cryptocurrencies
-        </p>
+      <Card title="Active Cryptocurrencies">
         <p className="mt-2 text-2xl font-bold">
-          {data.active_cryptocurrencies.toLocaleString()}
+          {formatNumber(data.active_cryptocurrencies, locale)}
         </p>
-        <p className="mt-1 text-xs text-slate-500">
+        <p className="mt-1 text-xs text-fg-muted">
           Currently listed and active
         </p>
-      </div>
+      </Card>
 
       {/* BTC Dominance */}
-      <div className="rounded-xl bg-white p-4 shadow-sm">
-        <p className="text-xs font-medium text-slate-500">BTC Dominance</p>
+      <Card title="BTC Dominance">
         <p className="mt-2 text-2xl font-bold">
-          {data.market_cap_percentage.btc.toFixed(1)}%
+          {formatPercent(data.market_cap_percentage.btc, locale, { digits: 1 })}
         </p>
-        <p className="mt-1 text-xs text-slate-500">
-          ETH: {data.market_cap_percentage.eth.toFixed(1)}%
+        <p className="mt-1 text-xs text-fg-muted">
+          ETH:{" "}
+          {formatPercent(data.market_cap_percentage.eth, locale, { digits: 1 })}
         </p>
-      </div>
+      </Card>
     </section>
   );
 }
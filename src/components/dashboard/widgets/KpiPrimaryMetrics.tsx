@@ -1,3 +1,5 @@
+"use client";
+
 /**
  * KPI - Primary Market Indicators
  *
@@ -9,66 +11,136 @@
  *
  * Pure presentational component — receives data via props.
  * No fetch logic here → easy to reuse, test and replace later.
+ * On the dashboard, live updates (see LiveMarket) replace the server values
+ * as they come in, and the changed figures flash.
  */
 
+import { useLiveMarket } from "@/components/dashboard/LiveMarket";
+import { Card } from "@/components/ui/Card";
+import { FlashValue } from "@/components/ui/FlashValue";
+import { StaleBadge } from "@/components/ui/StaleBadge";
+import { type Currency, getCurrencyOption } from "@/lib/currency";
+import { formatCurrency, formatNumber, formatPercent } from "@/lib/format";
+import type { Freshness } from "@/lib/http-client";
+import { buildGlobalMetrics } from "@/lib/market-summary";
 import type { GlobalData } from "@/types/coingecko";
 
 type Props = {
   data: GlobalData;
+  currency: Currency;
+  locale: string;
+  freshness?: Freshness;
 };
 
-export function KpiPrimaryMetrics({ data }: Props) {
+// Market-wide total: compact on the card ("$2.35T"), exact on hover
+function Total({
+  value,
+  currency,
+  locale,
+}: {
+  value: number | null;
+  currency: Currency;
+  locale: string;
+}) {
+  if (value === null) return <>—</>;
+
+  return (
+    <FlashValue value={value}>
+      <span
+        title={formatCurrency(value, currency, locale, {
+          maximumFractionDigits: 0,
+        })}
+      >
+        {formatCurrency(value, currency, locale, { compact: true })}
+      </span>
+    </FlashValue>
+  );
+}
+
+export function KpiPrimaryMetrics({
+  data: serverData,
+  currency,
+  locale,
+  freshness: serverFreshness,
+}: Props) {
+  const live = useLiveMarket();
+  const data = live.state
+    ? { ...serverData, ...live.state.global }
+    : serverData;
+  const freshness = live.state ?? serverFreshness;
+  const metrics = buildGlobalMetrics(data, currency);
+  const change24h = metrics.marketCapChange24h;
+  // The 24h change is measured in USD whatever the selected currency
+  const changeLabel =
+    currency === metrics.marketCapChange24hCurrency
+      ? "in last 24h"
+      : "in last 24h (USD)";
+
   return (
     <>
       {/* ─── 1) Total Market Cap ─── */}
-      <div className="rounded-xl bg-white p-4 shadow-sm">
-        <p className="text-xs font-medium text-slate-500">Total Market Cap</p>
-
+      <Card
+        title="Total Market Cap"
+        actions={<StaleBadge freshness={freshness} locale={locale} />}
+      >
         <p className="mt-2 text-2xl font-bold">
-          ${Math.round(data.total_market_cap.usd).toLocaleString()}
+          <Total
+            value={metrics.totalMarketCap}
+            currency={currency}
+            locale={locale}
+          />
         </p>
 
-        <p className="mt-1 text-xs text-emerald-600">
-          {data.market_cap_change_percentage_24h_usd.toFixed(2)}% in last 24h
+        <p
+          className={`mt-1 text-xs ${change24h >= 0 ? "text-up" : "text-down"}`}
+        >
+          {formatPercent(change24h, locale, { signed: true })} {changeLabel}
         </p>
-      </div>
+      </Card>
 
       {/* ─── 2) 24h Trading Volume ─── */}
-      <div className="rounded-xl bg-white p-4 shadow-sm">
-        <p className="text-xs font-medium text-slate-500">24h Volume</p>
-
+      <Card title="24h Volume">
         <p className="mt-2 text-2xl font-bold">
-          ${Math.round(data.total_volume.usd).toLocaleString()}
+          <Total
+            value={metrics.totalVolume}
+            currency={currency}
+            locale={locale}
+          />
         </p>
 
-        <p className="mt-1 text-xs text-slate-500">Total traded volume (USD)</p>
-      </div>
-
-      {/* ─── 3) Active Cryptocurrencies ─── */}
-      <div className="rounded-xl bg-white p-4 shadow-sm">
-        <p className="text-xs font-medium text-slate-500">
-          Active Cryptocurrencies
+        <p className="mt-1 text-xs text-fg-muted">
+          Total traded volume ({getCurrencyOption(currency).label})
         </p>
+      </Card>
 
+      {/* ─── 3) Active Cryptocurrencies ─── */}
+      <Card title="Active Cryptocurrencies">
         <p className="mt-2 text-2xl font-bold">
-          {data.active_cryptocurrencies.toLocaleString()}
+          <FlashValue value={metrics.activeCryptocurrencies}>
+            {formatNumber(metrics.activeCryptocurrencies, locale)}
+          </FlashValue>
         </p>
 
-        <p className="mt-1 text-xs text-slate-500">Currently listed & active</p>
-      </div>
+        <p className="mt-1 text-xs text-fg-muted">Currently listed & active</p>
+      </Card>
 
       {/* ─── 4) BTC Dominance ─── */}
-      <div className="rounded-xl bg-white p-4 shadow-sm">
-        <p className="text-xs font-medium text-slate-500">BTC Dominance</p>
-
+      <Card title="BTC Dominance">
         <p className="mt-2 text-2xl font-bold">
-          {data.market_cap_percentage.btc.toFixed(1)}%
+          <FlashValue value={metrics.btcDominance}>
+            {metrics.btcDominance === null
+              ? "—"
+              : formatPercent(metrics.btcDominance, locale, { digits: 1 })}
+          </FlashValue>
         </p>
 
-        <p className="mt-1 text-xs text-slate-500">
-          ETH: {data.market_cap_percentage.eth.toFixed(1)}%
+        <p className="mt-1 text-xs text-fg-muted">
+          ETH:{" "}
+          {metrics.ethDominance === null
+            ? "—"
+            : formatPercent(metrics.ethDominance, locale, { digits: 1 })}
         </p>
-      </div>
+      </Card>
     </>
   );
 }
@@ -0,0 +1,186 @@
+"use client";
+
+/**
+ * Market heatmap: one tile per top coin, its area sized by market cap
+ * (squarified treemap, see lib/treemap) and its color by the price change
+ * over the selected window. Hovering a tile shows its details; clicking it
+ * opens the coin page.
+ */
+
+import Link from "next/link";
+import { useState } from "react";
+import { Card } from "@/components/ui/Card";
+import { SegmentedLinks } from "@/components/ui/SegmentedLinks";
+import { StaleBadge } from "@/components/ui/StaleBadge";
+import type { Currency } from "@/lib/currency";
+import { formatCurrency, formatPercent } from "@/lib/format";
+import {
+  CHANGE_WINDOWS,
+  type ChangeWindow,
+  FULL_COLOR_CHANGE,
+  priceChange,
+} from "@/lib/heatmap";
+import type { Freshness } from "@/lib/http-client";
+import { THEME_COLORS, withOpacity } from "@/lib/theme";
+import { squarify } from "@/lib/treemap";
+import type { MarketCoin } from "@/types/coingecko";
+
+type MarketHeatmapProps = {
+  coins: MarketCoin[];
+  changeWindow: ChangeWindow;
+  // Other search params to keep when switching the window
+  query: Record<string, string>;
+  currency: Currency;
+  locale: string;
+  freshness?: Freshness;
+};
+
+// Layout space, in the proportions of the tile area (2:1)
+const WIDTH = 200;
+const HEIGHT = 100;
+
+// Tiles smaller than this (% of each side) get no label
+const MIN_LABEL_WIDTH = 6;
+const MIN_LABEL_HEIGHT = 10;
+
+// Gains in green, losses in red, stronger as the move nears full color
+function heatColor(change: number | null, changeWindow: ChangeWindow) {
+  if (change === null) return THEME_COLORS.track;
+  const strength = Math.min(
+    Math.abs(change) / FULL_COLOR_CHANGE[changeWindow],
+    1,
+  );
+  return withOpacity(
+    change >= 0 ? THEME_COLORS.up : THEME_COLORS.down,
+    Math.round(20 + strength * 80),
+  );
+}
+
+export function MarketHeatmap({
+  coins,
+  changeWindow,
+  query,
+  currency,
+  locale,
+  freshness,
+}: MarketHeatmapProps) {
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const tiles = squarify(coins, (coin) => coin.market_cap, {
+    x: 0,
+    y: 0,
+    width: WIDTH,
+    height: HEIGHT,
+  }).map((tile) => ({
+    coin: tile.item,
+    change: priceChange(tile.item, changeWindow),
+    left: (tile.x / WIDTH) * 100,
+    top: (tile.y / HEIGHT) * 100,
+    width: (tile.width / WIDTH) * 100,
+    height: (tile.height / HEIGHT) * 100,
+  }));
+  const hovered = tiles.find((tile) => tile.coin.id === hoveredId);
+
+  return (
+    <Card
+      title="Market Heatmap"
+      subtitle={`Top ${tiles.length} coins · area: market cap · color: ${changeWindow} change (±${FULL_COLOR_CHANGE[changeWindow]}% at full color)`}
+      actions={
+        <>
+          <StaleBadge freshness={freshness} locale={locale} />
+          <SegmentedLinks
+            options={CHANGE_WINDOWS}
+            active={changeWindow}
+            param="heatmap"
+            pathname="/"
+            query={query}
+          />
+        </>
+      }
+    >
+      {tiles.length ? (
+        <div
+          className="relative mt-4 aspect-[2/1] w-full overflow-hidden rounded-lg bg-surface-muted"
+          onPointerLeave={() => setHoveredId(null)}
+        >
+          {tiles.map(({ coin, change, left, top, width, height }) => (
+            <Link
+              key={coin.id}
+              href={`/coins/${coin.id}`}
+              aria-label={`${coin.name}: ${
+                change === null
+                  ? "no change data"
+                  : formatPercent(change, locale, { signed: true })
+              } (${changeWindow})`}
+              onPointerEnter={() => setHoveredId(coin.id)}
+              onFocus={() => setHoveredId(coin.id)}
+              className="absolute flex flex-col items-center justify-center overflow-hidden border border-surface text-fg hover:brightness-110"
+              style={{
+                left: `${left}%`,
+                top: `${top}%`,
+                width: `${width}%`,
+                height: `${height}%`,
+                background: heatColor(change, changeWindow),
+              }}
+            >
+              {width >= MIN_LABEL_WIDTH && height >= MIN_LABEL_HEIGHT && (
+                <>
+                  <span
+                    className={`font-semibold uppercase ${
+                      width * height > 600 ? "text-base" : "text-[11px]"
+                    }`}
+                  >
+                    {coin.symbol}
+                  </span>
+                  <span className="text-[10px]">
+                    {change === null
+                      ? "—"
+                      : formatPercent(change, locale, { signed: true })}
+                  </span>
+                </>
+              )}
+            </Link>
+          ))}
+
+          {hovered && (
+            <div
+              className={`pointer-events-none absolute rounded-md bg-inverse/90 px-2 py-1 text-[11px] text-on-inverse shadow ${
+                hovered.left + hovered.width / 2 > 50 ? "-translate-x-full" : ""
+              } ${hovered.top + hovered.height / 2 > 50 ? "-translate-y-full" : ""}`}
+              style={{
+                left: `${hovered.left + hovered.width / 2}%`,
+                top: `${hovered.top + hovered.height / 2}%`,
+              }}
+            >
+              <p className="font-semibold">
+                {hovered.coin.name} · #{hovered.coin.market_cap_rank ?? "—"}
+              </p>
+              <p>
+                {formatCurrency(hovered.coin.current_price, currency, locale)}
+              </p>
+              <p className="opacity-70">
+                Market cap{" "}
+                {formatCurrency(hovered.coin.market_cap, currency, locale, {
+                  compact: true,
+                })}
+              </p>
+              <p className="opacity-70">
+                {CHANGE_WINDOWS.map(({ id }) => {
+                  const change = priceChange(hovered.coin, id);
+                  return `${id} ${
+                    change === null
+                      ? "—"
+                      : formatPercent(change, locale, { signed: true })
+                  }`;
+                }).join(" · ")}
+              </p>
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="py-8 text-center text-xs text-fg-subtle">
+          No market data available
+        </p>
+      )}
+    </Card>
+  );
+}
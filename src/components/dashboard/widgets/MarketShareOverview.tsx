@@ -1,3 +1,9 @@
+import { Card } from "@/components/ui/Card";
+import { StaleBadge } from "@/components/ui/StaleBadge";
+import { formatPercent } from "@/lib/format";
+import type { Freshness } from "@/lib/http-client";
+import { getColorForCoin } from "@/lib/theme";
+
 type MarketShareItem = {
   id: string;
   name: string;
@@ -6,54 +12,58 @@ type MarketShareItem = {
 
 type MarketShareOverviewProps = {
   items: MarketShareItem[];
+  // Reused for the portfolio allocation
+  title?: string;
+  description?: string;
+  locale: string;
+  freshness?: Freshness;
 };
 
-function getColorForCoin(id: string): string {
-  if (id === "bitcoin") return "#f7931a";
-  if (id === "ethereum") return "#3c3c3d";
-  return "#22c55e";
-}
-
-export function MarketShareOverview({ items }: MarketShareOverviewProps) {
+export function MarketShareOverview({
+  items,
+  title = "Market Share Overview",
+  description = "Share of the total market cap held by the top 5 coins",
+  locale,
+  freshness,
+}: MarketShareOverviewProps) {
   return (
-    <div className="rounded-xl bg-white p-4 shadow-sm">
-      <p className="text-xs font-medium text-slate-500">
-        Market Share Overview
-      </p>
-      <p className="text-xs text-slate-400">
-        Distribution of market cap among top 5 coins
-      </p>
-
+    <Card
+      title={title}
+      subtitle={description}
+      actions={<StaleBadge freshness={freshness} locale={locale} />}
+    >
       <div className="mt-4">
-        <div className="flex h-6 overflow-hidden rounded-full bg-slate-100">
-          {items.map((coin) => (
+        <div className="flex h-6 overflow-hidden rounded-full bg-surface-strong">
+          {items.map((coin, idx) => (
             <div
               key={coin.id}
               className="h-full"
               style={{
                 width: `${coin.share}%`,
-                background: getColorForCoin(coin.id),
+                background: getColorForCoin(coin.id, idx),
               }}
-              title={`${coin.name}: ${coin.share.toFixed(2)}%`}
+              title={`${coin.name}: ${formatPercent(coin.share, locale)}`}
             />
           ))}
         </div>
 
         <div className="mt-4 space-y-2 text-xs">
-          {items.map((coin) => (
+          {items.map((coin, idx) => (
             <div key={coin.id} className="flex items-center justify-between">
               <div className="flex items-center gap-2">
                 <span
                   className="h-2 w-2 rounded-full"
-                  style={{ background: getColorForCoin(coin.id) }}
+                  style={{ background: getColorForCoin(coin.id, idx) }}
                 />
                 <span>{coin.name}</span>
               </div>
-              <span className="font-medium">{coin.share.toFixed(2)}%</span>
+              <span className="font-medium">
+                {formatPercent(coin.share, locale)}
+              </span>
             </div>
           ))}
         </div>
       </div>
-    </div>
+    </Card>
   );
 }
@@ -0,0 +1,81 @@
+import { TimeSeriesChart } from "@/components/charts/TimeSeriesChart";
+import { Card } from "@/components/ui/Card";
+import { CoinPicker } from "@/components/ui/CoinPicker";
+import { SegmentedLinks } from "@/components/ui/SegmentedLinks";
+import { StaleBadge } from "@/components/ui/StaleBadge";
+import { TimeRangeSelector } from "@/components/ui/TimeRangeSelector";
+import { CHART_MODES, type ChartMode } from "@/lib/chart";
+import type { Currency } from "@/lib/currency";
+import type { Freshness } from "@/lib/http-client";
+import type { TimeRange } from "@/lib/time-range";
+import type { OhlcCandle } from "@/types/coingecko";
+
+type CoinOption = {
+  id: string;
+  name: string;
+};
+
+type PriceChartProps = {
+  mode: ChartMode;
+  prices: [number, number][];
+  // Only fetched in candlestick mode
+  candles?: OhlcCandle[];
+  coin: CoinOption;
+  coins: CoinOption[];
+  range: TimeRange;
+  currency: Currency;
+  locale: string;
+  freshness?: Freshness;
+};
+
+/**
+ * Price overview for the coin, range and chart mode selected in the URL
+ * (`?coin=ethereum&range=7d&chart=candlestick`), so every view can be
+ * bookmarked.
+ */
+export function PriceChart({
+  mode,
+  prices,
+  candles,
+  coin,
+  coins,
+  range,
+  currency,
+  locale,
+  freshness,
+}: PriceChartProps) {
+  return (
+    <Card
+      title={`${coin.name} Price Overview`}
+      subtitle={range.id === "max" ? "All time" : `Last ${range.label}`}
+      actions={
+        <>
+          <StaleBadge freshness={freshness} locale={locale} />
+          <CoinPicker coins={coins} value={coin.id} />
+          <SegmentedLinks
+            options={CHART_MODES}
+            active={mode}
+            param="chart"
+            pathname="/"
+            query={{ coin: coin.id, range: range.id }}
+          />
+          <TimeRangeSelector
+            active={range}
+            pathname="/"
+            query={{ coin: coin.id, chart: mode }}
+          />
+        </>
+      }
+    >
+      <div className="mt-4 rounded-lg bg-surface-muted p-4">
+        <TimeSeriesChart
+          mode={mode}
+          series={prices}
+          candles={candles}
+          currency={currency}
+          locale={locale}
+        />
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,170 @@
+import { Card } from "@/components/ui/Card";
+import { StaleBadge } from "@/components/ui/StaleBadge";
+import { formatDay, formatNumber, formatPercent } from "@/lib/format";
+import type { Freshness } from "@/lib/http-client";
+import type { RiskReport } from "@/lib/risk";
+import { THEME_COLORS, withOpacity } from "@/lib/theme";
+
+type RiskOverviewProps = {
+  report: RiskReport;
+  // Length of the history the metrics were computed on
+  windowDays: number;
+  locale: string;
+  freshness?: Freshness;
+};
+
+// Positive correlations in green, negative in red, |r| drives the opacity
+function correlationColor(value: number | null) {
+  if (value === null) return THEME_COLORS.track;
+  const percent = Math.round(Math.min(Math.abs(value), 1) * 100);
+  return withOpacity(value >= 0 ? THEME_COLORS.up : THEME_COLORS.down, percent);
+}
+
+// Risk metrics are fractions (0.42 = 42%)
+function formatFraction(value: number | null | undefined, locale: string) {
+  return value === null || value === undefined
+    ? "—"
+    : formatPercent(value * 100, locale, { digits: 1 });
+}
+
+function formatRatio(value: number | null, locale: string) {
+  return value === null
+    ? "—"
+    : formatNumber(value, locale, {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+      });
+}
+
+/**
+ * Desk-level risk check for the top coins: per-coin volatility, drawdown,
+ * Sharpe/Sortino and beta versus BTC, plus a correlation heatmap of daily
+ * returns.
+ */
+export function RiskOverview({
+  report,
+  windowDays,
+  locale,
+  freshness,
+}: RiskOverviewProps) {
+  const { assets, correlations } = report;
+
+  return (
+    <Card
+      title="Risk Overview"
+      subtitle={
+        <>
+          Daily returns, last {windowDays} days · risk-free rate{" "}
+          {formatFraction(report.riskFreeRate, locale)}
+        </>
+      }
+      actions={<StaleBadge freshness={freshness} locale={locale} />}
+    >
+      {assets.length === 0 ? (
+        <p className="py-8 text-center text-xs text-fg-subtle">
+          No price history available
+        </p>
+      ) : (
+        <div className="mt-2 grid gap-6 lg:grid-cols-2">
+          {/* ─── Per-coin risk table ─── */}
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-left text-xs">
+              <thead>
+                <tr className="border-b text-[11px] uppercase text-fg-subtle">
+                  <th className="py-2 pr-4">Coin</th>
+                  <th className="py-2 pr-4">Volatility</th>
+                  <th className="py-2 pr-4">Max Drawdown</th>
+                  <th className="py-2 pr-4">Sharpe</th>
+                  <th className="py-2 pr-4">Sortino</th>
+                  <th className="py-2 pr-4">Beta (BTC)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {assets.map((asset) => (
+                  <tr key={asset.id} className="border-b last:border-0">
+                    <td className="py-2 pr-4">
+                      <p className="font-medium">{asset.name}</p>
+                      <p className="text-[10px] uppercase text-fg-subtle">
+                        {asset.symbol}
+                      </p>
+                    </td>
+                    <td className="py-2 pr-4">
+                      {formatFraction(asset.volatility, locale)}
+                    </td>
+                    <td className="py-2 pr-4">
+                      <p
+                        className={
+                          asset.maxDrawdown?.drawdown ? "text-down" : undefined
+                        }
+                      >
+                        {formatFraction(asset.maxDrawdown?.drawdown, locale)}
+                      </p>
+                      {asset.maxDrawdown?.drawdown ? (
+                        <p className="text-[10px] text-fg-subtle">
+                          {formatDay(asset.maxDrawdown.peakTs, locale, "UTC")} →{" "}
+                          {formatDay(asset.maxDrawdown.troughTs, locale, "UTC")}
+                        </p>
+                      ) : null}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {formatRatio(asset.sharpe, locale)}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {formatRatio(asset.sortino, locale)}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {formatRatio(asset.beta, locale)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* ─── Correlation heatmap ─── */}
+          <div className="overflow-x-auto">
+            <div
+              className="grid gap-0.5 text-[10px]"
+              style={{
+                gridTemplateColumns: `auto repeat(${assets.length}, minmax(2rem, 1fr))`,
+              }}
+            >
+              <span />
+              {assets.map((asset) => (
+                <span
+                  key={asset.id}
+                  className="pb-1 text-center uppercase text-fg-subtle"
+                >
+                  {asset.symbol}
+                </span>
+              ))}
+
+              {assets.map((rowAsset, row) => (
+                <div key={rowAsset.id} className="contents">
+                  <span className="flex items-center justify-end pr-2 uppercase text-fg-subtle">
+                    {rowAsset.symbol}
+                  </span>
+                  {correlations[row].map((value, col) => (
+                    <span
+                      key={assets[col].id}
+                      title={`${rowAsset.symbol.toUpperCase()} / ${assets[col].symbol.toUpperCase()}: ${formatRatio(value, locale)}`}
+                      className="flex h-8 items-center justify-center rounded-sm text-fg-soft"
+                      style={{ backgroundColor: correlationColor(value) }}
+                    >
+                      {value === null
+                        ? "—"
+                        : formatNumber(value, locale, {
+                            minimumFractionDigits: 1,
+                            maximumFractionDigits: 1,
+                          })}
+                    </span>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
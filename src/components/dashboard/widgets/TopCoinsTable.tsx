@@ -1,91 +1,213 @@
-import Image from "next/image";
+"use client";
 
-type TopCoin = {
-  id: string;
-  symbol: string;
-  name: string;
-  image: string;
-  current_price: number;
-  market_cap: number;
-  total_volume: number;
-  price_change_percentage_24h: number | null;
-  market_cap_rank: number;
-};
+import Image from "next/image";
+import Link from "next/link";
+import { useMemo } from "react";
+import { useLiveMarket } from "@/components/dashboard/LiveMarket";
+import { Card } from "@/components/ui/Card";
+import {
+  DataTable,
+  type DataTableColumn,
+  type DataTablePagination,
+} from "@/components/ui/DataTable";
+import { FlashValue } from "@/components/ui/FlashValue";
+import { StaleBadge } from "@/components/ui/StaleBadge";
+import { WatchlistToggle } from "@/components/ui/WatchlistToggle";
+import { type Currency, getCurrencyOption } from "@/lib/currency";
+import { formatCurrency, formatPercent } from "@/lib/format";
+import type { Freshness } from "@/lib/http-client";
+import type { MarketCoin } from "@/types/coingecko";
 
 type TopCoinsTableProps = {
-  coins: TopCoin[];
+  coins: MarketCoin[];
+  // Page of the market cap ranking shown
+  page: number;
+  pageSize: number;
+  hasNextPage: boolean;
+  // Ids of the starred coins
+  watchlist: string[];
+  currency: Currency;
+  locale: string;
+  freshness?: Freshness;
 };
 
-export function TopCoinsTable({ coins }: TopCoinsTableProps) {
-  return (
-    <div className="rounded-xl bg-white p-4 shadow-sm lg:col-span-2">
-      <div className="mb-2 flex items-center justify-between">
-        <p className="text-xs font-medium text-slate-500">
-          Top Coins by Market Cap
-        </p>
-        <p className="text-xs text-slate-400">Top 10 coins (USD)</p>
-      </div>
+function buildColumns(
+  currency: Currency,
+  locale: string,
+  watched: Set<string>,
+): DataTableColumn<MarketCoin>[] {
+  // Compact amount, every digit on hover
+  const compactCell = (value: number) => (
+    <span
+      title={formatCurrency(value, currency, locale, {
+        maximumFractionDigits: 0,
+      })}
+    >
+      {formatCurrency(value, currency, locale, { compact: true })}
+    </span>
+  );
 
-      <div className="overflow-x-auto">
-        <table className="min-w-full text-left text-xs">
-          <thead>
-            <tr className="border-b text-[11px] uppercase text-slate-400">
-              <th className="py-2 pr-4">#</th>
-              <th className="py-2 pr-4">Name</th>
-              <th className="py-2 pr-4">Price</th>
-              <th className="py-2 pr-4">24h %</th>
-              <th className="py-2 pr-4">Market Cap</th>
-              <th className="py-2 pr-4">Volume (24h)</th>
-            </tr>
-          </thead>
-          <tbody>
-            {coins.map((coin) => (
-              <tr key={coin.id} className="border-b last:border-0">
-                <td className="py-2 pr-4 text-[11px] text-slate-500">
-                  {coin.market_cap_rank}
-                </td>
-                <td className="flex items-center gap-2 py-2 pr-4 text-xs">
-                  {/* eslint-disable-next-line @next/next/no-img-element */}
-                  <Image
-                    src={coin.image}
-                    alt={coin.name}
-                    className="h-5 w-5 rounded-full"
-                    width={100}
-                    height={100}
-                  />
-                  <div>
-                    <p className="text-xs font-medium">{coin.name}</p>
-                    <p className="text-[10px] uppercase text-slate-400">
-                      {coin.symbol}
-                    </p>
-                  </div>
-                </td>
-                <td className="py-2 pr-4 text-xs">
-                  ${coin.current_price.toLocaleString()}
-                </td>
-                <td
-                  className={`py-2 pr-4 text-xs ${
-                    (coin.price_change_percentage_24h ?? 0) >= 0
-                      ? "text-emerald-600"
-                      : "text-rose-600"
-                  }`}
-                >
-                  {coin.price_change_percentage_24h
-                    ? coin.price_change_percentage_24h.toFixed(2)
-                    : "0.00"}
-                  %
-                </td>
-                <td className="py-2 pr-4 text-xs">
-                  ${coin.market_cap.toLocaleString()}
-                </td>
-                <td className="py-2 pr-4 text-xs">
-                  ${coin.total_volume.toLocaleString()}
-                </td>
-              </tr>
-            ))}
-          </tbody>
-        </table>
-      </div>
-    </div>
+  return [
+    {
+      id: "watch",
+      header: "",
+      alwaysVisible: true,
+      className: "w-6",
+      cell: (coin) => (
+        <WatchlistToggle
+          coinId={coin.id}
+          coinName={coin.name}
+          watched={watched.has(coin.id)}
+        />
+      ),
+    },
+    {
+      id: "rank",
+      header: "#",
+      cell: (coin) => (
+        <span className="text-[11px] text-fg-muted">
+          {coin.market_cap_rank ?? "—"}
+        </span>
+      ),
+      sortValue: (coin) => coin.market_cap_rank,
+    },
+    {
+      id: "name",
+      header: "Name",
+      alwaysVisible: true,
+      cell: (coin) => (
+        <div className="flex items-center gap-2">
+          <Image
+            src={coin.image}
+            alt={coin.name}
+            className="h-5 w-5 rounded-full"
+            width={100}
+            height={100}
+          />
+          <div>
+            {/* Stretched link: the whole row opens the coin page */}
+            <Link
+              href={`/coins/${coin.id}`}
+              tabIndex={-1}
+              className="text-xs font-medium after:absolute after:inset-0"
+            >
+              {coin.name}
+            </Link>
+            <p className="text-[10px] uppercase text-fg-subtle">
+              {coin.symbol}
+            </p>
+          </div>
+        </div>
+      ),
+      sortValue: (coin) => coin.name.toLowerCase(),
+      filterValue: (coin) => `${coin.name} ${coin.symbol}`,
+    },
+    {
+      id: "price",
+      header: "Price",
+      cell: (coin) => (
+        <FlashValue value={coin.current_price}>
+          {formatCurrency(coin.current_price, currency, locale)}
+        </FlashValue>
+      ),
+      sortValue: (coin) => coin.current_price,
+    },
+    {
+      id: "change24h",
+      header: "24h %",
+      cell: (coin) => (
+        <span
+          className={
+            (coin.price_change_percentage_24h ?? 0) >= 0
+              ? "text-up"
+              : "text-down"
+          }
+        >
+          {formatPercent(coin.price_change_percentage_24h ?? 0, locale, {
+            signed: true,
+          })}
+        </span>
+      ),
+      sortValue: (coin) => coin.price_change_percentage_24h,
+    },
+    {
+      id: "marketCap",
+      header: "Market Cap",
+      cell: (coin) => (
+        <FlashValue value={coin.market_cap}>
+          {compactCell(coin.market_cap)}
+        </FlashValue>
+      ),
+      sortValue: (coin) => coin.market_cap,
+    },
+    {
+      id: "volume",
+      header: "Volume (24h)",
+      cell: (coin) => compactCell(coin.total_volume),
+      sortValue: (coin) => coin.total_volume,
+    },
+  ];
+}
+
+/**
+ * One page of the market cap ranking. Sorting and the name/symbol filter
+ * apply to the page shown; the pager fetches the next ranks server-side.
+ * Live quotes (see LiveMarket) update the coins of the first page in place.
+ */
+export function TopCoinsTable({
+  coins: serverCoins,
+  page,
+  pageSize,
+  hasNextPage,
+  watchlist,
+  currency,
+  locale,
+  freshness: serverFreshness,
+}: TopCoinsTableProps) {
+  const live = useLiveMarket();
+  const coins = useMemo(
+    () =>
+      serverCoins.map((coin) => {
+        const quote = live.quotes.get(coin.id);
+        return quote ? { ...coin, ...quote } : coin;
+      }),
+    [serverCoins, live.quotes],
+  );
+  // The live feed only covers the first page
+  const freshness = page === 1 && live.state ? live.state : serverFreshness;
+  const columns = useMemo(
+    () => buildColumns(currency, locale, new Set(watchlist)),
+    [currency, locale, watchlist],
+  );
+  const { label } = getCurrencyOption(currency);
+  const firstRank = (page - 1) * pageSize + 1;
+  const pagination: DataTablePagination = { page, hasNextPage };
+
+  return (
+    <Card
+      title="Top Coins by Market Cap"
+      actions={
+        <>
+          <StaleBadge freshness={freshness} locale={locale} />
+          <p className="text-xs text-fg-subtle">
+            {coins.length
+              ? `Ranks ${firstRank}–${firstRank + coins.length - 1} (${label})`
+              : label}
+          </p>
+        </>
+      }
+      className="space-y-2"
+    >
+      <DataTable
+        columns={columns}
+        rows={coins}
+        getRowId={(coin) => coin.id}
+        rowHref={(coin) => `/coins/${coin.id}`}
+        initialSort={{ columnId: "rank", direction: "asc" }}
+        filterPlaceholder="Filter by name or symbol"
+        pagination={pagination}
+        emptyMessage="No coins on this page"
+      />
+    </Card>
   );
 }
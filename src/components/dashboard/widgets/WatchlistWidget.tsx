@@ -0,0 +1,95 @@
+import Image from "next/image";
+import Link from "next/link";
+import { Sparkline } from "@/components/charts/Sparkline";
+import { Card } from "@/components/ui/Card";
+import { StaleBadge } from "@/components/ui/StaleBadge";
+import { WatchlistToggle } from "@/components/ui/WatchlistToggle";
+import type { Currency } from "@/lib/currency";
+import { formatCurrency, formatPercent } from "@/lib/format";
+import type { Freshness } from "@/lib/http-client";
+import type { SparklineCoin } from "@/types/coingecko";
+
+type WatchlistWidgetProps = {
+  // Watched coins by market cap (ids unknown upstream are missing)
+  coins: SparklineCoin[];
+  currency: Currency;
+  locale: string;
+  freshness?: Freshness;
+};
+
+/**
+ * Starred coins with their price, 24h change and 7-day sparkline.
+ * Coins are starred from the top coins table or a coin page.
+ */
+export function WatchlistWidget({
+  coins,
+  currency,
+  locale,
+  freshness,
+}: WatchlistWidgetProps) {
+  return (
+    <Card
+      title="Watchlist"
+      actions={
+        <>
+          <StaleBadge freshness={freshness} locale={locale} />
+          <p className="text-xs text-fg-subtle">7d</p>
+        </>
+      }
+    >
+      {coins.length ? (
+        <ul className="mt-2 divide-y divide-line">
+          {coins.map((coin) => {
+            const change = coin.price_change_percentage_24h ?? 0;
+
+            return (
+              <li
+                key={coin.id}
+                className="relative flex items-center gap-3 py-2 text-xs hover:bg-surface-muted"
+              >
+                <WatchlistToggle
+                  coinId={coin.id}
+                  coinName={coin.name}
+                  watched
+                />
+                <Image
+                  src={coin.image}
+                  alt={coin.name}
+                  className="h-5 w-5 rounded-full"
+                  width={100}
+                  height={100}
+                />
+                <div className="min-w-0 flex-1">
+                  {/* Stretched link: the whole row opens the coin page */}
+                  <Link
+                    href={`/coins/${coin.id}`}
+                    className="font-medium after:absolute after:inset-0"
+                  >
+                    {coin.name}
+                  </Link>
+                  <p className="text-[10px] uppercase text-fg-subtle">
+                    {coin.symbol}
+                  </p>
+                </div>
+                <Sparkline
+                  values={coin.sparkline}
+                  label={`${coin.name}, last 7 days`}
+                />
+                <div className="w-28 text-right">
+                  <p>{formatCurrency(coin.current_price, currency, locale)}</p>
+                  <p className={change >= 0 ? "text-up" : "text-down"}>
+                    {formatPercent(change, locale, { signed: true })}
+                  </p>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="py-6 text-center text-xs text-fg-subtle">
+          Star a coin (☆) in the table below or on its page to follow it here
+        </p>
+      )}
+    </Card>
+  );
+}
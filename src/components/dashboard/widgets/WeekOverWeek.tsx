@@ -0,0 +1,140 @@
+import { Card } from "@/components/ui/Card";
+import type { Currency } from "@/lib/currency";
+import {
+  formatCurrency,
+  formatDay,
+  formatNumber,
+  formatPercent,
+} from "@/lib/format";
+import type { SnapshotComparison, SnapshotDelta } from "@/lib/snapshots";
+
+type WeekOverWeekProps = {
+  // null until a week of snapshots is stored
+  comparison: SnapshotComparison | null;
+  currency: Currency;
+  locale: string;
+};
+
+// Rank movers listed under the deltas
+const RANK_MOVERS = 5;
+
+function changeClass(value: number) {
+  if (value === 0) return "text-fg-subtle";
+  return value > 0 ? "text-up" : "text-down";
+}
+
+function signed(text: string, value: number) {
+  return value > 0 ? `+${text}` : text;
+}
+
+/**
+ * Market totals now against a week ago, and the biggest moves in the top
+ * of the market cap ranking over that week.
+ */
+export function WeekOverWeek({
+  comparison,
+  currency,
+  locale,
+}: WeekOverWeekProps) {
+  if (!comparison) {
+    return (
+      <Card title="Week over Week">
+        <p className="mt-6 text-center text-xs text-fg-subtle">
+          Needs a week of recorded market snapshots.
+        </p>
+      </Card>
+    );
+  }
+
+  const rows: {
+    label: string;
+    delta: SnapshotDelta | null;
+    value: (delta: SnapshotDelta) => string;
+    change: (delta: SnapshotDelta) => string;
+  }[] = [
+    {
+      label: "Total market cap",
+      delta: comparison.marketCap,
+      value: (d) =>
+        formatCurrency(d.current, currency, locale, { compact: true }),
+      change: (d) => formatPercent(d.changePct ?? 0, locale, { signed: true }),
+    },
+    {
+      label: "24h volume",
+      delta: comparison.volume,
+      value: (d) =>
+        formatCurrency(d.current, currency, locale, { compact: true }),
+      change: (d) => formatPercent(d.changePct ?? 0, locale, { signed: true }),
+    },
+    {
+      label: "BTC dominance",
+      delta: comparison.btcDominance,
+      value: (d) => formatPercent(d.current, locale),
+      // Percentage points, not a relative change
+      change: (d) => `${signed(formatNumber(d.change, locale), d.change)} pp`,
+    },
+    {
+      label: "Active cryptocurrencies",
+      delta: comparison.activeCryptocurrencies,
+      value: (d) => formatNumber(d.current, locale),
+      change: (d) => signed(formatNumber(d.change, locale), d.change),
+    },
+  ];
+  const movers = comparison.ranks
+    .filter((coin) => coin.change !== 0)
+    .slice(0, RANK_MOVERS);
+
+  return (
+    <Card
+      title="Week over Week"
+      subtitle={`Since ${formatDay(comparison.from, locale)}`}
+    >
+      <dl className="mt-3 space-y-1 text-xs">
+        {rows.map(({ label, delta, value, change }) => (
+          <div key={label} className="flex items-center justify-between gap-2">
+            <dt className="text-fg-muted">{label}</dt>
+            <dd>
+              {delta ? (
+                <>
+                  {value(delta)}{" "}
+                  <span className={changeClass(delta.change)}>
+                    {change(delta)}
+                  </span>
+                </>
+              ) : (
+                "—"
+              )}
+            </dd>
+          </div>
+        ))}
+      </dl>
+
+      <p className="mt-4 text-xs font-medium text-fg-muted">Rank changes</p>
+      {movers.length ? (
+        <ul className="mt-1 space-y-1 text-xs">
+          {movers.map((coin) => (
+            <li key={coin.id} className="flex items-center justify-between">
+              <span>
+                #{coin.rank} {coin.name}
+              </span>
+              {coin.change === null ? (
+                <span className="text-accent">
+                  New in top {comparison.ranks.length}
+                </span>
+              ) : (
+                <span className={changeClass(coin.change)}>
+                  {coin.change > 0 ? "▲" : "▼"} {Math.abs(coin.change)} (was #
+                  {coin.previousRank})
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-1 text-xs text-fg-subtle">
+          The top {comparison.ranks.length} kept their ranks.
+        </p>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { useActionState } from "react";
+import { type ImportState, importCsv } from "@/app/(crypto)/ledger/actions";
+
+const INITIAL_STATE: ImportState = { result: null, error: null };
+
+// Show the first few row errors; the rest are summarized
+const MAX_ERRORS_SHOWN = 5;
+
+/**
+ * CSV upload for exchange exports. The layout (native, Coinbase, Kraken,
+ * Binance) is detected from the header; rows already in the ledger are
+ * skipped.
+ */
+export function ImportForm() {
+  const [state, formAction, pending] = useActionState(importCsv, INITIAL_STATE);
+  const result = state.result;
+
+  return (
+    <form action={formAction} className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="file"
+          name="file"
+          accept=".csv,text/csv"
+          className="text-xs text-fg-soft file:mr-2 file:rounded-lg file:border-0 file:bg-surface-strong file:px-3 file:py-1.5 file:text-xs file:font-medium"
+        />
+        <button
+          type="submit"
+          disabled={pending}
+          className="rounded-lg bg-inverse px-3 py-1.5 text-xs font-medium text-on-inverse disabled:opacity-50"
+        >
+          {pending ? "Importing…" : "Import CSV"}
+        </button>
+      </div>
+
+      {state.error && (
+        <p className="text-[11px] text-down" role="alert">
+          {state.error}
+        </p>
+      )}
+
+      {result && (
+        <div className="text-[11px] text-fg-muted" aria-live="polite">
+          <p>
+            {result.layout ? `Detected ${result.layout} layout. ` : ""}
+            Imported {result.imported} transaction
+            {result.imported === 1 ? "" : "s"}
+            {result.duplicates
+              ? `, ${result.duplicates} already in the ledger`
+              : ""}
+            {result.errors.length
+              ? `, ${result.errors.length} row${result.errors.length === 1 ? "" : "s"} skipped`
+              : ""}
+            .
+          </p>
+          {result.errors.length > 0 && (
+            <ul className="mt-1 list-disc pl-4 text-down">
+              {result.errors.slice(0, MAX_ERRORS_SHOWN).map((error) => (
+                <li key={`${error.line}-${error.message}`}>
+                  Line {error.line}: {error.message}
+                </li>
+              ))}
+              {result.errors.length > MAX_ERRORS_SHOWN && (
+                <li>…and {result.errors.length - MAX_ERRORS_SHOWN} more</li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,211 @@
+import Link from "next/link";
+import { deleteTransaction } from "@/app/(crypto)/ledger/actions";
+import type { YearlyGains } from "@/lib/cost-basis";
+import { formatCurrency, formatDateTime, formatNumber } from "@/lib/format";
+import type { ValuedLedgerPosition } from "@/lib/ledger";
+import type { CostBasisMethod, Transaction } from "@/types/ledger";
+
+// Ledger amounts are USD whatever the dashboard currency
+function formatUsd(value: number | null, locale: string) {
+  if (value === null) return "—";
+  return formatCurrency(value, "usd", locale, { maximumFractionDigits: 2 });
+}
+
+function formatQuantity(value: number, locale: string) {
+  return formatNumber(value, locale, { maximumFractionDigits: 8 });
+}
+
+function gainClass(value: number | null) {
+  if (value === null) return "text-fg-subtle";
+  return value >= 0 ? "text-up" : "text-down";
+}
+
+const headClass = "border-b text-[11px] uppercase text-fg-subtle";
+
+// ─────────────────────────────────────────────────────────────
+// Open positions (unrealized gains)
+// ─────────────────────────────────────────────────────────────
+
+export function LedgerPositionsTable({
+  positions,
+  locale,
+}: {
+  positions: ValuedLedgerPosition[];
+  locale: string;
+}) {
+  if (!positions.length) {
+    return <p className="py-4 text-xs text-fg-subtle">No open positions.</p>;
+  }
+
+  return (
+    <table className="min-w-full text-left text-xs">
+      <thead>
+        <tr className={headClass}>
+          <th className="py-2 pr-4">Coin</th>
+          <th className="py-2 pr-4">Quantity</th>
+          <th className="py-2 pr-4">Cost Basis</th>
+          <th className="py-2 pr-4">Value</th>
+          <th className="py-2 pr-4">Unrealized</th>
+        </tr>
+      </thead>
+      <tbody>
+        {positions.map((position) => (
+          <tr key={position.coinId} className="border-b last:border-0">
+            <td className="py-2 pr-4">
+              <Link
+                href={`/coins/${position.coinId}`}
+                className="font-medium hover:underline"
+              >
+                {position.name}
+              </Link>
+            </td>
+            <td className="py-2 pr-4">
+              {formatQuantity(position.quantity, locale)}
+            </td>
+            <td className="py-2 pr-4">
+              {formatUsd(position.costBasis, locale)}
+            </td>
+            <td className="py-2 pr-4">{formatUsd(position.value, locale)}</td>
+            <td className={`py-2 pr-4 ${gainClass(position.unrealizedGain)}`}>
+              {formatUsd(position.unrealizedGain, locale)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────
+// Realized gains per year (+ CSV export)
+// ─────────────────────────────────────────────────────────────
+
+export function RealizedGainsTable({
+  years,
+  method,
+  locale,
+}: {
+  years: YearlyGains[];
+  method: CostBasisMethod;
+  locale: string;
+}) {
+  if (!years.length) {
+    return <p className="py-4 text-xs text-fg-subtle">No disposals yet.</p>;
+  }
+
+  return (
+    <table className="min-w-full text-left text-xs">
+      <thead>
+        <tr className={headClass}>
+          <th className="py-2 pr-4">Year</th>
+          <th className="py-2 pr-4">Disposals</th>
+          <th className="py-2 pr-4">Proceeds</th>
+          <th className="py-2 pr-4">Cost Basis</th>
+          <th className="py-2 pr-4">Realized</th>
+          <th className="py-2" />
+        </tr>
+      </thead>
+      <tbody>
+        {years.map((year) => (
+          <tr key={year.year} className="border-b last:border-0">
+            <td className="py-2 pr-4 font-medium">{year.year}</td>
+            <td className="py-2 pr-4">{year.disposals}</td>
+            <td className="py-2 pr-4">{formatUsd(year.proceeds, locale)}</td>
+            <td className="py-2 pr-4">{formatUsd(year.costBasis, locale)}</td>
+            <td className={`py-2 pr-4 ${gainClass(year.gain)}`}>
+              {formatUsd(year.gain, locale)}
+            </td>
+            <td className="py-2">
+              <a
+                href={`/ledger/realized-gains?year=${year.year}&method=${method}`}
+                className="text-[11px] text-fg-muted hover:text-fg-soft"
+              >
+                Download CSV
+              </a>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────
+// Transactions
+// ─────────────────────────────────────────────────────────────
+
+export function TransactionsTable({
+  transactions,
+  unpricedIds,
+  locale,
+}: {
+  transactions: Transaction[];
+  // Fills valued at 0 because no USD price was available
+  unpricedIds: Set<string>;
+  locale: string;
+}) {
+  if (!transactions.length) {
+    return (
+      <p className="py-8 text-center text-xs text-fg-subtle">
+        No transactions yet — import an exchange CSV export above.
+      </p>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-left text-xs">
+        <thead>
+          <tr className={headClass}>
+            <th className="py-2 pr-4">Date (UTC)</th>
+            <th className="py-2 pr-4">Type</th>
+            <th className="py-2 pr-4">Coin</th>
+            <th className="py-2 pr-4">Quantity</th>
+            <th className="py-2 pr-4">Price</th>
+            <th className="py-2 pr-4">Fee</th>
+            <th className="py-2 pr-4">Source</th>
+            <th className="py-2" />
+          </tr>
+        </thead>
+        <tbody>
+          {[...transactions].reverse().map((tx) => (
+            <tr key={tx.id} className="border-b last:border-0">
+              <td className="py-2 pr-4">
+                {formatDateTime(tx.timestamp, locale, "UTC")}
+              </td>
+              <td className="py-2 pr-4 capitalize">
+                {tx.type === "transfer"
+                  ? `Transfer ${tx.quantity >= 0 ? "in" : "out"}`
+                  : tx.type}
+              </td>
+              <td className="py-2 pr-4">{tx.coinId}</td>
+              <td className="py-2 pr-4">
+                {formatQuantity(Math.abs(tx.quantity), locale)}
+              </td>
+              <td className="py-2 pr-4">
+                {unpricedIds.has(tx.id) ? (
+                  <span className="text-warn">no price</span>
+                ) : (
+                  formatUsd(tx.price, locale)
+                )}
+              </td>
+              <td className="py-2 pr-4">{formatUsd(tx.fee, locale)}</td>
+              <td className="py-2 pr-4 text-fg-subtle">{tx.source}</td>
+              <td className="py-2">
+                <form action={deleteTransaction}>
+                  <input type="hidden" name="id" value={tx.id} />
+                  <button
+                    type="submit"
+                    className="text-[11px] text-down hover:underline"
+                  >
+                    Remove
+                  </button>
+                </form>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { useActionState } from "react";
+import {
+  type HoldingFormState,
+  saveHolding,
+} from "@/app/(crypto)/portfolio/actions";
+import type { Holding } from "@/types/portfolio";
+
+type HoldingFormProps = {
+  coins: { id: string; name: string }[];
+  // Edit mode when set, add mode otherwise
+  holding?: Holding;
+};
+
+const INITIAL_STATE: HoldingFormState = { error: null };
+
+const inputClass =
+  "rounded-lg border border-line bg-surface px-2 py-1 text-xs text-fg-soft";
+
+/**
+ * Add / edit form for one holding. Validation happens in the server action;
+ * its error message is shown under the form.
+ */
+export function HoldingForm({ coins, holding }: HoldingFormProps) {
+  const [state, formAction, pending] = useActionState(
+    saveHolding,
+    INITIAL_STATE,
+  );
+
+  // Keep the held coin selectable even if it left the top coins list
+  const options =
+    !holding || coins.some((coin) => coin.id === holding.coinId)
+      ? coins
+      : [{ id: holding.coinId, name: holding.coinId }, ...coins];
+
+  return (
+    <form action={formAction} className="flex flex-wrap items-end gap-2">
+      {holding && <input type="hidden" name="id" value={holding.id} />}
+
+      <label className="flex flex-col gap-1 text-[11px] text-fg-muted">
+        Coin
+        <select
+          name="coinId"
+          defaultValue={holding?.coinId ?? options[0]?.id}
+          className={inputClass}
+        >
+          {options.map((coin) => (
+            <option key={coin.id} value={coin.id}>
+              {coin.name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex flex-col gap-1 text-[11px] text-fg-muted">
+        Quantity
+        <input
+          name="quantity"
+          type="number"
+          step="any"
+          min="0"
+          required
+          defaultValue={holding?.quantity}
+          className={`${inputClass} w-28`}
+        />
+      </label>
+
+      <label className="flex flex-col gap-1 text-[11px] text-fg-muted">
+        Cost basis (USD)
+        <input
+          name="costBasis"
+          type="number"
+          step="any"
+          min="0"
+          required
+          defaultValue={holding?.costBasis}
+          className={`${inputClass} w-32`}
+        />
+      </label>
+
+      <button
+        type="submit"
+        disabled={pending}
+        className="rounded-lg bg-inverse px-3 py-1.5 text-xs font-medium text-on-inverse disabled:opacity-50"
+      >
+        {holding ? "Save" : "Add holding"}
+      </button>
+
+      {state.error && (
+        <p className="w-full text-[11px] text-down" role="alert">
+          {state.error}
+        </p>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,149 @@
+import Image from "next/image";
+import Link from "next/link";
+import { deleteHolding } from "@/app/(crypto)/portfolio/actions";
+import { HoldingForm } from "@/components/portfolio/HoldingForm";
+import { formatCurrency, formatNumber, formatPercent } from "@/lib/format";
+import type { PortfolioPosition } from "@/types/portfolio";
+
+type HoldingsTableProps = {
+  positions: PortfolioPosition[];
+  // Options of the edit form's coin picker
+  coins: { id: string; name: string }[];
+  locale: string;
+};
+
+function formatUsd(value: number | null, locale: string) {
+  if (value === null) return "—";
+  return formatCurrency(value, "usd", locale, { maximumFractionDigits: 2 });
+}
+
+function pnlClass(value: number | null) {
+  if (value === null) return "text-fg-subtle";
+  return value >= 0 ? "text-up" : "text-down";
+}
+
+export function HoldingsTable({
+  positions,
+  coins,
+  locale,
+}: HoldingsTableProps) {
+  if (!positions.length) {
+    return (
+      <p className="py-8 text-center text-xs text-fg-subtle">
+        No holdings yet — add your first position below.
+      </p>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-left text-xs">
+        <thead>
+          <tr className="border-b text-[11px] uppercase text-fg-subtle">
+            <th className="py-2 pr-4">Coin</th>
+            <th className="py-2 pr-4">Quantity</th>
+            <th className="py-2 pr-4">Price</th>
+            <th className="py-2 pr-4">Value</th>
+            <th className="py-2 pr-4">Cost Basis</th>
+            <th className="py-2 pr-4">Unrealized P&L</th>
+            <th className="py-2 pr-4">24h P&L</th>
+            <th className="py-2 pr-4">Allocation</th>
+            <th className="py-2" />
+          </tr>
+        </thead>
+        <tbody>
+          {positions.map((position) => (
+            <tr
+              key={position.holding.id}
+              className="border-b align-top last:border-0"
+            >
+              <td className="py-2 pr-4">
+                <div className="flex items-center gap-2">
+                  {position.image && (
+                    <Image
+                      src={position.image}
+                      alt={position.name}
+                      className="h-5 w-5 rounded-full"
+                      width={100}
+                      height={100}
+                    />
+                  )}
+                  <div>
+                    <Link
+                      href={`/coins/${position.holding.coinId}`}
+                      className="font-medium hover:underline"
+                    >
+                      {position.name}
+                    </Link>
+                    <p className="text-[10px] uppercase text-fg-subtle">
+                      {position.symbol || "no price"}
+                    </p>
+                  </div>
+                </div>
+              </td>
+              <td className="py-2 pr-4">
+                {formatNumber(position.holding.quantity, locale, {
+                  maximumFractionDigits: 8,
+                })}
+              </td>
+              <td className="py-2 pr-4">
+                {position.price === null
+                  ? "—"
+                  : formatCurrency(position.price, "usd", locale)}
+              </td>
+              <td className="py-2 pr-4 font-medium">
+                {formatUsd(position.value, locale)}
+              </td>
+              <td className="py-2 pr-4">
+                {formatUsd(position.holding.costBasis, locale)}
+              </td>
+              <td className={`py-2 pr-4 ${pnlClass(position.unrealizedPnl)}`}>
+                {formatUsd(position.unrealizedPnl, locale)}
+                {position.unrealizedPnlPct !== null && (
+                  <span className="ml-1 text-[10px]">
+                    (
+                    {formatPercent(position.unrealizedPnlPct, locale, {
+                      signed: true,
+                    })}
+                    )
+                  </span>
+                )}
+              </td>
+              <td className={`py-2 pr-4 ${pnlClass(position.pnl24h)}`}>
+                {formatUsd(position.pnl24h, locale)}
+              </td>
+              <td className="py-2 pr-4">
+                {formatPercent(position.allocation, locale)}
+              </td>
+              <td className="py-2">
+                <div className="flex items-start gap-2">
+                  <details className="group">
+                    <summary className="cursor-pointer list-none text-[11px] text-fg-muted hover:text-fg-soft">
+                      Edit
+                    </summary>
+                    <div className="mt-2 rounded-lg bg-surface-muted p-2">
+                      <HoldingForm coins={coins} holding={position.holding} />
+                    </div>
+                  </details>
+                  <form action={deleteHolding}>
+                    <input
+                      type="hidden"
+                      name="id"
+                      value={position.holding.id}
+                    />
+                    <button
+                      type="submit"
+                      className="text-[11px] text-down hover:underline"
+                    >
+                      Remove
+                    </button>
+                  </form>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { TimeSeriesChart } from "@/components/charts/TimeSeriesChart";
+import { Card } from "@/components/ui/Card";
+import { StaleBadge } from "@/components/ui/StaleBadge";
+import { TimeRangeSelector } from "@/components/ui/TimeRangeSelector";
+import type { Freshness } from "@/lib/http-client";
+import type { Series } from "@/lib/indicators";
+import { THEME_COLORS } from "@/lib/theme";
+import type { TimeRange } from "@/lib/time-range";
+
+type PortfolioHistoryProps = {
+  history: Series;
+  range: TimeRange;
+  locale: string;
+  freshness?: Freshness;
+};
+
+/**
+ * Value of the current holdings over the selected range (`?range=`).
+ */
+export function PortfolioHistory({
+  history,
+  range,
+  locale,
+  freshness,
+}: PortfolioHistoryProps) {
+  return (
+    <Card
+      title="Portfolio Value"
+      subtitle={`Current holdings, ${
+        range.id === "max" ? "all time" : `last ${range.label}`
+      }`}
+      actions={
+        <>
+          <StaleBadge freshness={freshness} locale={locale} />
+          <TimeRangeSelector active={range} pathname="/portfolio" />
+        </>
+      }
+      className="lg:col-span-2"
+    >
+      <div className="mt-4 rounded-lg bg-surface-muted p-4">
+        <TimeSeriesChart
+          mode="area"
+          series={history}
+          color={THEME_COLORS.series[0]}
+          currency="usd"
+          locale={locale}
+        />
+      </div>
+    </Card>
+  );
+}
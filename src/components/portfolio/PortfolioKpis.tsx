@@ -0,0 +1,63 @@
+import { Card } from "@/components/ui/Card";
+import { StaleBadge } from "@/components/ui/StaleBadge";
+import { formatCurrency, formatPercent } from "@/lib/format";
+import type { Freshness } from "@/lib/http-client";
+import type { PortfolioSummary } from "@/types/portfolio";
+
+type PortfolioKpisProps = {
+  summary: PortfolioSummary;
+  locale: string;
+  freshness?: Freshness;
+};
+
+function changeClass(value: number) {
+  return value >= 0 ? "text-up" : "text-down";
+}
+
+export function PortfolioKpis({
+  summary,
+  locale,
+  freshness,
+}: PortfolioKpisProps) {
+  // Holdings are valued in USD whatever the dashboard currency
+  const formatUsd = (value: number) =>
+    formatCurrency(value, "usd", locale, { maximumFractionDigits: 2 });
+  const formatChange = (value: number) =>
+    formatPercent(value, locale, { signed: true });
+
+  const cards = [
+    {
+      label: "Portfolio Value",
+      value: formatUsd(summary.totalValue),
+      hint: `Cost basis ${formatUsd(summary.totalCost)}`,
+      hintClass: "text-fg-subtle",
+    },
+    {
+      label: "Unrealized P&L",
+      value: formatUsd(summary.unrealizedPnl),
+      hint: formatChange(summary.unrealizedPnlPct),
+      hintClass: changeClass(summary.unrealizedPnl),
+    },
+    {
+      label: "24h P&L",
+      value: formatUsd(summary.pnl24h),
+      hint: formatChange(summary.pnl24hPct),
+      hintClass: changeClass(summary.pnl24h),
+    },
+  ];
+
+  return (
+    <section className="mb-4 grid gap-4 md:grid-cols-3">
+      {cards.map((card) => (
+        <Card
+          key={card.label}
+          title={card.label}
+          actions={<StaleBadge freshness={freshness} locale={locale} />}
+        >
+          <p className="mt-2 text-2xl font-bold">{card.value}</p>
+          <p className={`mt-1 text-xs ${card.hintClass}`}>{card.hint}</p>
+        </Card>
+      ))}
+    </section>
+  );
+}
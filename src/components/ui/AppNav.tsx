@@ -0,0 +1,59 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { CommandPalette } from "@/components/ui/CommandPalette";
+import { CurrencyPicker } from "@/components/ui/CurrencyPicker";
+import { LocalePicker } from "@/components/ui/LocalePicker";
+import { ThemePicker } from "@/components/ui/ThemePicker";
+import type { Currency } from "@/lib/currency";
+import type { Theme } from "@/lib/theme";
+
+// Top-level sections; coin pages belong to the dashboard
+const SECTIONS = [
+  { href: "/", label: "Dashboard" },
+  { href: "/portfolio", label: "Portfolio" },
+  { href: "/ledger", label: "Ledger" },
+  { href: "/alerts", label: "Alerts" },
+];
+
+function isActive(pathname: string, href: string) {
+  if (href === "/") return pathname === "/" || pathname.startsWith("/coins");
+  return pathname === href || pathname.startsWith(`${href}/`);
+}
+
+type AppNavProps = {
+  currency: Currency;
+  locale: string;
+  theme: Theme;
+};
+
+export function AppNav({ currency, locale, theme }: AppNavProps) {
+  const pathname = usePathname();
+
+  return (
+    <nav className="flex items-center gap-4 border-b border-line bg-surface px-8 py-3 text-sm">
+      <span className="font-bold text-fg">noro</span>
+      {SECTIONS.map((section) => (
+        <Link
+          key={section.href}
+          href={section.href}
+          className={
+            isActive(pathname, section.href)
+              ? "font-medium text-fg"
+              : "text-fg-muted hover:text-fg-soft"
+          }
+        >
+          {section.label}
+        </Link>
+      ))}
+      <div className="ml-auto flex items-center gap-2">
+        <CommandPalette />
+        {/* Portfolio and ledger amounts are recorded in USD */}
+        {isActive(pathname, "/") && <CurrencyPicker value={currency} />}
+        <LocalePicker value={locale} />
+        <ThemePicker value={theme} />
+      </div>
+    </nav>
+  );
+}
@@ -0,0 +1,68 @@
+import { Skeleton } from "@/components/ui/Skeleton";
+
+type CardProps = {
+  title?: React.ReactNode;
+  // Line under the title (what the data is, its period…)
+  subtitle?: React.ReactNode;
+  // Right of the title: stale badge, toggles, links
+  actions?: React.ReactNode;
+  // Replaces the content with skeleton lines
+  loading?: boolean;
+  // Replaces the content with the message
+  error?: string | null;
+  className?: string;
+  children?: React.ReactNode;
+};
+
+/**
+ * Surface every widget and page section sits on: a themed panel with an
+ * optional header (title, subtitle, actions) and loading / error states.
+ */
+export function Card({
+  title,
+  subtitle,
+  actions,
+  loading = false,
+  error = null,
+  className = "",
+  children,
+}: CardProps) {
+  const hasHeader = Boolean(title || subtitle || actions);
+
+  return (
+    <div className={`rounded-xl bg-surface p-4 shadow-sm ${className}`}>
+      {hasHeader && (
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <div className="min-w-0">
+            {title && (
+              <p className="text-xs font-medium text-fg-muted">{title}</p>
+            )}
+            {subtitle && <p className="text-sm text-fg-subtle">{subtitle}</p>}
+          </div>
+          {actions && (
+            <div className="flex flex-wrap items-center gap-2">{actions}</div>
+          )}
+        </div>
+      )}
+
+      {error ? (
+        <p
+          role="alert"
+          className={`rounded-lg bg-down-soft px-3 py-2 text-xs text-down ${
+            hasHeader ? "mt-3" : ""
+          }`}
+        >
+          {error}
+        </p>
+      ) : loading ? (
+        <div className={`space-y-2 ${hasHeader ? "mt-3" : ""}`}>
+          <Skeleton className="h-6 w-1/2" />
+          <Skeleton className="h-4 w-full" />
+          <Skeleton className="h-4 w-3/4" />
+        </div>
+      ) : (
+        children
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+
+type CoinPickerProps = {
+  coins: { id: string; name: string }[];
+  value: string;
+};
+
+/**
+ * Coin dropdown that writes the selection to `?coin=` (keeping the other
+ * search params), so the server component re-renders with that coin.
+ */
+export function CoinPicker({ coins, value }: CoinPickerProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  function handleChange(event: React.ChangeEvent<HTMLSelectElement>) {
+    const params = new URLSearchParams(searchParams.toString());
+    params.set("coin", event.target.value);
+    router.push(`${pathname}?${params.toString()}`, { scroll: false });
+  }
+
+  // Keep the current coin selectable even if it is not in the list
+  const options = coins.some((coin) => coin.id === value)
+    ? coins
+    : [{ id: value, name: value }, ...coins];
+
+  return (
+    <select
+      value={value}
+      onChange={handleChange}
+      aria-label="Coin"
+      className="rounded-lg border border-line bg-surface px-2 py-1 text-xs text-fg-soft"
+    >
+      {options.map((coin) => (
+        <option key={coin.id} value={coin.id}>
+          {coin.name}
+        </option>
+      ))}
+    </select>
+  );
+}
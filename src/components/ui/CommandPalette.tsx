@@ -0,0 +1,284 @@
+"use client";
+
+/**
+ * Ctrl/Cmd-K command palette: jump to a page, a dashboard section or any
+ * coin, searched through `/api/search`.
+ *
+ * Typing is debounced, and the results of recent queries are kept in
+ * memory, so going back over a query doesn't refetch it.
+ */
+
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import { useEffect, useRef, useState } from "react";
+import { MIN_SEARCH_LENGTH, normalizeQuery } from "@/lib/search";
+import { WIDGET_IDS, WIDGETS } from "@/lib/widgets";
+import type { SearchCoin } from "@/types/coingecko";
+
+type Command = {
+  id: string;
+  label: string;
+  // Kind of target, shown on the right ("Page", "Dashboard", "#12")
+  hint: string;
+  href: string;
+  thumb?: string;
+};
+
+// Pages, then a jump to each dashboard widget (its section anchor)
+const NAVIGATION: Command[] = [
+  { id: "page:dashboard", label: "Dashboard", hint: "Page", href: "/" },
+  {
+    id: "page:portfolio",
+    label: "Portfolio",
+    hint: "Page",
+    href: "/portfolio",
+  },
+  { id: "page:ledger", label: "Ledger", hint: "Page", href: "/ledger" },
+  { id: "page:alerts", label: "Alerts", hint: "Page", href: "/alerts" },
+  ...WIDGET_IDS.map((id) => ({
+    id: `section:${WIDGETS[id].anchor}`,
+    label: WIDGETS[id].label,
+    hint: "Dashboard",
+    href: `/#${WIDGETS[id].anchor}`,
+  })),
+];
+
+const DEBOUNCE_MS = 200;
+const RECENT_QUERIES = 20;
+
+// Recent query → coins, oldest first (a Map keeps insertion order)
+const recentResults = new Map<string, SearchCoin[]>();
+
+function rememberResults(query: string, coins: SearchCoin[]) {
+  recentResults.delete(query);
+  recentResults.set(query, coins);
+
+  const oldest = recentResults.keys().next().value;
+  if (recentResults.size > RECENT_QUERIES && oldest !== undefined) {
+    recentResults.delete(oldest);
+  }
+}
+
+function coinCommand(coin: SearchCoin): Command {
+  return {
+    id: `coin:${coin.id}`,
+    label: `${coin.name} (${coin.symbol.toUpperCase()})`,
+    hint: coin.market_cap_rank === null ? "Coin" : `#${coin.market_cap_rank}`,
+    href: `/coins/${coin.id}`,
+    thumb: coin.thumb,
+  };
+}
+
+export function CommandPalette() {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [results, setResults] = useState<{
+    query: string;
+    coins: SearchCoin[];
+  }>({ query: "", coins: [] });
+  const [failedQuery, setFailedQuery] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const needle = normalizeQuery(query);
+  const searching = needle.length >= MIN_SEARCH_LENGTH;
+
+  // Ctrl/Cmd-K toggles the palette from anywhere
+  useEffect(() => {
+    function handleKeyDown(event: KeyboardEvent) {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === "k") {
+        event.preventDefault();
+        setOpen((current) => !current);
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  // The palette opens to type into it
+  useEffect(() => {
+    if (open) inputRef.current?.focus();
+  }, [open]);
+
+  // Debounced search; a recent query is answered from memory at once
+  useEffect(() => {
+    if (!open || !searching) return;
+
+    const cached = recentResults.get(needle);
+    if (cached) {
+      setResults({ query: needle, coins: cached });
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/search?q=${encodeURIComponent(needle)}`, {
+          signal: controller.signal,
+        });
+        if (!res.ok) throw new Error(`Search failed with HTTP ${res.status}`);
+
+        const body: { data: SearchCoin[] } = await res.json();
+        rememberResults(needle, body.data);
+        setResults({ query: needle, coins: body.data });
+        setFailedQuery(null);
+      } catch {
+        if (!controller.signal.aborted) setFailedQuery(needle);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [open, searching, needle]);
+
+  const coins = searching && results.query === needle ? results.coins : [];
+  const loading =
+    searching && results.query !== needle && failedQuery !== needle;
+  const commands = [
+    ...NAVIGATION.filter((command) =>
+      command.label.toLowerCase().includes(needle),
+    ),
+    ...coins.map(coinCommand),
+  ];
+  const active = Math.min(activeIndex, commands.length - 1);
+
+  function close() {
+    setOpen(false);
+    setQuery("");
+    setActiveIndex(0);
+  }
+
+  function run(command: Command | undefined) {
+    if (!command) return;
+    close();
+    router.push(command.href);
+  }
+
+  function handleInputKeyDown(event: React.KeyboardEvent<HTMLInputElement>) {
+    switch (event.key) {
+      case "ArrowDown":
+        setActiveIndex((active + 1) % Math.max(commands.length, 1));
+        break;
+      case "ArrowUp":
+        setActiveIndex(
+          (active - 1 + commands.length) % Math.max(commands.length, 1),
+        );
+        break;
+      case "Enter":
+        run(commands[active]);
+        break;
+      case "Escape":
+        close();
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        aria-keyshortcuts="Control+K Meta+K"
+        className="flex items-center gap-2 rounded-lg border border-line px-2 py-1 text-xs text-fg-muted hover:bg-surface-muted"
+      >
+        Search…
+        <kbd className="rounded border border-line px-1 font-sans text-[10px] text-fg-subtle">
+          Ctrl K
+        </kbd>
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 z-50 flex items-start justify-center pt-24">
+          <button
+            type="button"
+            aria-label="Close search"
+            onClick={close}
+            className="absolute inset-0 cursor-default bg-scrim"
+          />
+
+          <div className="relative w-full max-w-lg overflow-hidden rounded-xl bg-surface shadow-xl">
+            <input
+              ref={inputRef}
+              type="text"
+              role="combobox"
+              aria-expanded
+              aria-controls="command-palette-results"
+              aria-activedescendant={
+                commands[active] ? `command-${commands[active].id}` : undefined
+              }
+              value={query}
+              onChange={(event) => {
+                setQuery(event.target.value);
+                setActiveIndex(0);
+              }}
+              onKeyDown={handleInputKeyDown}
+              placeholder="Search coins, jump to a section…"
+              className="w-full border-b border-line px-4 py-3 text-sm outline-none"
+            />
+
+            <div
+              id="command-palette-results"
+              role="listbox"
+              aria-label="Results"
+              className="max-h-80 overflow-y-auto py-1"
+            >
+              {commands.map((command, index) => (
+                // Arrow keys and Enter are handled by the combobox input;
+                // buttons also take Enter / Space when reached another way
+                <button
+                  type="button"
+                  key={command.id}
+                  id={`command-${command.id}`}
+                  role="option"
+                  aria-selected={index === active}
+                  tabIndex={-1}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  onMouseDown={(event) => event.preventDefault()}
+                  onClick={() => run(command)}
+                  className={`flex w-full items-center gap-2 px-4 py-2 text-left text-xs ${
+                    index === active ? "bg-surface-strong" : ""
+                  }`}
+                >
+                  {command.thumb && (
+                    <Image
+                      src={command.thumb}
+                      alt=""
+                      className="h-4 w-4 rounded-full"
+                      width={32}
+                      height={32}
+                    />
+                  )}
+                  <span className="text-fg">{command.label}</span>
+                  <span className="ml-auto text-[10px] text-fg-subtle">
+                    {command.hint}
+                  </span>
+                </button>
+              ))}
+
+              {loading && (
+                <p className="px-4 py-2 text-xs text-fg-subtle">Searching…</p>
+              )}
+              {searching && failedQuery === needle && (
+                <p className="px-4 py-2 text-xs text-down">
+                  Search is unavailable right now
+                </p>
+              )}
+              {!commands.length && !loading && failedQuery !== needle && (
+                <p className="px-4 py-2 text-xs text-fg-subtle">
+                  No matches for “{query.trim()}”
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { useTransition } from "react";
+import { setCurrencyPreference } from "@/app/(crypto)/actions";
+import { CURRENCIES, type Currency } from "@/lib/currency";
+
+type CurrencyPickerProps = {
+  value: Currency;
+};
+
+/**
+ * Quote currency dropdown. The choice is saved in a cookie by a server
+ * action, which re-renders the current page in that currency.
+ */
+export function CurrencyPicker({ value }: CurrencyPickerProps) {
+  const [isPending, startTransition] = useTransition();
+
+  function handleChange(event: React.ChangeEvent<HTMLSelectElement>) {
+    const next = event.target.value;
+    startTransition(() => setCurrencyPreference(next));
+  }
+
+  return (
+    <select
+      value={value}
+      onChange={handleChange}
+      disabled={isPending}
+      aria-label="Currency"
+      className="rounded-lg border border-line bg-surface px-2 py-1 text-xs text-fg-soft disabled:opacity-60"
+    >
+      {CURRENCIES.map((currency) => (
+        <option key={currency.id} value={currency.id}>
+          {currency.symbol} {currency.label}
+        </option>
+      ))}
+    </select>
+  );
+}
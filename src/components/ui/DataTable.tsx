@@ -0,0 +1,388 @@
+"use client";
+
+/**
+ * Generic table driven by column definitions.
+ *
+ * Sorting, text filtering and column visibility run on the client over the
+ * rows it is given. Pagination is server-side: the page lives in a search
+ * param (`?page=2`) and the server component fetches that page, so the
+ * table only ever holds one page of rows.
+ *
+ * Keyboard: ↑/↓ (or j/k), Home and End move between rows, Enter opens the
+ * focused row when "rowHref" is set.
+ */
+
+import Link from "next/link";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { type ReactNode, useMemo, useRef, useState } from "react";
+
+type SortValue = number | string | null;
+
+export type DataTableColumn<T> = {
+  id: string;
+  header: string;
+  cell: (row: T) => ReactNode;
+  // Makes the column sortable; null values always sort last
+  sortValue?: (row: T) => SortValue;
+  // Text matched by the filter box
+  filterValue?: (row: T) => string;
+  align?: "left" | "right";
+  // Columns that can't be hidden from the column menu (e.g. the name)
+  alwaysVisible?: boolean;
+  defaultHidden?: boolean;
+  className?: string;
+};
+
+export type DataTableSort = {
+  columnId: string;
+  direction: "asc" | "desc";
+};
+
+export type DataTablePagination = {
+  page: number;
+  hasNextPage: boolean;
+  // Search param holding the page number (default "page")
+  param?: string;
+};
+
+type DataTableProps<T> = {
+  columns: DataTableColumn<T>[];
+  rows: T[];
+  getRowId: (row: T) => string;
+  rowHref?: (row: T) => string;
+  initialSort?: DataTableSort;
+  filterPlaceholder?: string;
+  pagination?: DataTablePagination;
+  emptyMessage?: string;
+  // Scroll height of the body; the header row stays pinned
+  maxHeightClassName?: string;
+};
+
+function compareValues(a: SortValue, b: SortValue) {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+// Sort a copy; nulls go last whatever the direction
+function sortRows<T>(
+  rows: T[],
+  column: DataTableColumn<T> | undefined,
+  direction: DataTableSort["direction"],
+) {
+  const sortValue = column?.sortValue;
+  if (!sortValue) return rows;
+
+  return [...rows].sort((rowA, rowB) => {
+    const a = sortValue(rowA);
+    const b = sortValue(rowB);
+    if (a === null || b === null) {
+      return a === b ? 0 : a === null ? 1 : -1;
+    }
+    const order = compareValues(a, b);
+    return direction === "asc" ? order : -order;
+  });
+}
+
+// ─────────────────────────────────────────────────────────────
+// Column visibility menu
+// ─────────────────────────────────────────────────────────────
+
+function ColumnMenu<T>({
+  columns,
+  hidden,
+  onToggle,
+}: {
+  columns: DataTableColumn<T>[];
+  hidden: Set<string>;
+  onToggle: (columnId: string) => void;
+}) {
+  const hideable = columns.filter((column) => !column.alwaysVisible);
+  if (!hideable.length) return null;
+
+  return (
+    <details className="relative">
+      <summary className="cursor-pointer list-none rounded-lg border border-line px-2 py-1 text-[11px] text-fg-soft hover:bg-surface-muted">
+        Columns
+      </summary>
+      <div className="absolute right-0 z-20 mt-1 w-40 rounded-lg border border-line bg-surface p-2 shadow-md">
+        {hideable.map((column) => (
+          <label
+            key={column.id}
+            className="flex items-center gap-2 py-0.5 text-xs text-fg-soft"
+          >
+            <input
+              type="checkbox"
+              checked={!hidden.has(column.id)}
+              onChange={() => onToggle(column.id)}
+            />
+            {column.header}
+          </label>
+        ))}
+      </div>
+    </details>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────
+// Server-side pagination links
+// ─────────────────────────────────────────────────────────────
+
+function PaginationLinks({
+  page,
+  hasNextPage,
+  param = "page",
+}: DataTablePagination) {
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  // Keep the other search params (coin, range…) when paging
+  function hrefFor(target: number) {
+    const params = new URLSearchParams(searchParams.toString());
+    if (target <= 1) params.delete(param);
+    else params.set(param, String(target));
+    const query = params.toString();
+    return query ? `${pathname}?${query}` : pathname;
+  }
+
+  const linkClass =
+    "rounded-md px-2 py-1 text-[11px] font-medium text-fg-soft hover:bg-surface-strong";
+  const disabledClass =
+    "rounded-md px-2 py-1 text-[11px] font-medium text-fg-faint";
+
+  return (
+    <nav
+      aria-label="Pagination"
+      className="mt-2 flex items-center justify-end gap-2"
+    >
+      {page > 1 ? (
+        <Link href={hrefFor(page - 1)} scroll={false} className={linkClass}>
+          ← Previous
+        </Link>
+      ) : (
+        <span className={disabledClass}>← Previous</span>
+      )}
+      <span className="text-[11px] text-fg-subtle">Page {page}</span>
+      {hasNextPage ? (
+        <Link href={hrefFor(page + 1)} scroll={false} className={linkClass}>
+          Next →
+        </Link>
+      ) : (
+        <span className={disabledClass}>Next →</span>
+      )}
+    </nav>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────
+// Table
+// ─────────────────────────────────────────────────────────────
+
+export function DataTable<T>({
+  columns,
+  rows,
+  getRowId,
+  rowHref,
+  initialSort,
+  filterPlaceholder = "Filter…",
+  pagination,
+  emptyMessage = "No rows",
+  maxHeightClassName = "max-h-[32rem]",
+}: DataTableProps<T>) {
+  const router = useRouter();
+  const bodyRef = useRef<HTMLTableSectionElement>(null);
+
+  const [sort, setSort] = useState<DataTableSort | undefined>(initialSort);
+  const [filter, setFilter] = useState("");
+  const [hidden, setHidden] = useState(
+    () =>
+      new Set(
+        columns.filter((column) => column.defaultHidden).map((c) => c.id),
+      ),
+  );
+  const [focusedIndex, setFocusedIndex] = useState(0);
+
+  const visibleColumns = columns.filter((column) => !hidden.has(column.id));
+  const isFilterable = columns.some((column) => column.filterValue);
+
+  const visibleRows = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    const filtered = needle
+      ? rows.filter((row) =>
+          columns.some((column) =>
+            column.filterValue?.(row).toLowerCase().includes(needle),
+          ),
+        )
+      : rows;
+
+    return sort
+      ? sortRows(
+          filtered,
+          columns.find((column) => column.id === sort.columnId),
+          sort.direction,
+        )
+      : filtered;
+  }, [rows, columns, filter, sort]);
+
+  function toggleSort(columnId: string) {
+    setSort((current) =>
+      current?.columnId === columnId
+        ? { columnId, direction: current.direction === "asc" ? "desc" : "asc" }
+        : { columnId, direction: "desc" },
+    );
+  }
+
+  function toggleColumn(columnId: string) {
+    setHidden((current) => {
+      const next = new Set(current);
+      if (next.has(columnId)) next.delete(columnId);
+      else next.add(columnId);
+      return next;
+    });
+  }
+
+  function focusRow(index: number) {
+    const target = Math.max(0, Math.min(index, visibleRows.length - 1));
+    setFocusedIndex(target);
+    bodyRef.current
+      ?.querySelectorAll<HTMLTableRowElement>("tr[data-row]")
+      [target]?.focus();
+  }
+
+  function handleRowKeyDown(
+    event: React.KeyboardEvent<HTMLTableRowElement>,
+    index: number,
+    row: T,
+  ) {
+    switch (event.key) {
+      case "ArrowDown":
+      case "j":
+        focusRow(index + 1);
+        break;
+      case "ArrowUp":
+      case "k":
+        focusRow(index - 1);
+        break;
+      case "Home":
+        focusRow(0);
+        break;
+      case "End":
+        focusRow(visibleRows.length - 1);
+        break;
+      case "Enter":
+        if (!rowHref || event.target !== event.currentTarget) return;
+        router.push(rowHref(row));
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  }
+
+  // Keep one row in the tab order even after filtering shrinks the list
+  const tabbableIndex = Math.min(focusedIndex, visibleRows.length - 1);
+
+  return (
+    <div>
+      {(isFilterable || columns.some((column) => !column.alwaysVisible)) && (
+        <div className="mb-2 flex items-center justify-between gap-2">
+          {isFilterable ? (
+            <input
+              type="search"
+              value={filter}
+              onChange={(event) => setFilter(event.target.value)}
+              placeholder={filterPlaceholder}
+              aria-label="Filter rows"
+              className="w-48 rounded-lg border border-line px-2 py-1 text-xs"
+            />
+          ) : (
+            <span />
+          )}
+          <ColumnMenu
+            columns={columns}
+            hidden={hidden}
+            onToggle={toggleColumn}
+          />
+        </div>
+      )}
+
+      <div className={`overflow-auto ${maxHeightClassName}`}>
+        <table className="min-w-full text-left text-xs">
+          <thead>
+            <tr className="border-b text-[11px] uppercase text-fg-subtle">
+              {visibleColumns.map((column) => {
+                const direction =
+                  sort?.columnId === column.id ? sort.direction : undefined;
+                const alignClass = column.align === "right" ? "text-right" : "";
+
+                return (
+                  <th
+                    key={column.id}
+                    scope="col"
+                    aria-sort={
+                      direction === "asc"
+                        ? "ascending"
+                        : direction === "desc"
+                          ? "descending"
+                          : undefined
+                    }
+                    className={`sticky top-0 z-10 bg-surface py-2 pr-4 font-medium ${alignClass}`}
+                  >
+                    {column.sortValue ? (
+                      <button
+                        type="button"
+                        onClick={() => toggleSort(column.id)}
+                        className="inline-flex items-center gap-1 uppercase hover:text-fg-soft"
+                      >
+                        {column.header}
+                        <span aria-hidden className="w-2">
+                          {direction === "asc"
+                            ? "▲"
+                            : direction === "desc"
+                              ? "▼"
+                              : ""}
+                        </span>
+                      </button>
+                    ) : (
+                      column.header
+                    )}
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody ref={bodyRef}>
+            {visibleRows.map((row, index) => (
+              <tr
+                key={getRowId(row)}
+                data-row
+                tabIndex={index === tabbableIndex ? 0 : -1}
+                onFocus={() => setFocusedIndex(index)}
+                onKeyDown={(event) => handleRowKeyDown(event, index, row)}
+                className="relative border-b last:border-0 hover:bg-surface-muted focus:bg-surface-muted focus:outline-none"
+              >
+                {visibleColumns.map((column) => (
+                  <td
+                    key={column.id}
+                    className={`py-2 pr-4 ${
+                      column.align === "right" ? "text-right" : ""
+                    } ${column.className ?? ""}`}
+                  >
+                    {column.cell(row)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {visibleRows.length === 0 && (
+          <p className="py-8 text-center text-xs text-fg-subtle">
+            {filter ? "No rows match the filter" : emptyMessage}
+          </p>
+        )}
+      </div>
+
+      {pagination && <PaginationLinks {...pagination} />}
+    </div>
+  );
+}
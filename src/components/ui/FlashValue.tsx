@@ -0,0 +1,46 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+// How long the highlight stays before fading out
+const FLASH_MS = 1200;
+
+/**
+ * Wraps a displayed number and briefly highlights it when "value" changes:
+ * green when it went up, red when it went down.
+ */
+export function FlashValue({
+  value,
+  children,
+}: {
+  value: number | null | undefined;
+  children: React.ReactNode;
+}) {
+  const previous = useRef(value);
+  const [flash, setFlash] = useState<"up" | "down" | null>(null);
+
+  useEffect(() => {
+    const before = previous.current;
+    previous.current = value;
+    if (value == null || before == null || value === before) return;
+
+    setFlash(value > before ? "up" : "down");
+    const timer = setTimeout(() => setFlash(null), FLASH_MS);
+    return () => clearTimeout(timer);
+  }, [value]);
+
+  const highlight =
+    flash === "up"
+      ? "bg-up-soft"
+      : flash === "down"
+        ? "bg-down-soft"
+        : "bg-transparent";
+
+  return (
+    <span
+      className={`-mx-1 rounded px-1 transition-colors duration-700 ${highlight}`}
+    >
+      {children}
+    </span>
+  );
+}
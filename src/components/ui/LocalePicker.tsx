@@ -0,0 +1,38 @@
+"use client";
+
+import { useTransition } from "react";
+import { setLocalePreference } from "@/app/(crypto)/actions";
+import { LOCALES } from "@/lib/format";
+
+type LocalePickerProps = {
+  value: string;
+};
+
+/**
+ * Locale dropdown for number and date formatting. Saved in a cookie by a
+ * server action, which re-renders the current page.
+ */
+export function LocalePicker({ value }: LocalePickerProps) {
+  const [isPending, startTransition] = useTransition();
+
+  function handleChange(event: React.ChangeEvent<HTMLSelectElement>) {
+    const next = event.target.value;
+    startTransition(() => setLocalePreference(next));
+  }
+
+  return (
+    <select
+      value={value}
+      onChange={handleChange}
+      disabled={isPending}
+      aria-label="Language and region"
+      className="rounded-lg border border-line bg-surface px-2 py-1 text-xs text-fg-soft disabled:opacity-60"
+    >
+      {LOCALES.map((locale) => (
+        <option key={locale.id} value={locale.id}>
+          {locale.label}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,43 @@
+import Link from "next/link";
+
+type SegmentedLinksProps = {
+  options: { id: string; label: string }[];
+  active: string;
+  // Search param written by each option, e.g. "range" → ?range=7d
+  param: string;
+  pathname: string;
+  // Other search params to keep when switching (e.g. the coin)
+  query?: Record<string, string>;
+};
+
+/**
+ * Segmented control whose options are plain links that set one search
+ * param, so the server component re-renders with the new selection.
+ */
+export function SegmentedLinks({
+  options,
+  active,
+  param,
+  pathname,
+  query = {},
+}: SegmentedLinksProps) {
+  return (
+    <div className="flex gap-1 rounded-lg bg-surface-strong p-1">
+      {options.map((option) => (
+        <Link
+          key={option.id}
+          href={{ pathname, query: { ...query, [param]: option.id } }}
+          scroll={false}
+          aria-current={option.id === active ? "page" : undefined}
+          className={`rounded-md px-2 py-1 text-[11px] font-medium ${
+            option.id === active
+              ? "bg-surface text-fg shadow-sm"
+              : "text-fg-muted hover:text-fg-soft"
+          }`}
+        >
+          {option.label}
+        </Link>
+      ))}
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 export function Skeleton({ className = "" }: { className?: string }) {
   return (
-    <div className={`animate-pulse rounded-md bg-slate-200 ${className}`} />
+    <div
+      className={`animate-pulse rounded-md bg-surface-strong ${className}`}
+    />
   );
 }
@@ -0,0 +1,27 @@
+import { formatTime } from "@/lib/format";
+import type { Freshness } from "@/lib/http-client";
+
+/**
+ * "Data as of …" pill shown when a widget renders a stale fallback payload.
+ * Renders nothing while the data is fresh.
+ */
+export function StaleBadge({
+  freshness,
+  locale,
+}: {
+  freshness?: Freshness;
+  locale: string;
+}) {
+  if (!freshness?.stale) return null;
+
+  const asOf = formatTime(freshness.fetchedAt, locale);
+
+  return (
+    <span
+      className="rounded-full bg-warn-soft px-2 py-0.5 text-[10px] font-medium text-warn"
+      title="Upstream is unavailable — showing the last good data"
+    >
+      Data as of {asOf}
+    </span>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { useTransition } from "react";
+import { setThemePreference } from "@/app/(crypto)/actions";
+import { THEMES, type Theme } from "@/lib/theme";
+
+type ThemePickerProps = {
+  value: Theme;
+};
+
+/**
+ * Color theme dropdown (system, light, dark, high contrast). Saved in a
+ * cookie by a server action; the root layout applies it to <html>.
+ */
+export function ThemePicker({ value }: ThemePickerProps) {
+  const [isPending, startTransition] = useTransition();
+
+  function handleChange(event: React.ChangeEvent<HTMLSelectElement>) {
+    const next = event.target.value;
+    startTransition(() => setThemePreference(next));
+  }
+
+  return (
+    <select
+      value={value}
+      onChange={handleChange}
+      disabled={isPending}
+      aria-label="Color theme"
+      className="rounded-lg border border-line bg-surface px-2 py-1 text-xs text-fg-soft disabled:opacity-60"
+    >
+      {THEMES.map((theme) => (
+        <option key={theme.id} value={theme.id}>
+          {theme.label}
+        </option>
+      ))}
+    </select>
+  );
+}
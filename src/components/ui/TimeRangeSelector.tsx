@@ -0,0 +1,29 @@
+import { SegmentedLinks } from "@/components/ui/SegmentedLinks";
+import { TIME_RANGES, type TimeRange } from "@/lib/time-range";
+
+type TimeRangeSelectorProps = {
+  active: TimeRange;
+  pathname: string;
+  // Other search params to keep when switching range (e.g. the coin)
+  query?: Record<string, string>;
+};
+
+/**
+ * 1D / 7D / … control. Sets `?range=`, so the server component re-fetches
+ * the matching history.
+ */
+export function TimeRangeSelector({
+  active,
+  pathname,
+  query,
+}: TimeRangeSelectorProps) {
+  return (
+    <SegmentedLinks
+      options={TIME_RANGES}
+      active={active.id}
+      param="range"
+      pathname={pathname}
+      query={query}
+    />
+  );
+}
@@ -0,0 +1,55 @@
+import Link from "next/link";
+
+type ToggleLinksProps = {
+  options: { id: string; label: string }[];
+  selected: string[];
+  // Search param holding the comma-separated selection, e.g. ?indicators=sma,rsi
+  param: string;
+  pathname: string;
+  // Other search params to keep when toggling
+  query?: Record<string, string>;
+};
+
+/**
+ * Multi-select counterpart of SegmentedLinks: each option is a link that
+ * adds or removes its id from a comma-separated search param.
+ */
+export function ToggleLinks({
+  options,
+  selected,
+  param,
+  pathname,
+  query = {},
+}: ToggleLinksProps) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {options.map((option) => {
+        const isOn = selected.includes(option.id);
+        const next = isOn
+          ? selected.filter((id) => id !== option.id)
+          : [...selected, option.id];
+
+        return (
+          <Link
+            key={option.id}
+            href={{
+              pathname,
+              query: next.length
+                ? { ...query, [param]: next.join(",") }
+                : query,
+            }}
+            scroll={false}
+            aria-pressed={isOn}
+            className={`rounded-full border px-2 py-0.5 text-[11px] font-medium ${
+              isOn
+                ? "border-inverse bg-inverse text-on-inverse"
+                : "border-line text-fg-muted hover:text-fg-soft"
+            }`}
+          >
+            {option.label}
+          </Link>
+        );
+      })}
+    </div>
+  );
+}
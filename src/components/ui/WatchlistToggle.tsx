@@ -0,0 +1,67 @@
+"use client";
+
+import { useOptimistic, useState, useTransition } from "react";
+import { setWatchlistEntry } from "@/app/(crypto)/actions";
+
+type WatchlistToggleProps = {
+  coinId: string;
+  coinName: string;
+  watched: boolean;
+  className?: string;
+};
+
+/**
+ * Star button adding a coin to (or removing it from) the watchlist. The
+ * star flips at once; the server action then re-renders the page, or the
+ * star flips back and the action's error shows next to it.
+ * Stacked above stretched row links, so clicking it doesn't open the coin.
+ */
+export function WatchlistToggle({
+  coinId,
+  coinName,
+  watched,
+  className = "",
+}: WatchlistToggleProps) {
+  const [isPending, startTransition] = useTransition();
+  const [optimisticWatched, setOptimisticWatched] = useOptimistic(watched);
+  const [error, setError] = useState<string | null>(null);
+
+  function handleClick() {
+    const next = !optimisticWatched;
+    startTransition(async () => {
+      setOptimisticWatched(next);
+      const result = await setWatchlistEntry(coinId, next);
+      setError(result.error);
+    });
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={isPending}
+        aria-pressed={optimisticWatched}
+        aria-label={
+          optimisticWatched
+            ? `Remove ${coinName} from watchlist`
+            : `Add ${coinName} to watchlist`
+        }
+        title={optimisticWatched ? "Remove from watchlist" : "Add to watchlist"}
+        className={`relative z-10 text-sm leading-none disabled:opacity-60 ${
+          optimisticWatched ? "text-warn" : "text-fg-faint hover:text-warn"
+        } ${className}`}
+      >
+        {optimisticWatched ? "★" : "☆"}
+      </button>
+      {error && (
+        <span
+          className="relative z-10 ml-1 align-middle text-[11px] font-normal text-down"
+          role="alert"
+        >
+          {error}
+        </span>
+      )}
+    </>
+  );
+}
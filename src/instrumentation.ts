@@ -0,0 +1,35 @@
+/**
+ * Runs once when the server starts: schedules the background jobs
+ * (Node.js runtime only — the edge runtime has no local store).
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const [
+    { parseIntervalSeconds, scheduleJob },
+    { DEFAULT_ALERT_INTERVAL_SECONDS, runAlertRules },
+    { DEFAULT_SNAPSHOT_INTERVAL_SECONDS, recordMarketSnapshot },
+  ] = await Promise.all([
+    import("@/lib/scheduler"),
+    import("@/lib/alert-runner"),
+    import("@/lib/snapshot-recorder"),
+  ]);
+
+  scheduleJob(
+    "Alert evaluation",
+    parseIntervalSeconds(
+      process.env.ALERT_INTERVAL_SECONDS,
+      DEFAULT_ALERT_INTERVAL_SECONDS,
+    ),
+    () => runAlertRules(),
+  );
+  scheduleJob(
+    "Market snapshot",
+    parseIntervalSeconds(
+      process.env.SNAPSHOT_INTERVAL_SECONDS,
+      DEFAULT_SNAPSHOT_INTERVAL_SECONDS,
+    ),
+    recordMarketSnapshot,
+    { immediate: true },
+  );
+}
@@ -0,0 +1,150 @@
+/**
+ * Server-side evaluation of the alert rules.
+ *
+ * A round fetches the market data the enabled rules refer to, evaluates
+ * them (lib/alerts), stores their new state, delivers the triggered alerts
+ * to the webhooks and records them in the history.
+ *
+ * Rounds run on a timer scheduled from `src/instrumentation.ts` (every
+ * ALERT_INTERVAL_SECONDS, 300 by default, 0 disables it) and on demand
+ * from the alerts page. Server-only.
+ */
+
+import {
+  appendAlertEvents,
+  listAlertRules,
+  listWebhooks,
+  saveAlertRuleStates,
+} from "@/lib/alert-store";
+import { type AlertSnapshot, evaluateRules } from "@/lib/alerts";
+import type { Currency } from "@/lib/currency";
+import { mergeFreshness } from "@/lib/http-client";
+import {
+  getCoinsByIds,
+  getGlobalData,
+  getMarketChart,
+} from "@/lib/market-data";
+import { deliverAlert } from "@/lib/webhooks";
+import type { AlertEvent, AlertRule } from "@/types/alerts";
+
+export const DEFAULT_ALERT_INTERVAL_SECONDS = 300;
+
+// History the volume spike baseline is averaged over
+const VOLUME_BASELINE_DAYS = 30;
+
+export type AlertRunResult = {
+  // Enabled rules evaluated (0 when the round was skipped)
+  evaluated: number;
+  events: AlertEvent[];
+  // Upstream served stale data: nothing was evaluated
+  skipped: boolean;
+};
+
+let running: Promise<AlertRunResult> | null = null;
+
+/**
+ * Coin ids to quote per currency: every rule's coin in USD, plus the coins
+ * of price rules in the currency of their threshold.
+ */
+function quoteRequests(rules: AlertRule[]): Map<Currency, string[]> {
+  const ids = new Map<Currency, Set<string>>([["usd", new Set()]]);
+
+  for (const rule of rules) {
+    ids.get("usd")?.add(rule.coinId);
+    if (rule.metric === "price" && rule.currency !== "usd") {
+      const set = ids.get(rule.currency) ?? new Set<string>();
+      ids.set(rule.currency, set.add(rule.coinId));
+    }
+  }
+
+  return new Map(
+    [...ids].map(([currency, set]): [Currency, string[]] => [
+      currency,
+      [...set],
+    ]),
+  );
+}
+
+/**
+ * Average 24h volume (USD) per coin over the baseline window. A coin whose
+ * history fails gets no baseline, so its spike rules are skipped.
+ */
+async function loadVolumeBaselines(
+  coinIds: string[],
+): Promise<Record<string, number>> {
+  const results = await Promise.allSettled(
+    coinIds.map((id) => getMarketChart(id, VOLUME_BASELINE_DAYS, "usd")),
+  );
+
+  const baselines: Record<string, number> = {};
+  results.forEach((result, idx) => {
+    if (result.status !== "fulfilled") return;
+    const volumes = result.value.data.total_volumes;
+    if (!volumes.length) return;
+    baselines[coinIds[idx]] =
+      volumes.reduce((sum, [, volume]) => sum + volume, 0) / volumes.length;
+  });
+  return baselines;
+}
+
+async function runRound(now: number): Promise<AlertRunResult> {
+  const rules = (await listAlertRules()).filter((rule) => rule.enabled);
+  if (!rules.length) return { evaluated: 0, events: [], skipped: false };
+
+  const requests = [...quoteRequests(rules)];
+  const volumeCoinIds = [
+    ...new Set(
+      rules
+        .filter((rule) => rule.metric === "volumeSpike")
+        .map((rule) => rule.coinId),
+    ),
+  ];
+
+  const [globalRes, quoteResults, volumeBaselines] = await Promise.all([
+    getGlobalData(),
+    Promise.all(
+      requests.map(([currency, ids]) => getCoinsByIds(ids, currency)),
+    ),
+    loadVolumeBaselines(volumeCoinIds),
+  ]);
+
+  // Last good data from an outage would re-evaluate old prices as new
+  if (mergeFreshness(globalRes, ...quoteResults).stale) {
+    return { evaluated: 0, events: [], skipped: true };
+  }
+
+  const snapshot: AlertSnapshot = {
+    global: globalRes.data,
+    quotes: Object.fromEntries(
+      requests.map(([currency], idx) => [currency, quoteResults[idx].data]),
+    ),
+    volumeBaselines,
+  };
+
+  const evaluation = evaluateRules(rules, snapshot, now);
+  await saveAlertRuleStates(evaluation.rules);
+
+  const webhooks = evaluation.events.length ? await listWebhooks() : [];
+  const events = await Promise.all(
+    evaluation.events.map(async (event) => ({
+      ...event,
+      deliveries: await deliverAlert(event, webhooks),
+    })),
+  );
+  await appendAlertEvents(events);
+
+  return { evaluated: rules.length, events, skipped: false };
+}
+
+/**
+ * Evaluate the enabled rules once. A call made while a round is running
+ * shares that round instead of starting another.
+ */
+export function runAlertRules(now = Date.now()): Promise<AlertRunResult> {
+  if (!running) {
+    running = runRound(now).finally(() => {
+      running = null;
+    });
+  }
+  return running;
+}
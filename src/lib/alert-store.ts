@@ -0,0 +1,235 @@
+/**
+ * Persistence of alert rules, webhooks and the alert history in the local
+ * JSON store.
+ */
+
+import { randomUUID } from "node:crypto";
+import { readCollection, updateCollection } from "@/lib/store";
+import type {
+  AlertEvent,
+  AlertRule,
+  AlertRuleInput,
+  Webhook,
+} from "@/types/alerts";
+
+const RULES = "alert-rules";
+const WEBHOOKS = "alert-webhooks";
+const HISTORY = "alert-history";
+
+// Oldest events are dropped beyond this
+const MAX_HISTORY = 500;
+
+const METRICS = new Set(["price", "change24h", "dominance", "volumeSpike"]);
+const DIRECTIONS = new Set(["above", "below"]);
+
+function isNullableNumber(value: unknown): value is number | null {
+  return value === null || typeof value === "number";
+}
+
+function isAlertRule(value: unknown): value is AlertRule {
+  if (typeof value !== "object" || value === null) return false;
+  const item = value as Record<string, unknown>;
+
+  return (
+    typeof item.id === "string" &&
+    typeof item.metric === "string" &&
+    METRICS.has(item.metric) &&
+    typeof item.coinId === "string" &&
+    typeof item.direction === "string" &&
+    DIRECTIONS.has(item.direction) &&
+    typeof item.threshold === "number" &&
+    typeof item.currency === "string" &&
+    typeof item.cooldownMinutes === "number" &&
+    typeof item.hysteresis === "number" &&
+    typeof item.enabled === "boolean" &&
+    typeof item.createdAt === "number" &&
+    typeof item.armed === "boolean" &&
+    isNullableNumber(item.lastValue) &&
+    isNullableNumber(item.lastEvaluatedAt) &&
+    isNullableNumber(item.lastTriggeredAt)
+  );
+}
+
+function isWebhook(value: unknown): value is Webhook {
+  if (typeof value !== "object" || value === null) return false;
+  const item = value as Record<string, unknown>;
+
+  return (
+    typeof item.id === "string" &&
+    typeof item.name === "string" &&
+    typeof item.url === "string" &&
+    (item.secret === null || typeof item.secret === "string") &&
+    typeof item.enabled === "boolean" &&
+    typeof item.createdAt === "number"
+  );
+}
+
+function isAlertEvent(value: unknown): value is AlertEvent {
+  if (typeof value !== "object" || value === null) return false;
+  const item = value as Record<string, unknown>;
+
+  return (
+    typeof item.id === "string" &&
+    typeof item.ruleId === "string" &&
+    typeof item.triggeredAt === "number" &&
+    typeof item.coinId === "string" &&
+    typeof item.value === "number" &&
+    typeof item.message === "string" &&
+    Array.isArray(item.deliveries)
+  );
+}
+
+function parseRules(json: unknown): AlertRule[] {
+  if (!Array.isArray(json) || !json.every(isAlertRule)) {
+    throw new TypeError("Expected an array of alert rules");
+  }
+  return json;
+}
+
+function parseWebhooks(json: unknown): Webhook[] {
+  if (!Array.isArray(json) || !json.every(isWebhook)) {
+    throw new TypeError("Expected an array of webhooks");
+  }
+  return json;
+}
+
+function parseHistory(json: unknown): AlertEvent[] {
+  if (!Array.isArray(json) || !json.every(isAlertEvent)) {
+    throw new TypeError("Expected an array of alert events");
+  }
+  return json;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Rules
+// ─────────────────────────────────────────────────────────────
+
+export function listAlertRules(): Promise<AlertRule[]> {
+  return readCollection(RULES, parseRules, []);
+}
+
+export async function addAlertRule(input: AlertRuleInput): Promise<AlertRule> {
+  const rule: AlertRule = {
+    id: randomUUID(),
+    ...input,
+    enabled: true,
+    createdAt: Date.now(),
+    armed: true,
+    lastValue: null,
+    lastEvaluatedAt: null,
+    lastTriggeredAt: null,
+  };
+  await updateCollection(RULES, parseRules, [], (rules) => [...rules, rule]);
+  return rule;
+}
+
+/**
+ * Pause or resume a rule. Resuming re-arms it, so a condition that still
+ * holds fires again.
+ */
+export async function setAlertRuleEnabled(
+  id: string,
+  enabled: boolean,
+): Promise<void> {
+  await updateCollection(RULES, parseRules, [], (rules) =>
+    rules.map((rule) =>
+      rule.id === id
+        ? { ...rule, enabled, armed: rule.armed || enabled }
+        : rule,
+    ),
+  );
+}
+
+export async function removeAlertRule(id: string): Promise<void> {
+  await updateCollection(RULES, parseRules, [], (rules) =>
+    rules.filter((rule) => rule.id !== id),
+  );
+}
+
+/**
+ * Store the evaluation state of rules. Only the state fields are written,
+ * so edits made while the rules were being evaluated are kept, and rules
+ * removed meanwhile stay removed.
+ */
+export async function saveAlertRuleStates(evaluated: AlertRule[]) {
+  const byId = new Map(evaluated.map((rule) => [rule.id, rule]));
+
+  await updateCollection(RULES, parseRules, [], (rules) =>
+    rules.map((rule) => {
+      const state = byId.get(rule.id);
+      if (!state || !rule.enabled) return rule;
+
+      return {
+        ...rule,
+        armed: state.armed,
+        lastValue: state.lastValue,
+        lastEvaluatedAt: state.lastEvaluatedAt,
+        lastTriggeredAt: state.lastTriggeredAt,
+      };
+    }),
+  );
+}
+
+// ─────────────────────────────────────────────────────────────
+// Webhooks
+// ─────────────────────────────────────────────────────────────
+
+export function listWebhooks(): Promise<Webhook[]> {
+  return readCollection(WEBHOOKS, parseWebhooks, []);
+}
+
+export async function addWebhook(
+  input: Pick<Webhook, "name" | "url" | "secret">,
+): Promise<Webhook> {
+  const webhook: Webhook = {
+    id: randomUUID(),
+    ...input,
+    enabled: true,
+    createdAt: Date.now(),
+  };
+  await updateCollection(WEBHOOKS, parseWebhooks, [], (webhooks) => [
+    ...webhooks,
+    webhook,
+  ]);
+  return webhook;
+}
+
+export async function setWebhookEnabled(
+  id: string,
+  enabled: boolean,
+): Promise<void> {
+  await updateCollection(WEBHOOKS, parseWebhooks, [], (webhooks) =>
+    webhooks.map((webhook) =>
+      webhook.id === id ? { ...webhook, enabled } : webhook,
+    ),
+  );
+}
+
+export async function removeWebhook(id: string): Promise<void> {
+  await updateCollection(WEBHOOKS, parseWebhooks, [], (webhooks) =>
+    webhooks.filter((webhook) => webhook.id !== id),
+  );
+}
+
+// ─────────────────────────────────────────────────────────────
+// History
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Triggered alerts, newest first.
+ */
+export function listAlertHistory(): Promise<AlertEvent[]> {
+  return readCollection(HISTORY, parseHistory, []);
+}
+
+export async function appendAlertEvents(events: AlertEvent[]): Promise<void> {
+  if (!events.length) return;
+
+  await updateCollection(HISTORY, parseHistory, [], (history) =>
+    [...events, ...history].slice(0, MAX_HISTORY),
+  );
+}
+
+export async function clearAlertHistory(): Promise<void> {
+  await updateCollection(HISTORY, parseHistory, [], () => []);
+}
@@ -0,0 +1,241 @@
+/**
+ * Alert rules engine.
+ *
+ * Rules are edge-triggered: a rule fires when its condition becomes true,
+ * then disarms until the value moves back across the threshold by the
+ * rule's hysteresis, so a price hovering around $X doesn't fire on every
+ * evaluation. The cooldown additionally spaces out two triggers of the
+ * same rule.
+ *
+ * Pure: evaluates what the runner (lib/alert-runner) fetched and returns
+ * the next rule states and the triggered events. Safe to import from
+ * client components.
+ */
+
+import type { Currency } from "@/lib/currency";
+import { formatCurrency, formatNumber, formatPercent } from "@/lib/format";
+import type {
+  AlertDirection,
+  AlertEvent,
+  AlertMetric,
+  AlertRule,
+} from "@/types/alerts";
+import type { GlobalData, MarketCoin } from "@/types/coingecko";
+
+export const ALERT_METRICS: { id: AlertMetric; label: string }[] = [
+  { id: "price", label: "Price" },
+  { id: "change24h", label: "24h change (%)" },
+  { id: "dominance", label: "Dominance (%)" },
+  { id: "volumeSpike", label: "Volume spike (× 30d avg)" },
+];
+
+export const ALERT_DIRECTIONS: { id: AlertDirection; label: string }[] = [
+  { id: "above", label: "above" },
+  { id: "below", label: "below" },
+];
+
+// Locale of webhook messages (rules are evaluated without a visitor)
+const MESSAGE_LOCALE = "en-US";
+
+/**
+ * Market data a round of rules is evaluated against.
+ */
+export type AlertSnapshot = {
+  global: GlobalData;
+  // Coins the rules refer to, per currency they are quoted in. USD quotes
+  // carry every coin; other currencies only those of price rules.
+  quotes: Partial<Record<Currency, MarketCoin[]>>;
+  // Average 24h volume (USD) over the last 30 days, per coin id
+  volumeBaselines: Record<string, number>;
+};
+
+export type AlertEvaluation = {
+  rules: AlertRule[];
+  events: AlertEvent[];
+};
+
+function findCoin(
+  snapshot: AlertSnapshot,
+  coinId: string,
+  currency: Currency = "usd",
+): MarketCoin | undefined {
+  return snapshot.quotes[currency]?.find((coin) => coin.id === coinId);
+}
+
+/**
+ * Current value of the rule's metric, or null when the data for it is
+ * missing (unknown coin, no dominance entry, no volume history).
+ */
+export function readMetric(
+  rule: AlertRule,
+  snapshot: AlertSnapshot,
+): number | null {
+  switch (rule.metric) {
+    case "price":
+      return (
+        findCoin(snapshot, rule.coinId, rule.currency)?.current_price ?? null
+      );
+    case "change24h":
+      return (
+        findCoin(snapshot, rule.coinId)?.price_change_percentage_24h ?? null
+      );
+    case "dominance": {
+      const coin = findCoin(snapshot, rule.coinId);
+      if (!coin) return null;
+      return (
+        snapshot.global.market_cap_percentage[coin.symbol.toLowerCase()] ?? null
+      );
+    }
+    case "volumeSpike": {
+      const coin = findCoin(snapshot, rule.coinId);
+      const baseline = snapshot.volumeBaselines[rule.coinId];
+      if (!coin || !baseline) return null;
+      return coin.total_volume / baseline;
+    }
+  }
+}
+
+function isMet(rule: AlertRule, value: number): boolean {
+  return rule.direction === "above"
+    ? value > rule.threshold
+    : value < rule.threshold;
+}
+
+// Back across the threshold by at least the hysteresis
+function isReset(rule: AlertRule, value: number): boolean {
+  return rule.direction === "above"
+    ? value <= rule.threshold - rule.hysteresis
+    : value >= rule.threshold + rule.hysteresis;
+}
+
+/**
+ * A metric value in its unit: "$100,000.00", "-5.00%", "3.2×". Changes are
+ * signed unless "signed" is false (e.g. for a distance).
+ */
+export function formatMetricValue(
+  metric: AlertMetric,
+  value: number,
+  currency: Currency,
+  locale: string,
+  { signed = true }: { signed?: boolean } = {},
+): string {
+  switch (metric) {
+    case "price":
+      return formatCurrency(value, currency, locale);
+    case "change24h":
+      return formatPercent(value, locale, { signed });
+    case "dominance":
+      return formatPercent(value, locale);
+    case "volumeSpike":
+      return `${formatNumber(value, locale, { maximumFractionDigits: 1 })}×`;
+  }
+}
+
+/**
+ * "Bitcoin price above $100,000.00".
+ */
+export function describeRule(
+  rule: Pick<AlertRule, "metric" | "direction" | "threshold" | "currency">,
+  coinName: string,
+  locale: string,
+): string {
+  const subject = {
+    price: "price",
+    change24h: "24h change",
+    dominance: "dominance",
+    volumeSpike: "24h volume",
+  }[rule.metric];
+  const threshold = formatMetricValue(
+    rule.metric,
+    rule.threshold,
+    rule.currency,
+    locale,
+  );
+
+  return `${coinName} ${subject} ${rule.direction} ${threshold}${
+    rule.metric === "volumeSpike" ? " its 30-day average" : ""
+  }`;
+}
+
+/**
+ * Next state of one rule given the latest value of its metric, and the
+ * event it triggers (if any). A rule that is armed but cooling down stays
+ * armed, so it fires once the cooldown ends if the condition still holds.
+ */
+export function evaluateRule(
+  rule: AlertRule,
+  value: number | null,
+  now: number,
+  coinName = rule.coinId,
+): { rule: AlertRule; event: AlertEvent | null } {
+  if (value === null) {
+    return { rule: { ...rule, lastEvaluatedAt: now }, event: null };
+  }
+
+  const next: AlertRule = { ...rule, lastValue: value, lastEvaluatedAt: now };
+
+  if (!rule.armed) {
+    if (isReset(rule, value)) next.armed = true;
+    return { rule: next, event: null };
+  }
+
+  const coolingDown =
+    rule.lastTriggeredAt !== null &&
+    now - rule.lastTriggeredAt < rule.cooldownMinutes * 60_000;
+  if (!isMet(rule, value) || coolingDown) return { rule: next, event: null };
+
+  const current = formatMetricValue(
+    rule.metric,
+    value,
+    rule.currency,
+    MESSAGE_LOCALE,
+  );
+
+  const event: AlertEvent = {
+    // A rule triggers at most once per evaluation
+    id: `${rule.id}:${now}`,
+    ruleId: rule.id,
+    triggeredAt: now,
+    metric: rule.metric,
+    coinId: rule.coinId,
+    direction: rule.direction,
+    threshold: rule.threshold,
+    currency: rule.currency,
+    value,
+    message: `${describeRule(rule, coinName, MESSAGE_LOCALE)} (now ${current})`,
+    deliveries: [],
+  };
+
+  return {
+    rule: { ...next, armed: false, lastTriggeredAt: now },
+    event,
+  };
+}
+
+/**
+ * Evaluate every enabled rule against one snapshot. Disabled rules are
+ * returned unchanged.
+ */
+export function evaluateRules(
+  rules: AlertRule[],
+  snapshot: AlertSnapshot,
+  now = Date.now(),
+): AlertEvaluation {
+  const events: AlertEvent[] = [];
+
+  const next = rules.map((rule) => {
+    if (!rule.enabled) return rule;
+
+    const coinName = findCoin(snapshot, rule.coinId)?.name;
+    const result = evaluateRule(
+      rule,
+      readMetric(rule, snapshot),
+      now,
+      coinName,
+    );
+    if (result.event) events.push(result.event);
+    return result.rule;
+  });
+
+  return { rules: next, events };
+}
@@ -0,0 +1,219 @@
+/**
+ * Helpers shared by the JSON API route handlers (`src/app/api`).
+ *
+ * Every response has the same envelope:
+ *  - success: `{ data, metrics?, meta: { stale, fetchedAt, … } }`
+ *  - failure: `{ error: { code, message, … } }` with a matching HTTP status
+ *
+ * Successful responses carry an ETag (hash of the content) and answer a
+ * matching If-None-Match with 304, so pollers only download changes.
+ */
+
+import { createHash } from "node:crypto";
+import { CURRENCIES, type Currency, DEFAULT_CURRENCY } from "@/lib/currency";
+import {
+  InvalidParamError,
+  MarketDataError,
+  RateLimitedError,
+  UpstreamHttpError,
+} from "@/lib/errors";
+import type { Freshness } from "@/lib/http-client";
+import { logError } from "@/lib/logger";
+import type { ChartDays } from "@/types/coingecko";
+
+// Same lifetime as the upstream data cache (see http-client)
+const MAX_AGE_SECONDS = 60;
+
+export type ApiMeta = Freshness & Record<string, unknown>;
+
+export type ApiPayload<T, M = undefined> = {
+  data: T;
+  metrics?: M;
+  meta: ApiMeta;
+};
+
+export type ApiErrorCode =
+  | "invalid_param"
+  | "not_found"
+  | "rate_limited"
+  | "upstream_error"
+  | "internal_error";
+
+export type ApiErrorBody = {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    // Offending query parameter of an "invalid_param" error
+    param?: string;
+  };
+};
+
+// ─────────────────────────────────────────────────────────────
+// Query parameters
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Integer parameter within [min, max]; "fallback" when absent.
+ */
+export function parseIntegerParam(
+  params: URLSearchParams,
+  name: string,
+  { fallback, min, max }: { fallback: number; min: number; max: number },
+): number {
+  const raw = params.get(name);
+  if (raw === null || raw === "") return fallback;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new InvalidParamError(
+      name,
+      `"${name}" must be an integer between ${min} and ${max}`,
+    );
+  }
+  return value;
+}
+
+/**
+ * `?currency=` as a supported quote currency (USD when absent). Unlike the
+ * cookie, an unknown value is rejected rather than silently replaced.
+ */
+export function parseCurrencyParam(params: URLSearchParams): Currency {
+  const raw = params.get("currency")?.toLowerCase();
+  if (!raw) return DEFAULT_CURRENCY;
+
+  const currency = CURRENCIES.find((option) => option.id === raw);
+  if (!currency) {
+    throw new InvalidParamError(
+      "currency",
+      `"currency" must be one of ${CURRENCIES.map((c) => c.id).join(", ")}`,
+    );
+  }
+  return currency.id;
+}
+
+/**
+ * `?days=` as a positive number of days or "max" (30 when absent).
+ */
+export function parseDaysParam(params: URLSearchParams): ChartDays {
+  const raw = params.get("days");
+  if (raw === null || raw === "") return 30;
+  if (raw === "max") return "max";
+
+  const days = Number(raw);
+  if (!Number.isInteger(days) || days < 1) {
+    throw new InvalidParamError(
+      "days",
+      `"days" must be a positive integer or "max"`,
+    );
+  }
+  return days;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Responses
+// ─────────────────────────────────────────────────────────────
+
+function computeEtag(content: string): string {
+  return `"${createHash("sha1").update(content).digest("base64url")}"`;
+}
+
+// If-None-Match may list several tags, weak ones included
+function matchesEtag(header: string | null, etag: string): boolean {
+  if (!header) return false;
+  return header
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .some((tag) => tag === "*" || tag === etag);
+}
+
+/**
+ * 200 with the payload, or 304 when the client already has this version.
+ * Stale payloads (upstream down, last good data served) must be revalidated
+ * on every use, so clients pick up fresh data as soon as it is back.
+ */
+export function jsonResponse<T, M>(
+  request: Request,
+  payload: ApiPayload<T, M>,
+): Response {
+  const body = JSON.stringify(payload);
+  // The fetch time changes on every upstream call even when the numbers
+  // don't, so it is left out of the tag
+  const { fetchedAt, ...meta } = payload.meta;
+  const etag = computeEtag(JSON.stringify({ ...payload, meta }));
+
+  const headers = new Headers({
+    ETag: etag,
+    "Last-Modified": new Date(fetchedAt).toUTCString(),
+    "Cache-Control": payload.meta.stale
+      ? "public, no-cache"
+      : `public, max-age=${MAX_AGE_SECONDS}, stale-while-revalidate=${MAX_AGE_SECONDS}`,
+  });
+
+  if (matchesEtag(request.headers.get("if-none-match"), etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  headers.set("Content-Type", "application/json; charset=utf-8");
+  return new Response(body, { status: 200, headers });
+}
+
+function errorBody(
+  status: number,
+  error: ApiErrorBody["error"],
+  headers?: HeadersInit,
+): Response {
+  return Response.json({ error } satisfies ApiErrorBody, {
+    status,
+    headers: { "Cache-Control": "no-store", ...headers },
+  });
+}
+
+/**
+ * Map a failure to the JSON error envelope. Upstream failures become 502
+ * (404 and 429 are passed through); anything unexpected is a 500 whose
+ * details are logged rather than leaked.
+ */
+export function errorResponse(error: unknown): Response {
+  if (error instanceof InvalidParamError) {
+    return errorBody(400, {
+      code: "invalid_param",
+      message: error.message,
+      param: error.param,
+    });
+  }
+
+  if (error instanceof RateLimitedError) {
+    const retryAfter =
+      error.retryAfterMs === null
+        ? undefined
+        : { "Retry-After": String(Math.ceil(error.retryAfterMs / 1000)) };
+    return errorBody(
+      429,
+      {
+        code: "rate_limited",
+        message: "Market data provider is rate limiting requests",
+      },
+      retryAfter,
+    );
+  }
+
+  if (error instanceof UpstreamHttpError && error.status === 404) {
+    return errorBody(404, {
+      code: "not_found",
+      message: "Unknown coin or resource",
+    });
+  }
+
+  if (error instanceof MarketDataError) {
+    return errorBody(502, {
+      code: "upstream_error",
+      message: "Market data provider is unavailable",
+    });
+  }
+
+  logError("API request", error);
+  return errorBody(500, {
+    code: "internal_error",
+    message: "Unexpected error",
+  });
+}
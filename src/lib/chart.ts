@@ -0,0 +1,182 @@
+/**
+ * Pure geometry helpers for the SVG charts.
+ * No React, no DOM — they only map data to coordinates and ticks.
+ * Labels are formatted with `@/lib/format`.
+ */
+
+import type { OhlcCandle } from "@/types/coingecko";
+
+export type ChartMode = "line" | "area" | "candlestick";
+
+// Selectable via `?chart=` on pages that render a price chart
+export const CHART_MODES: { id: ChartMode; label: string }[] = [
+  { id: "area", label: "Area" },
+  { id: "line", label: "Line" },
+  { id: "candlestick", label: "Candles" },
+];
+
+/**
+ * Resolve a `?chart=` search param, falling back to the area chart.
+ */
+export function parseChartMode(
+  value: string | string[] | undefined,
+): ChartMode {
+  const id = Array.isArray(value) ? value[0] : value;
+  return CHART_MODES.find((mode) => mode.id === id)?.id ?? "area";
+}
+
+/**
+ * One x position on the chart. Line/area series use open = high = low = close.
+ */
+export type ChartPoint = {
+  ts: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+};
+
+/**
+ * Extra line drawn over a chart (e.g. a moving average).
+ */
+export type ChartOverlay = {
+  id: string;
+  label: string;
+  color: string;
+  series: [number, number][];
+};
+
+/**
+ * Sub-panel under the main chart with its own y-axis (e.g. RSI, MACD).
+ * "domain" fixes the y-axis (RSI is always 0–100); "guides" are reference
+ * lines such as the 30/70 RSI thresholds.
+ */
+export type ChartPanel = {
+  id: string;
+  label: string;
+  lines: ChartOverlay[];
+  histogram?: [number, number][];
+  domain?: [number, number];
+  guides?: number[];
+};
+
+export function pointsFromSeries(series: [number, number][]): ChartPoint[] {
+  return series.map(([ts, value]) => ({
+    ts,
+    open: value,
+    high: value,
+    low: value,
+    close: value,
+  }));
+}
+
+export function pointsFromCandles(candles: OhlcCandle[]): ChartPoint[] {
+  return candles.map(([ts, open, high, low, close]) => ({
+    ts,
+    open,
+    high,
+    low,
+    close,
+  }));
+}
+
+/**
+ * Y domain scaled to the data's own min/max (plus padding) rather than
+ * starting at zero, so small relative moves stay visible.
+ */
+export function valueDomain(
+  points: ChartPoint[],
+  paddingRatio = 0.05,
+): [number, number] {
+  if (!points.length) return [0, 1];
+
+  const min = Math.min(...points.map((p) => p.low));
+  const max = Math.max(...points.map((p) => p.high));
+
+  // Flat series: open up a small band around the value
+  if (min === max) {
+    const pad = Math.abs(min) * 0.01 || 1;
+    return [min - pad, max + pad];
+  }
+
+  const pad = (max - min) * paddingRatio;
+  return [min - pad, max + pad];
+}
+
+/**
+ * "Nice" round tick values (1, 2, 5 × 10^n steps) inside [min, max].
+ */
+export function niceTicks(min: number, max: number, count = 5): number[] {
+  const span = max - min;
+  if (span <= 0 || count < 2) return [min];
+
+  const rawStep = span / (count - 1);
+  const magnitude = 10 ** Math.floor(Math.log10(rawStep));
+  const residual = rawStep / magnitude;
+  const step =
+    (residual > 5 ? 10 : residual > 2 ? 5 : residual > 1 ? 2 : 1) * magnitude;
+
+  const ticks: number[] = [];
+  for (let tick = Math.ceil(min / step) * step; tick <= max; tick += step) {
+    // Avoid floating point noise like 0.30000000000000004
+    ticks.push(Number(tick.toPrecision(12)));
+  }
+  return ticks;
+}
+
+/**
+ * Evenly spaced timestamps (by index) to label the x-axis.
+ */
+export function timeTicks(points: ChartPoint[], count = 5): number[] {
+  if (points.length <= count) return points.map((p) => p.ts);
+
+  const step = (points.length - 1) / (count - 1);
+  return Array.from(
+    { length: count },
+    (_, idx) => points[Math.round(idx * step)].ts,
+  );
+}
+
+/**
+ * Index of the point whose timestamp is closest to "ts" (points sorted by ts).
+ */
+export function nearestIndex(points: ChartPoint[], ts: number): number {
+  let lo = 0;
+  let hi = points.length - 1;
+
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (points[mid].ts < ts) lo = mid + 1;
+    else hi = mid;
+  }
+
+  if (lo > 0 && ts - points[lo - 1].ts < points[lo].ts - ts) return lo - 1;
+  return lo;
+}
+
+/**
+ * Linear mapping of a value in [d0, d1] onto [r0, r1].
+ */
+export function scaleLinear(
+  [d0, d1]: [number, number],
+  [r0, r1]: [number, number],
+): (value: number) => number {
+  const ratio = d1 === d0 ? 0 : (r1 - r0) / (d1 - d0);
+  return (value) => r0 + (value - d0) * ratio;
+}
+
+/**
+ * SVG path through the close values of the points.
+ */
+export function linePath(
+  points: ChartPoint[],
+  x: (ts: number) => number,
+  y: (value: number) => number,
+): string {
+  return points
+    .map(
+      (p, idx) =>
+        `${idx === 0 ? "M" : "L"}${x(p.ts).toFixed(2)},${y(p.close).toFixed(2)}`,
+    )
+    .join("");
+}
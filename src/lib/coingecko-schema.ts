@@ -0,0 +1,347 @@
+/**
+ * Runtime validation of CoinGecko payloads.
+ *
+ * Every response is checked at the boundary against the types in
+ * `@/types/coingecko` before it reaches the UI. Nullable upstream fields are
+ * normalized here so widgets never have to guard against them:
+ *  - missing/null amounts (price, market cap, volume) → 0
+ *  - missing BTC/ETH dominance → 0
+ *  - chart points / candles with a null value → dropped
+ *
+ * Anything else that does not match throws a `SchemaMismatchError`.
+ */
+
+import { type Currency, DEFAULT_CURRENCY } from "@/lib/currency";
+import { SchemaMismatchError } from "@/lib/errors";
+import type {
+  CoinDetail,
+  GlobalData,
+  MarketChart,
+  MarketCoin,
+  OhlcCandle,
+  SearchCoin,
+  SparklineCoin,
+} from "@/types/coingecko";
+
+type SeriesPoint = [number, number];
+
+// ─────────────────────────────────────────────────────────────
+// Primitive readers
+// ─────────────────────────────────────────────────────────────
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && !Number.isFinite(value)) return "NaN";
+  return typeof value;
+}
+
+function readObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new SchemaMismatchError(path, "object", describe(value));
+  }
+  return value as Record<string, unknown>;
+}
+
+function readArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new SchemaMismatchError(path, "array", describe(value));
+  }
+  return value;
+}
+
+function readString(value: unknown, path: string): string {
+  if (typeof value !== "string") {
+    throw new SchemaMismatchError(path, "string", describe(value));
+  }
+  return value;
+}
+
+function readNumber(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new SchemaMismatchError(path, "number", describe(value));
+  }
+  return value;
+}
+
+function readNullableNumber(value: unknown, path: string): number | null {
+  if (value === null || value === undefined) return null;
+  return readNumber(value, path);
+}
+
+function readNullableString(value: unknown, path: string): string | null {
+  if (value === null || value === undefined) return null;
+  return readString(value, path);
+}
+
+/**
+ * Read one entry of a `{ [currency]: value }` map, if the map exists.
+ */
+function readCurrencyEntry(
+  value: unknown,
+  path: string,
+  currency: Currency,
+): unknown {
+  if (value === null || value === undefined) return null;
+  return readObject(value, path)[currency];
+}
+
+/**
+ * Read a `{ [key]: number }` map, skipping null entries.
+ */
+function readNumberRecord(
+  value: unknown,
+  path: string,
+): Record<string, number> {
+  const record: Record<string, number> = {};
+
+  for (const [key, entry] of Object.entries(readObject(value, path))) {
+    const parsed = readNullableNumber(entry, `${path}.${key}`);
+    if (parsed !== null) record[key] = parsed;
+  }
+
+  return record;
+}
+
+function readSeries(value: unknown, path: string): SeriesPoint[] {
+  const points: SeriesPoint[] = [];
+
+  readArray(value, path).forEach((entry, idx) => {
+    const pointPath = `${path}[${idx}]`;
+    const [ts, price] = readArray(entry, pointPath);
+    const parsed = readNullableNumber(price, `${pointPath}[1]`);
+
+    if (parsed !== null) {
+      points.push([readNumber(ts, `${pointPath}[0]`), parsed]);
+    }
+  });
+
+  return points;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Endpoint parsers
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Validate a /global response (wrapped in { data: GlobalData }).
+ */
+export function parseGlobalData(json: unknown): GlobalData {
+  const data = readObject(readObject(json, "$").data, "$.data");
+
+  const totalMarketCap = readNumberRecord(
+    data.total_market_cap,
+    "$.data.total_market_cap",
+  );
+  const totalVolume = readNumberRecord(
+    data.total_volume,
+    "$.data.total_volume",
+  );
+
+  return {
+    active_cryptocurrencies: readNumber(
+      data.active_cryptocurrencies,
+      "$.data.active_cryptocurrencies",
+    ),
+    markets: readNumber(data.markets, "$.data.markets"),
+    total_market_cap: {
+      ...totalMarketCap,
+      usd: readNumber(totalMarketCap.usd, "$.data.total_market_cap.usd"),
+    },
+    total_volume: {
+      ...totalVolume,
+      usd: readNumber(totalVolume.usd, "$.data.total_volume.usd"),
+    },
+    market_cap_percentage: {
+      btc: 0,
+      eth: 0,
+      ...readNumberRecord(
+        data.market_cap_percentage,
+        "$.data.market_cap_percentage",
+      ),
+    },
+    market_cap_change_percentage_24h_usd:
+      readNullableNumber(
+        data.market_cap_change_percentage_24h_usd,
+        "$.data.market_cap_change_percentage_24h_usd",
+      ) ?? 0,
+  };
+}
+
+function parseMarketCoin(value: unknown, path: string): MarketCoin {
+  const coin = readObject(value, path);
+
+  return {
+    id: readString(coin.id, `${path}.id`),
+    symbol: readString(coin.symbol, `${path}.symbol`),
+    name: readString(coin.name, `${path}.name`),
+    image: readString(coin.image, `${path}.image`),
+    current_price:
+      readNullableNumber(coin.current_price, `${path}.current_price`) ?? 0,
+    market_cap: readNullableNumber(coin.market_cap, `${path}.market_cap`) ?? 0,
+    total_volume:
+      readNullableNumber(coin.total_volume, `${path}.total_volume`) ?? 0,
+    price_change_percentage_24h: readNullableNumber(
+      coin.price_change_percentage_24h,
+      `${path}.price_change_percentage_24h`,
+    ),
+    price_change_percentage_1h: readNullableNumber(
+      coin.price_change_percentage_1h_in_currency,
+      `${path}.price_change_percentage_1h_in_currency`,
+    ),
+    price_change_percentage_7d: readNullableNumber(
+      coin.price_change_percentage_7d_in_currency,
+      `${path}.price_change_percentage_7d_in_currency`,
+    ),
+    market_cap_rank: readNullableNumber(
+      coin.market_cap_rank,
+      `${path}.market_cap_rank`,
+    ),
+  };
+}
+
+/**
+ * Validate a /coins/markets response.
+ */
+export function parseMarketCoins(json: unknown): MarketCoin[] {
+  return readArray(json, "$").map((coin, idx) =>
+    parseMarketCoin(coin, `$[${idx}]`),
+  );
+}
+
+/**
+ * Validate a /coins/markets response requested with `sparkline=true`.
+ * Null sparkline points are dropped.
+ */
+export function parseSparklineCoins(json: unknown): SparklineCoin[] {
+  return readArray(json, "$").map((value, idx) => {
+    const path = `$[${idx}]`;
+    const sparkline = readObject(
+      readObject(value, path).sparkline_in_7d,
+      `${path}.sparkline_in_7d`,
+    );
+    const prices = readArray(sparkline.price, `${path}.sparkline_in_7d.price`)
+      .map((point, pointIdx) =>
+        readNullableNumber(point, `${path}.sparkline_in_7d.price[${pointIdx}]`),
+      )
+      .filter((point): point is number => point !== null);
+
+    return { ...parseMarketCoin(value, path), sparkline: prices };
+  });
+}
+
+/**
+ * Validate a /coins/{id}/market_chart response.
+ */
+export function parseMarketChart(json: unknown): MarketChart {
+  const chart = readObject(json, "$");
+
+  return {
+    prices: readSeries(chart.prices, "$.prices"),
+    market_caps: readSeries(chart.market_caps, "$.market_caps"),
+    total_volumes: readSeries(chart.total_volumes, "$.total_volumes"),
+  };
+}
+
+/**
+ * Validate a /coins/{id}/ohlc response.
+ */
+export function parseOhlc(json: unknown): OhlcCandle[] {
+  const candles: OhlcCandle[] = [];
+
+  readArray(json, "$").forEach((entry, idx) => {
+    const path = `$[${idx}]`;
+    const [ts, ...values] = readArray(entry, path);
+    const [open, high, low, close] = [0, 1, 2, 3].map((offset) =>
+      readNullableNumber(values[offset], `${path}[${offset + 1}]`),
+    );
+
+    if (open !== null && high !== null && low !== null && close !== null) {
+      candles.push([readNumber(ts, `${path}[0]`), open, high, low, close]);
+    }
+  });
+
+  return candles;
+}
+
+/**
+ * Validate a /coins/{id} response and flatten it to "currency" values.
+ */
+export function parseCoinDetail(
+  json: unknown,
+  currency: Currency = DEFAULT_CURRENCY,
+): CoinDetail {
+  const coin = readObject(json, "$");
+  const image = readObject(coin.image, "$.image");
+  const market = readObject(coin.market_data, "$.market_data");
+
+  const currencyNumber = (key: string) =>
+    readNullableNumber(
+      readCurrencyEntry(market[key], `$.market_data.${key}`, currency),
+      `$.market_data.${key}.${currency}`,
+    );
+  const currencyString = (key: string) =>
+    readNullableString(
+      readCurrencyEntry(market[key], `$.market_data.${key}`, currency),
+      `$.market_data.${key}.${currency}`,
+    );
+
+  return {
+    id: readString(coin.id, "$.id"),
+    symbol: readString(coin.symbol, "$.symbol"),
+    name: readString(coin.name, "$.name"),
+    image: readString(image.large, "$.image.large"),
+    market_cap_rank: readNullableNumber(
+      coin.market_cap_rank,
+      "$.market_cap_rank",
+    ),
+    current_price: currencyNumber("current_price") ?? 0,
+    market_cap: currencyNumber("market_cap") ?? 0,
+    total_volume: currencyNumber("total_volume") ?? 0,
+    price_change_percentage_24h: readNullableNumber(
+      market.price_change_percentage_24h,
+      "$.market_data.price_change_percentage_24h",
+    ),
+    circulating_supply: readNullableNumber(
+      market.circulating_supply,
+      "$.market_data.circulating_supply",
+    ),
+    total_supply: readNullableNumber(
+      market.total_supply,
+      "$.market_data.total_supply",
+    ),
+    max_supply: readNullableNumber(
+      market.max_supply,
+      "$.market_data.max_supply",
+    ),
+    ath: currencyNumber("ath"),
+    ath_change_percentage: currencyNumber("ath_change_percentage"),
+    ath_date: currencyString("ath_date"),
+    atl: currencyNumber("atl"),
+    atl_change_percentage: currencyNumber("atl_change_percentage"),
+    atl_date: currencyString("atl_date"),
+  };
+}
+
+/**
+ * Validate a /search response, keeping only its coins.
+ */
+export function parseSearchCoins(json: unknown): SearchCoin[] {
+  const result = readObject(json, "$");
+
+  return readArray(result.coins, "$.coins").map((value, idx) => {
+    const path = `$.coins[${idx}]`;
+    const coin = readObject(value, path);
+
+    return {
+      id: readString(coin.id, `${path}.id`),
+      name: readString(coin.name, `${path}.name`),
+      symbol: readString(coin.symbol, `${path}.symbol`),
+      market_cap_rank: readNullableNumber(
+        coin.market_cap_rank,
+        `${path}.market_cap_rank`,
+      ),
+      thumb: readString(coin.thumb, `${path}.thumb`),
+    };
+  });
+}
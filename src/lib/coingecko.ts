@@ -1,83 +1,173 @@
 /**
- * CoinGecko data access layer.
+ * CoinGecko market data provider.
  *
- * All API calls are centralized here so that:
- *  - the dashboard pages stay clean
- *  - you can swap API providers in one place later
+ * Talks to the public CoinGecko API (no authentication required).
+ * Pages should not import this directly — go through `@/lib/market-data`.
  */
 
-import type { GlobalData, MarketChart, MarketCoin } from "@/types/coingecko";
+import {
+  parseCoinDetail,
+  parseGlobalData,
+  parseMarketChart,
+  parseMarketCoins,
+  parseOhlc,
+  parseSearchCoins,
+  parseSparklineCoins,
+} from "@/lib/coingecko-schema";
+import type { Currency } from "@/lib/currency";
+import { type Fetched, requestJson } from "@/lib/http-client";
+import type { MarketDataProvider } from "@/lib/market-data";
+import type {
+  ChartDays,
+  CoinDetail,
+  GlobalData,
+  MarketChart,
+  MarketCoin,
+  OhlcCandle,
+  SearchCoin,
+  SparklineCoin,
+} from "@/types/coingecko";
 
 const COINGECKO_API = "https://api.coingecko.com/api/v3";
 
-/**
- * Fetch global crypto market data from CoinGecko.
- */
-export async function getGlobalData(): Promise<GlobalData> {
-  const res = await fetch(`${COINGECKO_API}/global`, {
-    next: { revalidate: 60 },
-  });
+// The search index changes slowly; cache it longer than prices
+const SEARCH_REVALIDATE_SECONDS = 600;
 
-  if (!res.ok) {
-    throw new Error("Failed to fetch global data");
-  }
+export function createCoinGeckoProvider(
+  baseUrl = COINGECKO_API,
+): MarketDataProvider {
+  return {
+    name: "coingecko",
 
-  const json = (await res.json()) as { data: GlobalData };
-  return json.data;
-}
+    /**
+     * Fetch global crypto market data from CoinGecko.
+     */
+    getGlobalData(): Promise<Fetched<GlobalData>> {
+      return requestJson(`${baseUrl}/global`, parseGlobalData);
+    },
 
-/**
- * Fetch top N coins by market cap (USD).
- */
-export async function getTopCoins(limit = 10): Promise<MarketCoin[]> {
-  const params = new URLSearchParams({
-    vs_currency: "usd",
-    order: "market_cap_desc",
-    per_page: String(limit),
-    page: "1",
-    sparkline: "false",
-    price_change_percentage: "24h",
-  });
-
-  const res = await fetch(
-    `${COINGECKO_API}/coins/markets?${params.toString()}`,
-    {
-      next: { revalidate: 60 },
+    /**
+     * Fetch top N coins by market cap, one page at a time.
+     * CoinGecko caps "per_page" at 250.
+     */
+    getTopCoins(
+      limit: number,
+      page: number,
+      currency: Currency,
+    ): Promise<Fetched<MarketCoin[]>> {
+      const params = new URLSearchParams({
+        vs_currency: currency,
+        order: "market_cap_desc",
+        per_page: String(limit),
+        page: String(page),
+        sparkline: "false",
+        price_change_percentage: "1h,24h,7d",
+      });
+
+      return requestJson(
+        `${baseUrl}/coins/markets?${params.toString()}`,
+        parseMarketCoins,
+      );
     },
-  );
 
-  if (!res.ok) {
-    throw new Error("Failed to fetch market coins");
-  }
+    /**
+     * Fetch market data and a 7-day sparkline for specific coins,
+     * ranked by market cap. Unknown ids are silently left out upstream.
+     */
+    getCoinsByIds(
+      coinIds: string[],
+      currency: Currency,
+    ): Promise<Fetched<SparklineCoin[]>> {
+      const params = new URLSearchParams({
+        vs_currency: currency,
+        ids: coinIds.join(","),
+        order: "market_cap_desc",
+        per_page: String(coinIds.length),
+        page: "1",
+        sparkline: "true",
+        price_change_percentage: "1h,24h,7d",
+      });
 
-  const data = (await res.json()) as MarketCoin[];
-  return data;
-}
+      return requestJson(
+        `${baseUrl}/coins/markets?${params.toString()}`,
+        parseSparklineCoins,
+      );
+    },
 
-/**
- * Fetch market chart series for a specific coin (e.g. "bitcoin").
- * "days" defines how many days back to fetch.
- */
-export async function getMarketChart(
-  coinId = "bitcoin",
-  days = 30,
-): Promise<MarketChart> {
-  const params = new URLSearchParams({
-    vs_currency: "usd",
-    days: String(days),
-  });
-
-  const res = await fetch(
-    `${COINGECKO_API}/coins/${coinId}/market_chart?${params.toString()}`,
-    {
-      next: { revalidate: 60 },
+    /**
+     * Fetch market chart series for a specific coin (e.g. "bitcoin").
+     */
+    getMarketChart(
+      coinId: string,
+      days: ChartDays,
+      currency: Currency,
+    ): Promise<Fetched<MarketChart>> {
+      const params = new URLSearchParams({
+        vs_currency: currency,
+        days: String(days),
+      });
+
+      return requestJson(
+        `${baseUrl}/coins/${encodeURIComponent(coinId)}/market_chart?${params.toString()}`,
+        parseMarketChart,
+      );
+    },
+
+    /**
+     * Fetch OHLC candles for a specific coin.
+     */
+    getOhlc(
+      coinId: string,
+      days: ChartDays,
+      currency: Currency,
+    ): Promise<Fetched<OhlcCandle[]>> {
+      const params = new URLSearchParams({
+        vs_currency: currency,
+        days: String(days),
+      });
+
+      return requestJson(
+        `${baseUrl}/coins/${encodeURIComponent(coinId)}/ohlc?${params.toString()}`,
+        parseOhlc,
+      );
     },
-  );
 
-  if (!res.ok) {
-    throw new Error("Failed to fetch market chart");
-  }
+    /**
+     * Fetch a single coin's profile (rank, supply, ATH/ATL) from CoinGecko.
+     * The response carries every currency; "currency" picks one of them.
+     */
+    getCoinDetail(
+      coinId: string,
+      currency: Currency,
+    ): Promise<Fetched<CoinDetail>> {
+      const params = new URLSearchParams({
+        localization: "false",
+        tickers: "false",
+        market_data: "true",
+        community_data: "false",
+        developer_data: "false",
+        sparkline: "false",
+      });
 
-  const data = (await res.json()) as MarketChart;
-  return data;
+      const url = `${baseUrl}/coins/${encodeURIComponent(coinId)}?${params.toString()}`;
+
+      return requestJson(url, (json) => parseCoinDetail(json, currency), {
+        cacheKey: `${url}#${currency}`,
+      });
+    },
+
+    /**
+     * Search coins by name or symbol. CoinGecko also returns exchanges,
+     * categories and NFTs, which are dropped.
+     */
+    searchCoins(query: string): Promise<Fetched<SearchCoin[]>> {
+      const params = new URLSearchParams({ query });
+
+      return requestJson(
+        `${baseUrl}/search?${params.toString()}`,
+        parseSearchCoins,
+        { revalidate: SEARCH_REVALIDATE_SECONDS },
+      );
+    },
+  };
 }
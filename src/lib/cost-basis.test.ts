@@ -0,0 +1,292 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeGains,
+  realizedGainsCsv,
+  summarizeByYear,
+} from "@/lib/cost-basis";
+import type {
+  RealizedGain,
+  Transaction,
+  TransactionType,
+} from "@/types/ledger";
+
+const day = (date: number) => Date.UTC(2024, 0, date);
+
+function tx(
+  type: TransactionType,
+  date: number,
+  quantity: number,
+  price: number,
+  fee = 0,
+): Transaction {
+  return {
+    id: `${type}-${date}`,
+    timestamp: day(date),
+    type,
+    coinId: "bitcoin",
+    quantity,
+    price,
+    fee,
+    source: "test",
+  };
+}
+
+function gain(
+  timestamp: number,
+  values: Partial<RealizedGain> = {},
+): RealizedGain {
+  return {
+    transactionId: `sell-${timestamp}`,
+    timestamp,
+    coinId: "bitcoin",
+    quantity: 1,
+    proceeds: 0,
+    costBasis: 0,
+    gain: 0,
+    acquiredAt: null,
+    shortfall: 0,
+    ...values,
+  };
+}
+
+// Two lots: 1 @ 100 on day 1, 1 @ 200 on day 2
+const LOTS = [tx("buy", 1, 1, 100), tx("buy", 2, 1, 200)];
+
+describe("computeGains (FIFO)", () => {
+  it("takes part of the oldest lot and keeps the rest", () => {
+    const { realized, positions } = computeGains(
+      [...LOTS, tx("sell", 3, 0.5, 300)],
+      "fifo",
+    );
+
+    expect(realized).toEqual([
+      {
+        transactionId: "sell-3",
+        timestamp: day(3),
+        coinId: "bitcoin",
+        quantity: 0.5,
+        proceeds: 150,
+        costBasis: 50,
+        gain: 100,
+        acquiredAt: day(1),
+        shortfall: 0,
+      },
+    ]);
+    expect(positions).toEqual([
+      { coinId: "bitcoin", quantity: 1.5, costBasis: 250 },
+    ]);
+  });
+
+  it("crosses into the next lot once the oldest is used up", () => {
+    const { realized, positions } = computeGains(
+      [...LOTS, tx("sell", 3, 1.5, 300)],
+      "fifo",
+    );
+
+    expect(realized[0]).toMatchObject({
+      proceeds: 450,
+      costBasis: 200,
+      gain: 250,
+      acquiredAt: day(1),
+    });
+    expect(positions).toEqual([
+      { coinId: "bitcoin", quantity: 0.5, costBasis: 100 },
+    ]);
+  });
+
+  it("replays transactions in time order", () => {
+    const { realized } = computeGains(
+      [tx("sell", 3, 1, 300), ...[...LOTS].reverse()],
+      "fifo",
+    );
+
+    expect(realized[0].costBasis).toBe(100);
+  });
+
+  it("adds buy fees to the cost and takes sell fees off the proceeds", () => {
+    const { realized } = computeGains(
+      [tx("buy", 1, 2, 100, 10), tx("sell", 2, 1, 300, 5)],
+      "fifo",
+    );
+
+    expect(realized[0]).toMatchObject({
+      proceeds: 295,
+      costBasis: 105,
+      gain: 190,
+    });
+  });
+
+  it("counts the oversold quantity as a shortfall at zero cost", () => {
+    const { realized, positions } = computeGains(
+      [tx("buy", 1, 1, 100), tx("sell", 2, 3, 300)],
+      "fifo",
+    );
+
+    expect(realized[0]).toMatchObject({
+      quantity: 3,
+      proceeds: 900,
+      costBasis: 100,
+      gain: 800,
+      shortfall: 2,
+    });
+    expect(positions).toEqual([]);
+  });
+
+  it("realizes fees with no proceeds but not transfers out", () => {
+    const { realized, positions } = computeGains(
+      [...LOTS, tx("transfer", 3, -1, 300), tx("fee", 4, 0.5, 300)],
+      "fifo",
+    );
+
+    expect(realized).toHaveLength(1);
+    expect(realized[0]).toMatchObject({
+      transactionId: "fee-4",
+      proceeds: 0,
+      costBasis: 100,
+      gain: -100,
+    });
+    expect(positions).toEqual([
+      { coinId: "bitcoin", quantity: 0.5, costBasis: 100 },
+    ]);
+  });
+});
+
+describe("computeGains (LIFO)", () => {
+  it("takes the newest lot first and crosses into older ones", () => {
+    const { realized, positions } = computeGains(
+      [...LOTS, tx("sell", 3, 1.5, 300)],
+      "lifo",
+    );
+
+    // Earliest lot the disposal touched
+    expect(realized[0]).toMatchObject({
+      costBasis: 250,
+      gain: 200,
+      acquiredAt: day(1),
+    });
+    expect(positions).toEqual([
+      { coinId: "bitcoin", quantity: 0.5, costBasis: 50 },
+    ]);
+  });
+
+  it("only touches the newest lot when it covers the sale", () => {
+    const { realized } = computeGains(
+      [...LOTS, tx("sell", 3, 0.5, 300)],
+      "lifo",
+    );
+
+    expect(realized[0]).toMatchObject({ costBasis: 100, acquiredAt: day(2) });
+  });
+});
+
+describe("computeGains (average)", () => {
+  it("sells at the running average cost of the pool", () => {
+    const { realized } = computeGains(
+      [...LOTS, tx("sell", 3, 0.5, 300)],
+      "average",
+    );
+
+    expect(realized[0]).toMatchObject({
+      costBasis: 75,
+      gain: 75,
+      acquiredAt: null,
+    });
+  });
+
+  it("recomputes the average from what is left after a sell", () => {
+    // 1.5 left @ 150, then 0.5 @ 250 → 2 @ 175
+    const { realized, positions } = computeGains(
+      [
+        ...LOTS,
+        tx("sell", 3, 0.5, 300),
+        tx("buy", 4, 0.5, 250),
+        tx("sell", 5, 1, 300),
+      ],
+      "average",
+    );
+
+    expect(realized[1].costBasis).toBeCloseTo(175);
+    expect(positions).toHaveLength(1);
+    expect(positions[0].quantity).toBeCloseTo(1);
+    expect(positions[0].costBasis).toBeCloseTo(175);
+  });
+
+  it("counts the oversold quantity as a shortfall at zero cost", () => {
+    const { realized, positions } = computeGains(
+      [...LOTS, tx("sell", 3, 3, 300)],
+      "average",
+    );
+
+    expect(realized[0]).toMatchObject({
+      costBasis: 300,
+      gain: 600,
+      shortfall: 1,
+    });
+    expect(positions).toEqual([]);
+  });
+});
+
+describe("summarizeByYear", () => {
+  it("groups disposals by UTC year, newest first", () => {
+    const summary = summarizeByYear([
+      gain(Date.UTC(2023, 5, 1), { proceeds: 100, costBasis: 40, gain: 60 }),
+      gain(Date.UTC(2024, 0, 1), { proceeds: 50, costBasis: 70, gain: -20 }),
+      gain(Date.UTC(2023, 11, 31, 23, 59), {
+        proceeds: 10,
+        costBasis: 5,
+        gain: 5,
+      }),
+    ]);
+
+    expect(summary).toEqual([
+      { year: 2024, disposals: 1, proceeds: 50, costBasis: 70, gain: -20 },
+      { year: 2023, disposals: 2, proceeds: 110, costBasis: 45, gain: 65 },
+    ]);
+  });
+
+  it("is empty without disposals", () => {
+    expect(summarizeByYear([])).toEqual([]);
+  });
+});
+
+describe("realizedGainsCsv", () => {
+  it("writes the disposals of the given year only", () => {
+    const csv = realizedGainsCsv(
+      [
+        gain(Date.UTC(2024, 2, 5), {
+          quantity: 0.5,
+          proceeds: 150,
+          costBasis: 50,
+          gain: 100,
+          acquiredAt: Date.UTC(2023, 0, 1),
+        }),
+        gain(Date.UTC(2023, 2, 5), { proceeds: 1 }),
+      ],
+      2024,
+    );
+
+    expect(csv).toBe(
+      [
+        "date_disposed,date_acquired,coin,quantity,proceeds_usd,cost_basis_usd,gain_usd,unmatched_quantity",
+        "2024-03-05,2023-01-01,bitcoin,0.5,150.00,50.00,100.00,0",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("quotes cells with commas, quotes or newlines", () => {
+    const csv = realizedGainsCsv(
+      [
+        gain(Date.UTC(2024, 0, 1), { coinId: 'odd,"coin"' }),
+        gain(Date.UTC(2024, 0, 2), { coinId: "two\nlines" }),
+      ],
+      2024,
+    );
+
+    const rows = csv.split("\n");
+    expect(rows[1]).toBe(
+      '2024-01-01,various,"odd,""coin""",1,0.00,0.00,0.00,0',
+    );
+    expect(csv).toContain('2024-01-02,various,"two\nlines",1,');
+  });
+});
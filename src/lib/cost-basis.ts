@@ -0,0 +1,305 @@
+/**
+ * Cost-basis engine for the transaction ledger.
+ *
+ * Pure functions, no API calls: transactions must already carry a USD price
+ * (see `priceTransactions`). The ledger is replayed in time order per coin:
+ *  - buy           → new lot, cost = quantity × price + fee
+ *  - transfer in   → new lot valued at the price on arrival
+ *  - sell          → disposal, proceeds = quantity × price − fee
+ *  - fee           → disposal with no proceeds (the coins are spent)
+ *  - transfer out  → lots leave the ledger without realizing a gain
+ *
+ * Disposals consume lots oldest first (FIFO), newest first (LIFO) or at the
+ * running average cost of the pool (average).
+ */
+
+import type { Series } from "@/lib/indicators";
+import type {
+  CostBasisMethod,
+  GainsResult,
+  LedgerPosition,
+  RealizedGain,
+  Transaction,
+} from "@/types/ledger";
+
+export const COST_BASIS_METHODS: { id: CostBasisMethod; label: string }[] = [
+  { id: "fifo", label: "FIFO" },
+  { id: "lifo", label: "LIFO" },
+  { id: "average", label: "Average" },
+];
+
+/**
+ * Resolve a `?method=` search param, falling back to FIFO.
+ */
+export function parseCostBasisMethod(
+  value: string | string[] | undefined,
+): CostBasisMethod {
+  const id = Array.isArray(value) ? value[0] : value;
+  return COST_BASIS_METHODS.find((method) => method.id === id)?.id ?? "fifo";
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Market price at "ts": the latest point at or before it. A fill slightly
+ * older than the history (up to a day) uses the first point; anything older
+ * has no price.
+ */
+export function priceAt(prices: Series, ts: number): number | null {
+  if (!prices.length || ts < prices[0][0] - DAY_MS) return null;
+
+  let lo = 0;
+  let hi = prices.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (prices[mid][0] <= ts) lo = mid;
+    else hi = mid - 1;
+  }
+
+  return prices[lo][1];
+}
+
+/**
+ * Fill in missing fill prices from market history. Transactions that still
+ * have no price are returned in "unpriced" and valued at 0.
+ */
+export function priceTransactions(
+  transactions: Transaction[],
+  pricesByCoin: Record<string, Series>,
+): { transactions: Transaction[]; unpriced: Transaction[] } {
+  const unpriced: Transaction[] = [];
+
+  const priced = transactions.map((tx) => {
+    if (tx.price !== null) return tx;
+
+    const price = priceAt(pricesByCoin[tx.coinId] ?? [], tx.timestamp);
+    if (price === null) unpriced.push(tx);
+    return { ...tx, price: price ?? 0 };
+  });
+
+  return { transactions: priced, unpriced };
+}
+
+type Lot = {
+  quantity: number;
+  // Cost per unit, fee included
+  unitCost: number;
+  acquiredAt: number;
+};
+
+// Tolerance for float dust when a lot is fully consumed
+const EPSILON = 1e-12;
+
+/**
+ * Take "quantity" out of the lots with the given method. Mutates "lots".
+ */
+function consumeLots(
+  lots: Lot[],
+  quantity: number,
+  method: CostBasisMethod,
+): { costBasis: number; acquiredAt: number | null; shortfall: number } {
+  if (method === "average") {
+    // A single pooled lot at the running average cost
+    const pool = lots[0];
+    const taken = Math.min(quantity, pool?.quantity ?? 0);
+    if (pool) pool.quantity -= taken;
+
+    return {
+      costBasis: taken * (pool?.unitCost ?? 0),
+      acquiredAt: null,
+      shortfall: quantity - taken,
+    };
+  }
+
+  let remaining = quantity;
+  let costBasis = 0;
+  let acquiredAt: number | null = null;
+
+  while (remaining > EPSILON && lots.length) {
+    const lot = method === "fifo" ? lots[0] : lots[lots.length - 1];
+    const taken = Math.min(remaining, lot.quantity);
+
+    costBasis += taken * lot.unitCost;
+    acquiredAt =
+      acquiredAt === null
+        ? lot.acquiredAt
+        : Math.min(acquiredAt, lot.acquiredAt);
+    lot.quantity -= taken;
+    remaining -= taken;
+
+    if (lot.quantity <= EPSILON) {
+      if (method === "fifo") lots.shift();
+      else lots.pop();
+    }
+  }
+
+  return {
+    costBasis,
+    acquiredAt,
+    shortfall: remaining > EPSILON ? remaining : 0,
+  };
+}
+
+function addLot(lots: Lot[], lot: Lot, method: CostBasisMethod) {
+  if (method !== "average" || !lots.length) {
+    lots.push(lot);
+    return;
+  }
+
+  const pool = lots[0];
+  const quantity = pool.quantity + lot.quantity;
+  pool.unitCost = quantity
+    ? (pool.quantity * pool.unitCost + lot.quantity * lot.unitCost) / quantity
+    : 0;
+  pool.quantity = quantity;
+}
+
+/**
+ * Replay priced transactions and return realized gains per disposal plus
+ * the remaining position (quantity + cost basis) of each coin.
+ */
+export function computeGains(
+  transactions: Transaction[],
+  method: CostBasisMethod,
+): GainsResult {
+  const sorted = [...transactions].sort((a, b) => a.timestamp - b.timestamp);
+  const lotsByCoin = new Map<string, Lot[]>();
+  const realized: RealizedGain[] = [];
+
+  for (const tx of sorted) {
+    let lots = lotsByCoin.get(tx.coinId);
+    if (!lots) {
+      lots = [];
+      lotsByCoin.set(tx.coinId, lots);
+    }
+
+    const price = tx.price ?? 0;
+    const quantity = Math.abs(tx.quantity);
+    if (!quantity) continue;
+
+    const isAcquisition =
+      tx.type === "buy" || (tx.type === "transfer" && tx.quantity > 0);
+
+    if (isAcquisition) {
+      const cost = quantity * price + (tx.type === "buy" ? tx.fee : 0);
+      addLot(
+        lots,
+        { quantity, unitCost: cost / quantity, acquiredAt: tx.timestamp },
+        method,
+      );
+      continue;
+    }
+
+    const consumed = consumeLots(lots, quantity, method);
+    if (tx.type === "transfer") continue;
+
+    const proceeds = tx.type === "sell" ? quantity * price - tx.fee : 0;
+    realized.push({
+      transactionId: tx.id,
+      timestamp: tx.timestamp,
+      coinId: tx.coinId,
+      quantity,
+      proceeds,
+      costBasis: consumed.costBasis,
+      gain: proceeds - consumed.costBasis,
+      acquiredAt: consumed.acquiredAt,
+      shortfall: consumed.shortfall,
+    });
+  }
+
+  const positions: LedgerPosition[] = [];
+  for (const [coinId, lots] of lotsByCoin) {
+    const quantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    if (quantity <= EPSILON) continue;
+
+    positions.push({
+      coinId,
+      quantity,
+      costBasis: lots.reduce(
+        (sum, lot) => sum + lot.quantity * lot.unitCost,
+        0,
+      ),
+    });
+  }
+
+  return { realized, positions };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Realized gains report
+// ─────────────────────────────────────────────────────────────
+
+export type YearlyGains = {
+  year: number;
+  disposals: number;
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+};
+
+/**
+ * Realized gains grouped by calendar year (UTC) of the disposal, newest first.
+ */
+export function summarizeByYear(realized: RealizedGain[]): YearlyGains[] {
+  const byYear = new Map<number, YearlyGains>();
+
+  for (const row of realized) {
+    const year = new Date(row.timestamp).getUTCFullYear();
+    const summary = byYear.get(year) ?? {
+      year,
+      disposals: 0,
+      proceeds: 0,
+      costBasis: 0,
+      gain: 0,
+    };
+
+    summary.disposals += 1;
+    summary.proceeds += row.proceeds;
+    summary.costBasis += row.costBasis;
+    summary.gain += row.gain;
+    byYear.set(year, summary);
+  }
+
+  return [...byYear.values()].sort((a, b) => b.year - a.year);
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+const isoDate = (ts: number) => new Date(ts).toISOString().slice(0, 10);
+
+/**
+ * Realized gains of one year as CSV (one row per disposal, UTC dates).
+ */
+export function realizedGainsCsv(
+  realized: RealizedGain[],
+  year: number,
+): string {
+  const header = [
+    "date_disposed",
+    "date_acquired",
+    "coin",
+    "quantity",
+    "proceeds_usd",
+    "cost_basis_usd",
+    "gain_usd",
+    "unmatched_quantity",
+  ];
+
+  const rows = realized
+    .filter((row) => new Date(row.timestamp).getUTCFullYear() === year)
+    .map((row) => [
+      isoDate(row.timestamp),
+      row.acquiredAt === null ? "various" : isoDate(row.acquiredAt),
+      row.coinId,
+      row.quantity,
+      row.proceeds.toFixed(2),
+      row.costBasis.toFixed(2),
+      row.gain.toFixed(2),
+      row.shortfall,
+    ]);
+
+  return `${[header, ...rows].map((row) => row.map(csvCell).join(",")).join("\n")}\n`;
+}
@@ -0,0 +1,45 @@
+/**
+ * Quote currencies the dashboard can be denominated in.
+ *
+ * The ids are CoinGecko `vs_currency` values, so the same id selects the
+ * upstream data, keys `GlobalData.total_market_cap` and drives formatting.
+ * Safe to import from client components.
+ */
+
+export type Currency = "usd" | "eur" | "gbp" | "jpy" | "btc" | "eth";
+
+export type CurrencyOption = {
+  id: Currency;
+  label: string;
+  symbol: string;
+  // BTC/ETH views: no ISO code, more decimals
+  crypto: boolean;
+};
+
+export const CURRENCIES: CurrencyOption[] = [
+  { id: "usd", label: "USD", symbol: "$", crypto: false },
+  { id: "eur", label: "EUR", symbol: "€", crypto: false },
+  { id: "gbp", label: "GBP", symbol: "£", crypto: false },
+  { id: "jpy", label: "JPY", symbol: "¥", crypto: false },
+  { id: "btc", label: "BTC", symbol: "₿", crypto: true },
+  { id: "eth", label: "ETH", symbol: "Ξ", crypto: true },
+];
+
+export const DEFAULT_CURRENCY: Currency = "usd";
+
+// Cookie holding the selected currency (see the currency picker)
+export const CURRENCY_COOKIE = "currency";
+
+/**
+ * Resolve a cookie / search param value, falling back to USD.
+ */
+export function parseCurrency(value: string | string[] | undefined): Currency {
+  const id = (Array.isArray(value) ? value[0] : value)?.toLowerCase();
+  return (
+    CURRENCIES.find((currency) => currency.id === id)?.id ?? DEFAULT_CURRENCY
+  );
+}
+
+export function getCurrencyOption(currency: Currency): CurrencyOption {
+  return CURRENCIES.find((option) => option.id === currency) ?? CURRENCIES[0];
+}
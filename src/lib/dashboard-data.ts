@@ -0,0 +1,180 @@
+/**
+ * Data loading of the dashboard widgets: each widget fetches, in parallel,
+ * only the data sets it needs (see `DashboardDataNeed` in lib/widgets).
+ * Data sets that aren't needed are null / empty.
+ *
+ * Widgets load independently (each behind its own Suspense boundary), so
+ * the fetchers are memoized per request: widgets sharing a data set share
+ * one call. A data set that can't be loaded fails the widgets needing it
+ * with a `DashboardDataError` naming the call, not the whole page.
+ *
+ * Each fetched result carries its freshness: if upstream is down the
+ * widgets still render the last good payload with a "data as of" badge.
+ * Server-only.
+ */
+
+import { cache } from "react";
+
+import type { ChartMode } from "@/lib/chart";
+import type { Currency } from "@/lib/currency";
+import { DashboardDataError } from "@/lib/errors";
+import type { ChangeWindow } from "@/lib/heatmap";
+import type { Fetched } from "@/lib/http-client";
+import {
+  getCoinsByIds,
+  getGlobalData,
+  getMarketChart,
+  getOhlc,
+  getTopCoins,
+} from "@/lib/market-data";
+import { listSnapshots } from "@/lib/snapshot-store";
+import type { TimeRange } from "@/lib/time-range";
+import { listWatchlist } from "@/lib/watchlist-store";
+import type { DashboardDataNeed } from "@/lib/widgets";
+import type {
+  ChartDays,
+  GlobalData,
+  MarketChart,
+  MarketCoin,
+  OhlcCandle,
+  SparklineCoin,
+} from "@/types/coingecko";
+import type { MarketSnapshot } from "@/types/snapshots";
+
+// History length behind the risk metrics (daily returns)
+export const RISK_WINDOW_DAYS = 90;
+
+// Coins per page of the top coins table; widgets use the first 10
+export const TOP_COINS_PAGE_SIZE = 25;
+export const TOP_COINS_WIDGET_COUNT = 10;
+
+// What the URL selects (?coin=…&range=…&chart=…&page=…&heatmap=…) + the
+// currency
+export type DashboardParams = {
+  coinId: string;
+  range: TimeRange;
+  chartMode: ChartMode;
+  page: number;
+  heatmapWindow: ChangeWindow;
+  currency: Currency;
+};
+
+export type DashboardData = {
+  global: Fetched<GlobalData> | null;
+  // First page of the ranking (the widgets' top coins)
+  topCoins: Fetched<MarketCoin[]> | null;
+  // Page of the ranking shown in the coins table
+  tablePage: Fetched<MarketCoin[]> | null;
+  chart: Fetched<MarketChart> | null;
+  // Only in candlestick mode
+  ohlc: Fetched<OhlcCandle[]> | null;
+  watchlist: string[];
+  watchlistCoins: Fetched<SparklineCoin[]> | null;
+  // Top coins whose history could be fetched (a failure leaves the coin
+  // out rather than failing the whole dashboard)
+  riskHistories: { coin: MarketCoin; res: Fetched<MarketChart> }[];
+  snapshots: MarketSnapshot[];
+};
+
+function when<T>(needed: boolean, load: () => Promise<T>): Promise<T | null> {
+  return needed ? load() : Promise.resolve(null);
+}
+
+// Failures are reported with the call that failed
+async function track<T>(source: string, load: () => Promise<T>): Promise<T> {
+  try {
+    return await load();
+  } catch (error) {
+    throw new DashboardDataError(source, error);
+  }
+}
+
+// ─── Fetchers shared by the widgets of one request ───
+
+const fetchWatchlist = cache(() => track("the watchlist", listWatchlist));
+
+const fetchSnapshots = cache(() =>
+  track("the market snapshots", listSnapshots),
+);
+
+const fetchGlobal = cache(() => track("global market data", getGlobalData));
+
+const fetchTopCoins = cache((page: number, currency: Currency) =>
+  track(`page ${page} of the top coins`, () =>
+    getTopCoins(TOP_COINS_PAGE_SIZE, page, currency),
+  ),
+);
+
+const fetchChart = cache(
+  (coinId: string, days: ChartDays, currency: Currency) =>
+    track(`the ${coinId} price history`, () =>
+      getMarketChart(coinId, days, currency),
+    ),
+);
+
+const fetchOhlc = cache((coinId: string, days: ChartDays, currency: Currency) =>
+  track(`the ${coinId} candles`, () => getOhlc(coinId, days, currency)),
+);
+
+const fetchWatchlistCoins = cache((ids: string[], currency: Currency) =>
+  track("the watchlist quotes", () => getCoinsByIds(ids, currency)),
+);
+
+/**
+ * The data sets in "needs", loaded in parallel.
+ */
+export async function loadDashboardData(
+  needs: Set<DashboardDataNeed>,
+  { coinId, range, chartMode, page, currency }: DashboardParams,
+): Promise<DashboardData> {
+  const needsWatchlist = needs.has("watchlist") || needs.has("watchlistCoins");
+  const needsTopCoins = needs.has("topCoins") || needs.has("riskHistories");
+
+  const [watchlist, snapshots] = await Promise.all([
+    when(needsWatchlist, fetchWatchlist),
+    when(needs.has("snapshots"), fetchSnapshots),
+  ]);
+
+  const [global, topCoins, otherPage, chart, ohlc, watchlistCoins] =
+    await Promise.all([
+      when(needs.has("global"), fetchGlobal),
+      when(needsTopCoins, () => fetchTopCoins(1, currency)),
+      when(needs.has("topCoins") && page > 1, () =>
+        fetchTopCoins(page, currency),
+      ),
+      when(needs.has("chart") || needs.has("ohlc"), () =>
+        fetchChart(coinId, range.days, currency),
+      ),
+      when(needs.has("ohlc") && chartMode === "candlestick", () =>
+        fetchOhlc(coinId, range.days, currency),
+      ),
+      when(needs.has("watchlistCoins"), () =>
+        fetchWatchlistCoins(watchlist ?? [], currency),
+      ),
+    ]);
+
+  // Price history of every top coin for the risk widget
+  const riskCoins =
+    needs.has("riskHistories") && topCoins
+      ? topCoins.data.slice(0, TOP_COINS_WIDGET_COUNT)
+      : [];
+  const historyResults = await Promise.allSettled(
+    riskCoins.map((coin) => fetchChart(coin.id, RISK_WINDOW_DAYS, currency)),
+  );
+  const riskHistories = riskCoins.flatMap((coin, idx) => {
+    const result = historyResults[idx];
+    return result.status === "fulfilled" ? [{ coin, res: result.value }] : [];
+  });
+
+  return {
+    global,
+    topCoins,
+    tablePage: otherPage ?? topCoins,
+    chart,
+    ohlc,
+    watchlist: watchlist ?? [],
+    watchlistCoins,
+    riskHistories,
+    snapshots: snapshots ?? [],
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Typed errors raised by the market data layer, the local data store, the
+ * dashboard and the JSON API routes.
+ *
+ * Callers can branch on the class (e.g. show a "rate limited" hint) instead
+ * of string-matching generic `Error` messages.
+ */
+
+/**
+ * Base class for every market data failure.
+ */
+export class MarketDataError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "MarketDataError";
+  }
+}
+
+/**
+ * Upstream answered with a non-2xx HTTP status.
+ */
+export class UpstreamHttpError extends MarketDataError {
+  readonly status: number;
+  readonly url: string;
+
+  constructor(status: number, url: string, options?: ErrorOptions) {
+    super(`Upstream request failed with HTTP ${status}: ${url}`, options);
+    this.name = "UpstreamHttpError";
+    this.status = status;
+    this.url = url;
+  }
+}
+
+/**
+ * Upstream answered 429 Too Many Requests.
+ * "retryAfterMs" is taken from the Retry-After header when present.
+ */
+export class RateLimitedError extends UpstreamHttpError {
+  readonly retryAfterMs: number | null;
+
+  constructor(url: string, retryAfterMs: number | null = null) {
+    super(429, url);
+    this.name = "RateLimitedError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Upstream didn't answer (headers and body) within "timeoutMs".
+ */
+export class UpstreamTimeoutError extends MarketDataError {
+  readonly url: string;
+  readonly timeoutMs: number;
+
+  constructor(url: string, timeoutMs: number, options?: ErrorOptions) {
+    super(`Upstream request timed out after ${timeoutMs} ms: ${url}`, options);
+    this.name = "UpstreamTimeoutError";
+    this.url = url;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Upstream payload does not match the shape declared in `@/types/coingecko`.
+ * "path" points at the offending value, e.g. `$.data.markets` or `$[3].id`.
+ */
+export class SchemaMismatchError extends MarketDataError {
+  readonly path: string;
+  readonly expected: string;
+  readonly received: string;
+
+  constructor(path: string, expected: string, received: string) {
+    super(
+      `Unexpected market data payload at ${path}: expected ${expected}, received ${received}`,
+    );
+    this.name = "SchemaMismatchError";
+    this.path = path;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────
+// Local data store
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * A file of the local data store could not be read, parsed or written.
+ */
+export class StoreError extends Error {
+  readonly file: string;
+
+  constructor(message: string, file: string, options?: ErrorOptions) {
+    super(`${message}: ${file}`, options);
+    this.name = "StoreError";
+    this.file = file;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────
+// Dashboard
+// ─────────────────────────────────────────────────────────────
+
+// Marks the digest of a DashboardDataError (see failedDashboardData)
+const DASHBOARD_DATA_DIGEST = "dashboard-data:";
+
+// Short, safe to show reason of a data failure
+function describeFailure(error: unknown): string {
+  if (error instanceof RateLimitedError) return "rate limited (HTTP 429)";
+  if (error instanceof UpstreamHttpError) return `HTTP ${error.status}`;
+  if (error instanceof UpstreamTimeoutError) return "timed out";
+  if (error instanceof SchemaMismatchError) return "unexpected payload";
+  if (error instanceof MarketDataError) return "market data unavailable";
+  if (error instanceof StoreError) return "local data store unavailable";
+  return "request failed";
+}
+
+/**
+ * A data set of the dashboard could not be loaded. "source" names the call
+ * that failed ("global market data", "bitcoin price history"…).
+ *
+ * Next.js strips error messages from server components in production
+ * builds but keeps a `digest` that is already set, so the digest carries
+ * the description to the error boundaries.
+ */
+export class DashboardDataError extends Error {
+  readonly source: string;
+  readonly digest: string;
+
+  constructor(source: string, cause: unknown) {
+    super(`Could not load ${source}: ${describeFailure(cause)}`, { cause });
+    this.name = "DashboardDataError";
+    this.source = source;
+    this.digest = `${DASHBOARD_DATA_DIGEST}${this.message}`;
+  }
+}
+
+/**
+ * Description of the failed call behind an error caught by an error
+ * boundary, or null when it isn't a dashboard data failure.
+ */
+export function failedDashboardData(error: { digest?: string }): string | null {
+  return error.digest?.startsWith(DASHBOARD_DATA_DIGEST)
+    ? error.digest.slice(DASHBOARD_DATA_DIGEST.length)
+    : null;
+}
+
+// ─────────────────────────────────────────────────────────────
+// JSON API
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * A query parameter of an API request is missing or out of range.
+ */
+export class InvalidParamError extends Error {
+  readonly param: string;
+
+  constructor(param: string, message: string) {
+    super(message);
+    this.name = "InvalidParamError";
+    this.param = param;
+  }
+}
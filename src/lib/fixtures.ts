@@ -0,0 +1,281 @@
+/**
+ * Fixture-backed market data provider.
+ *
+ * Serves recorded CoinGecko responses from disk so the dashboard can run
+ * offline with predictable data. Enable with MARKET_DATA_PROVIDER=fixture.
+ * Recordings go through the same validation as live responses.
+ *
+ * Expected layout (relative to the fixtures directory):
+ *  - global.json               → raw /global response
+ *  - markets.json              → raw /coins/markets response (ranked)
+ *  - market_chart/{coinId}.json → raw /coins/{id}/market_chart response
+ *  - ohlc/{coinId}.json         → raw /coins/{id}/ohlc response
+ *  - coins/{coinId}.json        → raw /coins/{id} response
+ *
+ * There is no /search recording: searches match the coins of markets.json.
+ * Sparklines are the last 7 days of market_chart/{coinId}.json (empty when
+ * the coin has no chart recording).
+ *
+ * Recordings are in USD. Other currencies are converted at one rate per
+ * currency: the ratio of the global market cap in that currency to the USD
+ * one in global.json (so history is scaled, not re-priced per day).
+ */
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  parseCoinDetail,
+  parseGlobalData,
+  parseMarketChart,
+  parseMarketCoins,
+  parseOhlc,
+} from "@/lib/coingecko-schema";
+import type { Currency } from "@/lib/currency";
+import { MarketDataError, UpstreamHttpError } from "@/lib/errors";
+import type { Fetched } from "@/lib/http-client";
+import type { MarketDataProvider } from "@/lib/market-data";
+import type {
+  ChartDays,
+  CoinDetail,
+  GlobalData,
+  MarketChart,
+  MarketCoin,
+  OhlcCandle,
+  SearchCoin,
+  SparklineCoin,
+} from "@/types/coingecko";
+
+const DEFAULT_FIXTURES_DIR = path.join(process.cwd(), "fixtures", "coingecko");
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SPARKLINE_DAYS = 7;
+
+/**
+ * A missing recording behaves like an unknown id upstream (HTTP 404).
+ */
+async function readFixture(dir: string, file: string): Promise<unknown> {
+  const fullPath = path.join(dir, file);
+
+  try {
+    return JSON.parse(await readFile(fullPath, "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new UpstreamHttpError(404, fullPath, { cause: error });
+    }
+
+    throw new MarketDataError(
+      `Failed to read market data fixture ${fullPath}`,
+      {
+        cause: error,
+      },
+    );
+  }
+}
+
+/**
+ * Keep only the points of a recorded series that fall in the last "days"
+ * days, measured from the most recent recorded point (not from "now").
+ */
+function sliceSeries<T extends [number, ...number[]]>(
+  series: T[],
+  days: ChartDays,
+): T[] {
+  if (!series.length || days === "max") return series;
+
+  const from = series[series.length - 1][0] - days * DAY_MS;
+  return series.filter(([ts]) => ts >= from);
+}
+
+/**
+ * USD → "currency" rate implied by the recorded global market cap.
+ */
+async function exchangeRate(dir: string, currency: Currency): Promise<number> {
+  if (currency === "usd") return 1;
+
+  const { total_market_cap } = parseGlobalData(
+    await readFixture(dir, "global.json"),
+  );
+  const converted = total_market_cap[currency];
+  if (!converted || !total_market_cap.usd) {
+    throw new MarketDataError(
+      `No "${currency}" market cap in the global.json fixture to convert from USD`,
+    );
+  }
+
+  return converted / total_market_cap.usd;
+}
+
+function convertSeries(series: [number, number][], rate: number) {
+  return series.map(([ts, value]): [number, number] => [ts, value * rate]);
+}
+
+// Recordings never go stale — they are served as if just fetched.
+function fresh<T>(data: T): Fetched<T> {
+  return { data, stale: false, fetchedAt: Date.now() };
+}
+
+export function createFixtureProvider(
+  dir = DEFAULT_FIXTURES_DIR,
+): MarketDataProvider {
+  return {
+    name: "fixture",
+
+    async getGlobalData(): Promise<Fetched<GlobalData>> {
+      return fresh(parseGlobalData(await readFixture(dir, "global.json")));
+    },
+
+    async getTopCoins(
+      limit: number,
+      page: number,
+      currency: Currency,
+    ): Promise<Fetched<MarketCoin[]>> {
+      const coins = parseMarketCoins(await readFixture(dir, "markets.json"));
+      const rate = await exchangeRate(dir, currency);
+
+      return fresh(
+        coins.slice((page - 1) * limit, page * limit).map((coin) => ({
+          ...coin,
+          current_price: coin.current_price * rate,
+          market_cap: coin.market_cap * rate,
+          total_volume: coin.total_volume * rate,
+        })),
+      );
+    },
+
+    async getCoinsByIds(
+      coinIds: string[],
+      currency: Currency,
+    ): Promise<Fetched<SparklineCoin[]>> {
+      const coins = parseMarketCoins(await readFixture(dir, "markets.json"));
+      const rate = await exchangeRate(dir, currency);
+
+      const sparkline = async (coinId: string): Promise<number[]> => {
+        try {
+          const chart = parseMarketChart(
+            await readFixture(
+              dir,
+              path.join("market_chart", `${path.basename(coinId)}.json`),
+            ),
+          );
+          return sliceSeries(chart.prices, SPARKLINE_DAYS).map(
+            ([, price]) => price * rate,
+          );
+        } catch (error) {
+          if (error instanceof UpstreamHttpError && error.status === 404) {
+            return [];
+          }
+          throw error;
+        }
+      };
+
+      return fresh(
+        await Promise.all(
+          coins
+            .filter((coin) => coinIds.includes(coin.id))
+            .map(async (coin) => ({
+              ...coin,
+              current_price: coin.current_price * rate,
+              market_cap: coin.market_cap * rate,
+              total_volume: coin.total_volume * rate,
+              sparkline: await sparkline(coin.id),
+            })),
+        ),
+      );
+    },
+
+    async getMarketChart(
+      coinId: string,
+      days: ChartDays,
+      currency: Currency,
+    ): Promise<Fetched<MarketChart>> {
+      const chart = parseMarketChart(
+        await readFixture(
+          dir,
+          path.join("market_chart", `${path.basename(coinId)}.json`),
+        ),
+      );
+
+      const rate = await exchangeRate(dir, currency);
+
+      return fresh({
+        prices: convertSeries(sliceSeries(chart.prices, days), rate),
+        market_caps: convertSeries(sliceSeries(chart.market_caps, days), rate),
+        total_volumes: convertSeries(
+          sliceSeries(chart.total_volumes, days),
+          rate,
+        ),
+      });
+    },
+
+    async getOhlc(
+      coinId: string,
+      days: ChartDays,
+      currency: Currency,
+    ): Promise<Fetched<OhlcCandle[]>> {
+      const candles = parseOhlc(
+        await readFixture(
+          dir,
+          path.join("ohlc", `${path.basename(coinId)}.json`),
+        ),
+      );
+
+      const rate = await exchangeRate(dir, currency);
+
+      return fresh(
+        sliceSeries(candles, days).map(
+          ([ts, open, high, low, close]): OhlcCandle => [
+            ts,
+            open * rate,
+            high * rate,
+            low * rate,
+            close * rate,
+          ],
+        ),
+      );
+    },
+
+    async getCoinDetail(
+      coinId: string,
+      currency: Currency,
+    ): Promise<Fetched<CoinDetail>> {
+      const detail = parseCoinDetail(
+        await readFixture(
+          dir,
+          path.join("coins", `${path.basename(coinId)}.json`),
+        ),
+      );
+      const rate = await exchangeRate(dir, currency);
+      const convert = (value: number | null) =>
+        value === null ? null : value * rate;
+
+      return fresh({
+        ...detail,
+        current_price: detail.current_price * rate,
+        market_cap: detail.market_cap * rate,
+        total_volume: detail.total_volume * rate,
+        ath: convert(detail.ath),
+        atl: convert(detail.atl),
+      });
+    },
+
+    async searchCoins(query: string): Promise<Fetched<SearchCoin[]>> {
+      const coins = parseMarketCoins(await readFixture(dir, "markets.json"));
+      const needle = query.toLowerCase();
+
+      return fresh(
+        coins
+          .filter((coin) =>
+            [coin.id, coin.name, coin.symbol].some((value) =>
+              value.toLowerCase().includes(needle),
+            ),
+          )
+          .map((coin) => ({
+            id: coin.id,
+            name: coin.name,
+            symbol: coin.symbol,
+            market_cap_rank: coin.market_cap_rank,
+            thumb: coin.image,
+          })),
+      );
+    },
+  };
+}
@@ -0,0 +1,350 @@
+/**
+ * Number and date formatting shared by every widget.
+ *
+ * Each helper takes the locale explicitly (the one picked in the nav, see
+ * `getLocalePreference`) instead of the runtime default, and dates are
+ * formatted in UTC unless a time zone is passed, so a server render and the
+ * hydrated client render always produce the same text.
+ * Safe to import from client components.
+ */
+
+import { type Currency, getCurrencyOption } from "@/lib/currency";
+
+export type LocaleOption = {
+  id: string;
+  label: string;
+};
+
+export const LOCALES: LocaleOption[] = [
+  { id: "en-US", label: "English (US)" },
+  { id: "en-GB", label: "English (UK)" },
+  { id: "de-DE", label: "Deutsch" },
+  { id: "fr-FR", label: "Français" },
+  { id: "es-ES", label: "Español" },
+  { id: "ja-JP", label: "日本語" },
+];
+
+export const DEFAULT_LOCALE = "en-US";
+
+// Cookie holding the selected locale (see the locale picker)
+export const LOCALE_COOKIE = "locale";
+
+/**
+ * Resolve a cookie value to a supported locale, falling back to en-US.
+ */
+export function parseLocale(value: string | undefined): string {
+  return LOCALES.find((locale) => locale.id === value)?.id ?? DEFAULT_LOCALE;
+}
+
+/**
+ * First supported locale of an Accept-Language header ("de-AT,de;q=0.9"),
+ * matched exactly or by language. Null when none is supported.
+ */
+export function negotiateLocale(header: string | null): string | null {
+  if (!header) return null;
+
+  const wanted = header
+    .split(",")
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params.find((param) => param.trim().startsWith("q="));
+      return { tag: tag.toLowerCase(), q: q ? Number(q.trim().slice(2)) : 1 };
+    })
+    .filter((entry) => entry.tag && entry.q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  for (const { tag } of wanted) {
+    const exact = LOCALES.find((locale) => locale.id.toLowerCase() === tag);
+    if (exact) return exact.id;
+
+    const language = tag.split("-")[0];
+    const sameLanguage = LOCALES.find(
+      (locale) => locale.id.split("-")[0].toLowerCase() === language,
+    );
+    if (sameLanguage) return sameLanguage.id;
+  }
+
+  return null;
+}
+
+// Intl formatters are costly to build and charts re-render on hover
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+function numberFormat(
+  locale: string,
+  options: Intl.NumberFormatOptions,
+): Intl.NumberFormat {
+  const key = `${locale}|${JSON.stringify(options)}`;
+  let format = numberFormats.get(key);
+  if (!format) {
+    format = new Intl.NumberFormat(locale, options);
+    numberFormats.set(key, format);
+  }
+  return format;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Numbers
+// ─────────────────────────────────────────────────────────────
+
+type NumberOptions = {
+  minimumFractionDigits?: number;
+  maximumFractionDigits?: number;
+};
+
+/**
+ * Plain number with grouping: 1,234.57 (en-US), 1.234,57 (de-DE).
+ */
+export function formatNumber(
+  value: number,
+  locale: string,
+  { minimumFractionDigits = 0, maximumFractionDigits = 2 }: NumberOptions = {},
+): string {
+  return numberFormat(locale, {
+    minimumFractionDigits,
+    maximumFractionDigits: Math.max(
+      minimumFractionDigits,
+      maximumFractionDigits,
+    ),
+  }).format(value);
+}
+
+/**
+ * Compact notation for large amounts: 2.35T, 67.3K.
+ */
+export function formatCompact(value: number, locale: string): string {
+  return numberFormat(locale, {
+    notation: "compact",
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
+/**
+ * Percent from percentage points (3.2 → "3.20%"). "signed" adds the "+" of
+ * changes; zero stays unsigned.
+ */
+export function formatPercent(
+  value: number,
+  locale: string,
+  { digits = 2, signed = false }: { digits?: number; signed?: boolean } = {},
+): string {
+  return numberFormat(locale, {
+    style: "percent",
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+    signDisplay: signed ? "exceptZero" : "auto",
+  }).format(value / 100);
+}
+
+// ─────────────────────────────────────────────────────────────
+// Money
+// ─────────────────────────────────────────────────────────────
+
+type CurrencyOptions = {
+  // "€2.35T" instead of every digit
+  compact?: boolean;
+  // "+$12.00" for P&L and changes
+  signed?: boolean;
+  // Overrides the adaptive precision, e.g. 0 for market-wide totals
+  maximumFractionDigits?: number;
+};
+
+/**
+ * Amount in "currency", laid out the locale's way ("€1,234.56",
+ * "1.234,56 €"). Precision adapts to the size: cents (none for JPY) from 1
+ * up, 4 significant digits below 1 so sub-cent prices never round to 0.
+ *
+ * BTC/ETH have no ISO code: they are formatted like USD and the symbol is
+ * swapped for ₿ / Ξ.
+ */
+export function formatCurrency(
+  value: number,
+  currency: Currency,
+  locale: string,
+  {
+    compact = false,
+    signed = false,
+    maximumFractionDigits,
+  }: CurrencyOptions = {},
+): string {
+  const option = getCurrencyOption(currency);
+  const abs = Math.abs(value);
+
+  const base: Intl.NumberFormatOptions = {
+    style: "currency",
+    currency: option.crypto ? "USD" : option.label,
+    currencyDisplay: "narrowSymbol",
+    notation: compact ? "compact" : "standard",
+    signDisplay: signed ? "exceptZero" : "auto",
+  };
+
+  let precision: Intl.NumberFormatOptions = {};
+  if (maximumFractionDigits !== undefined || compact) {
+    const digits = maximumFractionDigits ?? 2;
+    precision = {
+      minimumFractionDigits: compact ? 0 : Math.min(2, digits),
+      maximumFractionDigits: digits,
+    };
+  } else if (abs > 0 && abs < 1) {
+    precision = { minimumSignificantDigits: 2, maximumSignificantDigits: 4 };
+  } else if (option.crypto) {
+    precision = { minimumFractionDigits: 2, maximumFractionDigits: 4 };
+  }
+
+  // JPY has no minor unit: never force cents onto it
+  if (
+    !option.crypto &&
+    precision.minimumFractionDigits !== undefined &&
+    numberFormat(locale, base).resolvedOptions().maximumFractionDigits === 0
+  ) {
+    precision = { ...precision, minimumFractionDigits: 0 };
+  }
+
+  const parts = numberFormat(locale, { ...base, ...precision }).formatToParts(
+    value,
+  );
+  return parts
+    .map((part) =>
+      option.crypto && part.type === "currency" ? option.symbol : part.value,
+    )
+    .join("");
+}
+
+// ─────────────────────────────────────────────────────────────
+// Dates
+// ─────────────────────────────────────────────────────────────
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// "Mar 14, 2024"; ISO strings (CoinGecko dates) are accepted too
+export function formatDate(
+  value: number | string,
+  locale: string,
+  timeZone = "UTC",
+): string {
+  return new Date(value).toLocaleDateString(locale, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    timeZone,
+  });
+}
+
+// "Mar 14" — for series where the year is obvious
+export function formatDay(ts: number, locale: string, timeZone = "UTC") {
+  return new Date(ts).toLocaleDateString(locale, {
+    month: "short",
+    day: "numeric",
+    timeZone,
+  });
+}
+
+// "Mar 14, 2024, 2:05 PM"
+export function formatDateTime(
+  ts: number,
+  locale: string,
+  timeZone = "UTC",
+): string {
+  return new Date(ts).toLocaleString(locale, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone,
+  });
+}
+
+// "02:05 PM UTC"
+export function formatTime(
+  ts: number,
+  locale: string,
+  timeZone = "UTC",
+): string {
+  return new Date(ts).toLocaleTimeString(locale, {
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone,
+    timeZoneName: "short",
+  });
+}
+
+// ─────────────────────────────────────────────────────────────
+// Chart labels
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Pick a date label format that fits the time span of a series:
+ * hours for intraday, days up to ~6 months, months beyond that.
+ *
+ * Charts render on both server and client, so labels use a fixed time
+ * zone (UTC by default) to keep the two renders identical.
+ */
+export function formatTimeLabel(
+  ts: number,
+  spanMs: number,
+  locale: string,
+  timeZone = "UTC",
+): string {
+  let format: Intl.DateTimeFormatOptions = { month: "short", year: "2-digit" };
+  if (spanMs <= 2 * DAY_MS) format = { hour: "numeric" };
+  else if (spanMs <= 180 * DAY_MS) format = { month: "short", day: "numeric" };
+
+  return new Date(ts).toLocaleString(locale, { ...format, timeZone });
+}
+
+/**
+ * Full timestamp for tooltips, e.g. "Oct 18, 2:00 PM UTC".
+ */
+export function formatTooltipTime(
+  ts: number,
+  locale: string,
+  timeZone = "UTC",
+): string {
+  return new Date(ts).toLocaleString(locale, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone,
+    timeZoneName: "short",
+  });
+}
+
+/**
+ * Axis label: compact from 10,000 up (2.35T), a few significant digits
+ * below. Quoted in "currency" when given, a plain number otherwise.
+ */
+export function formatAxisValue(
+  value: number,
+  locale: string,
+  currency?: Currency,
+): string {
+  const abs = Math.abs(value);
+
+  if (abs >= 10_000) {
+    return currency
+      ? formatCurrency(value, currency, locale, { compact: true })
+      : formatCompact(value, locale);
+  }
+  if (currency) return formatCurrency(value, currency, locale);
+
+  return numberFormat(locale, {
+    maximumSignificantDigits: abs >= 1 ? 6 : 4,
+  }).format(value);
+}
+
+/**
+ * Exact value for tooltips, with the adaptive precision of formatCurrency.
+ */
+export function formatExactValue(
+  value: number,
+  locale: string,
+  currency?: Currency,
+): string {
+  if (currency) return formatCurrency(value, currency, locale);
+
+  return formatNumber(value, locale, {
+    maximumFractionDigits: Math.abs(value) >= 1 ? 2 : 8,
+  });
+}
@@ -0,0 +1,51 @@
+/**
+ * Market heatmap: change windows the tiles can be colored by, and how far
+ * a change has to go for a tile to reach full color.
+ *
+ * Pure: safe to import from client components.
+ */
+
+import type { MarketCoin } from "@/types/coingecko";
+
+export type ChangeWindow = "1h" | "24h" | "7d";
+
+// Selectable via `?heatmap=` on the dashboard
+export const CHANGE_WINDOWS: { id: ChangeWindow; label: string }[] = [
+  { id: "1h", label: "1h" },
+  { id: "24h", label: "24h" },
+  { id: "7d", label: "7d" },
+];
+
+// Change (%) shown at full color; longer windows move further
+export const FULL_COLOR_CHANGE: Record<ChangeWindow, number> = {
+  "1h": 2,
+  "24h": 8,
+  "7d": 20,
+};
+
+/**
+ * Resolve a `?heatmap=` search param, falling back to 24 hours.
+ */
+export function parseChangeWindow(
+  value: string | string[] | undefined,
+): ChangeWindow {
+  const id = Array.isArray(value) ? value[0] : value;
+  return CHANGE_WINDOWS.find((option) => option.id === id)?.id ?? "24h";
+}
+
+/**
+ * Price change (%) of a coin over "window"; null when upstream has none.
+ */
+export function priceChange(
+  coin: MarketCoin,
+  window: ChangeWindow,
+): number | null {
+  switch (window) {
+    case "1h":
+      return coin.price_change_percentage_1h;
+    case "24h":
+      return coin.price_change_percentage_24h;
+    case "7d":
+      return coin.price_change_percentage_7d;
+  }
+}
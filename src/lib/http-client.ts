@@ -0,0 +1,241 @@
+/**
+ * Shared HTTP client for upstream market data APIs.
+ *
+ * Every upstream GET goes through `requestJson`, which adds:
+ *  - a timeout on every attempt, so a hanging upstream can't stall a render
+ *  - retries with jittered exponential backoff (honouring Retry-After)
+ *  - coalescing of identical in-flight requests
+ *  - a "last good payload" fallback, flagged as stale, when upstream is down
+ *    (not when its payloads stop matching the schema: that has to surface)
+ */
+
+import {
+  MarketDataError,
+  RateLimitedError,
+  SchemaMismatchError,
+  UpstreamHttpError,
+  UpstreamTimeoutError,
+} from "@/lib/errors";
+
+/**
+ * How fresh a payload is. "fetchedAt" is a ms timestamp.
+ */
+export type Freshness = {
+  stale: boolean;
+  fetchedAt: number;
+};
+
+export type Fetched<T> = Freshness & {
+  data: T;
+};
+
+export type RequestOptions = {
+  /** Next.js data cache lifetime in seconds. */
+  revalidate?: number;
+  /** Extra attempts after the first one. */
+  retries?: number;
+  baseDelayMs?: number;
+  /** Longest we are willing to wait between attempts (incl. Retry-After). */
+  maxDelayMs?: number;
+  /** Longest a single attempt may take, body included. */
+  timeoutMs?: number;
+  /**
+   * Key for request sharing and the stale cache (defaults to the URL).
+   * Needed when one URL is parsed into different results.
+   */
+  cacheKey?: string;
+};
+
+type RetryOptions = Required<Omit<RequestOptions, "cacheKey">>;
+
+const DEFAULT_OPTIONS: RetryOptions = {
+  revalidate: 60,
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  timeoutMs: 10_000,
+};
+
+// Bound the stale cache so unique URLs (e.g. many coin ids) can't grow it forever.
+const MAX_LAST_GOOD_ENTRIES = 500;
+
+const inFlight = new Map<string, Promise<Fetched<unknown>>>();
+const lastGood = new Map<string, { data: unknown; fetchedAt: number }>();
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into ms.
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Rate limits, 5xx, timeouts and network failures are worth another
+ * attempt; other 4xx and schema mismatches will not fix themselves.
+ */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof RateLimitedError) return true;
+  if (error instanceof UpstreamTimeoutError) return true;
+  if (error instanceof UpstreamHttpError) return error.status >= 500;
+  return !(error instanceof MarketDataError);
+}
+
+/**
+ * Delay before the next attempt, or null if we should stop waiting.
+ * Uses "full jitter": a random delay up to the exponential ceiling.
+ */
+function retryDelay(
+  error: unknown,
+  attempt: number,
+  options: RetryOptions,
+): number | null {
+  if (error instanceof RateLimitedError && error.retryAfterMs !== null) {
+    return error.retryAfterMs <= options.maxDelayMs ? error.retryAfterMs : null;
+  }
+
+  const ceiling = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * 2 ** attempt,
+  );
+  return Math.round(Math.random() * ceiling);
+}
+
+async function fetchOnce<T>(
+  url: string,
+  parse: (json: unknown) => T,
+  { revalidate, timeoutMs }: RetryOptions,
+): Promise<T> {
+  const signal = AbortSignal.timeout(timeoutMs);
+  const timedOut = (error: unknown) =>
+    signal.aborted
+      ? new UpstreamTimeoutError(url, timeoutMs, { cause: error })
+      : error;
+
+  let res: Response;
+  try {
+    res = await fetch(url, { next: { revalidate }, signal });
+  } catch (error) {
+    throw timedOut(error);
+  }
+
+  if (res.status === 429) {
+    throw new RateLimitedError(
+      url,
+      parseRetryAfter(res.headers.get("retry-after")),
+    );
+  }
+
+  if (!res.ok) {
+    throw new UpstreamHttpError(res.status, url);
+  }
+
+  let json: unknown;
+  try {
+    json = await res.json();
+  } catch (error) {
+    // Timing out mid-body says nothing about the payload
+    if (signal.aborted) throw timedOut(error);
+    throw new SchemaMismatchError("$", "JSON body", "malformed JSON");
+  }
+
+  return parse(json);
+}
+
+function rememberLastGood(key: string, data: unknown, fetchedAt: number) {
+  lastGood.delete(key);
+  lastGood.set(key, { data, fetchedAt });
+
+  if (lastGood.size > MAX_LAST_GOOD_ENTRIES) {
+    const oldest = lastGood.keys().next().value;
+    if (oldest !== undefined) lastGood.delete(oldest);
+  }
+}
+
+async function fetchWithRetry<T>(
+  url: string,
+  key: string,
+  parse: (json: unknown) => T,
+  options: RetryOptions,
+): Promise<Fetched<T>> {
+  let attempt = 0;
+
+  for (;;) {
+    try {
+      const data = await fetchOnce(url, parse, options);
+      const fetchedAt = Date.now();
+
+      rememberLastGood(key, data, fetchedAt);
+      return { data, stale: false, fetchedAt };
+    } catch (error) {
+      const delay =
+        attempt < options.retries && isRetryable(error)
+          ? retryDelay(error, attempt, options)
+          : null;
+
+      if (delay === null) {
+        // A schema mismatch means upstream changed its format: serving the
+        // old payload would hide it until the stale cache runs out
+        const fallback = lastGood.get(key);
+        if (!fallback || error instanceof SchemaMismatchError) throw error;
+
+        return {
+          data: fallback.data as T,
+          stale: true,
+          fetchedAt: fallback.fetchedAt,
+        };
+      }
+
+      attempt += 1;
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * GET a JSON resource, validate it with "parse" and report its freshness.
+ *
+ * Concurrent calls for the same URL (or "cacheKey") share a single upstream
+ * request. If every attempt fails but we have served it before, the last
+ * good payload is returned with `stale: true` instead of throwing, unless
+ * the failure is a SchemaMismatchError.
+ */
+export function requestJson<T>(
+  url: string,
+  parse: (json: unknown) => T,
+  { cacheKey, ...options }: RequestOptions = {},
+): Promise<Fetched<T>> {
+  const key = cacheKey ?? url;
+  const pending = inFlight.get(key);
+  if (pending) return pending as Promise<Fetched<T>>;
+
+  const request = fetchWithRetry(url, key, parse, {
+    ...DEFAULT_OPTIONS,
+    ...options,
+  }).finally(() => {
+    inFlight.delete(key);
+  });
+
+  inFlight.set(key, request);
+  return request;
+}
+
+/**
+ * Combine the freshness of several payloads rendered together:
+ * stale if any of them is, as of the oldest one.
+ */
+export function mergeFreshness(...items: Freshness[]): Freshness {
+  return {
+    stale: items.some((item) => item.stale),
+    fetchedAt: Math.min(...items.map((item) => item.fetchedAt)),
+  };
+}
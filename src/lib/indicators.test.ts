@@ -0,0 +1,184 @@
+import { describe, expect, it } from "vitest";
+import {
+  bollingerBands,
+  ema,
+  macd,
+  rsi,
+  type Series,
+  sma,
+  vwap,
+} from "@/lib/indicators";
+
+// One point per second: [0, v0], [1000, v1], …
+function series(values: number[]): Series {
+  return values.map((value, idx) => [idx * 1000, value]);
+}
+
+describe("sma", () => {
+  it("averages the last period values, starting at the period-th point", () => {
+    expect(sma(series([1, 2, 3, 4, 5]), 3)).toEqual([
+      [2000, 2],
+      [3000, 3],
+      [4000, 4],
+    ]);
+  });
+
+  it("returns an empty series when shorter than the period", () => {
+    expect(sma(series([1, 2]), 3)).toEqual([]);
+    expect(sma([], 1)).toEqual([]);
+  });
+
+  it("rejects periods that aren't positive integers", () => {
+    expect(() => sma(series([1, 2, 3]), 0)).toThrow(RangeError);
+    expect(() => sma(series([1, 2, 3]), 1.5)).toThrow(RangeError);
+  });
+});
+
+describe("ema", () => {
+  it("is seeded with the SMA of the first period values", () => {
+    // k = 2 / (3 + 1) = 0.5
+    expect(ema(series([1, 2, 3, 4, 5]), 3)).toEqual([
+      [2000, 2],
+      [3000, 3],
+      [4000, 4],
+    ]);
+  });
+
+  it("weights recent values more than the SMA does", () => {
+    const values = series([1, 1, 1, 1, 10]);
+    const [, lastEma] = ema(values, 3).at(-1) ?? [];
+    const [, lastSma] = sma(values, 3).at(-1) ?? [];
+
+    expect(lastEma).toBeCloseTo(5.5);
+    expect(lastSma).toBeCloseTo(4);
+  });
+
+  it("returns an empty series when shorter than the period", () => {
+    expect(ema(series([1, 2]), 3)).toEqual([]);
+  });
+});
+
+describe("rsi", () => {
+  it("applies Wilder's smoothing after the first period changes", () => {
+    // Changes +1, −1 → 50; then +1: gain 0.75, loss 0.25 → RS 3 → 75
+    const result = rsi(series([1, 2, 1, 2]), 2);
+
+    expect(result.map(([ts]) => ts)).toEqual([2000, 3000]);
+    expect(result[0][1]).toBeCloseTo(50);
+    expect(result[1][1]).toBeCloseTo(75);
+  });
+
+  it("is 100 when there are no losses", () => {
+    const result = rsi(series([1, 2, 3, 4, 5, 6]), 3);
+
+    expect(result).toHaveLength(3);
+    for (const [, value] of result) expect(value).toBe(100);
+  });
+
+  it("is 50 on a flat series", () => {
+    const result = rsi(series(Array(20).fill(42)));
+
+    expect(result).toHaveLength(6);
+    for (const [, value] of result) expect(value).toBe(50);
+  });
+
+  it("needs one more point than the period", () => {
+    expect(rsi(series(Array(14).fill(1)))).toEqual([]);
+    expect(rsi(series(Array(15).fill(1)))).toHaveLength(1);
+  });
+});
+
+describe("macd", () => {
+  it("is constant on a linear series, with a flat histogram", () => {
+    // EMA(p) of a series rising by 1 per point lags it by (p − 1) / 2
+    const result = macd(
+      series(Array.from({ length: 10 }, (_, i) => i)),
+      2,
+      3,
+      2,
+    );
+
+    expect(result.macd).toHaveLength(8);
+    expect(result.macd[0][0]).toBe(2000);
+    for (const [, value] of result.macd) expect(value).toBeCloseTo(0.5);
+
+    expect(result.signal).toHaveLength(7);
+    for (const [, value] of result.signal) expect(value).toBeCloseTo(0.5);
+
+    expect(result.histogram.map(([ts]) => ts)).toEqual(
+      result.signal.map(([ts]) => ts),
+    );
+    for (const [, value] of result.histogram) expect(value).toBeCloseTo(0);
+  });
+
+  it("returns empty series when shorter than the slow period", () => {
+    expect(macd(series([1, 2, 3]))).toEqual({
+      macd: [],
+      signal: [],
+      histogram: [],
+    });
+  });
+});
+
+describe("bollingerBands", () => {
+  it("offsets the SMA by population standard deviations", () => {
+    const { middle, upper, lower } = bollingerBands(series([1, 2, 3]), 3, 2);
+    const band = 2 * Math.sqrt(2 / 3);
+
+    expect(middle).toEqual([[2000, 2]]);
+    expect(upper[0][1]).toBeCloseTo(2 + band);
+    expect(lower[0][1]).toBeCloseTo(2 - band);
+  });
+
+  it("collapses onto the SMA on a flat series", () => {
+    const { middle, upper, lower } = bollingerBands(series(Array(25).fill(7)));
+
+    expect(middle).toHaveLength(6);
+    expect(upper).toEqual(middle);
+    expect(lower).toEqual(middle);
+  });
+
+  it("returns empty bands when shorter than the period", () => {
+    expect(bollingerBands(series([1, 2, 3]))).toEqual({
+      middle: [],
+      upper: [],
+      lower: [],
+    });
+  });
+});
+
+describe("vwap", () => {
+  it("accumulates volume-weighted prices from the start", () => {
+    expect(vwap(series([10, 20]), series([1, 3]))).toEqual([
+      [0, 10],
+      [1000, 17.5],
+    ]);
+  });
+
+  it("uses the latest volume at or before each price", () => {
+    const prices: Series = [
+      [500, 5],
+      [1500, 10],
+      [2500, 20],
+    ];
+    const volumes: Series = [
+      [1000, 1],
+      [2000, 1],
+    ];
+
+    // The first price has no volume yet and is skipped
+    expect(vwap(prices, volumes)).toEqual([
+      [1500, 10],
+      [2500, 15],
+    ]);
+  });
+
+  it("skips points until some volume has traded", () => {
+    expect(vwap(series([10, 20, 30]), series([0, 0, 2]))).toEqual([[2000, 30]]);
+  });
+
+  it("returns an empty series when volume is zero throughout", () => {
+    expect(vwap(series([10, 20]), series([0, 0]))).toEqual([]);
+    expect(vwap(series([10, 20]), [])).toEqual([]);
+  });
+});
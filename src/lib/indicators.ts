@@ -0,0 +1,328 @@
+/**
+ * Technical indicators over `[timestamp, value][]` series (MarketChart).
+ *
+ * Pure functions, no API calls. Every indicator returns a series aligned to
+ * the input timestamps, starting at the first point where it is defined
+ * (e.g. SMA(20) starts at the 20th price). Series shorter than the warm-up
+ * period return an empty series instead of throwing.
+ *
+ * Periods are counted in points, not in time: CoinGecko switches between
+ * 5-minute, hourly and daily granularity depending on the requested range.
+ */
+
+import type { ChartOverlay, ChartPanel } from "@/lib/chart";
+import { THEME_COLORS, withOpacity } from "@/lib/theme";
+import type { MarketChart } from "@/types/coingecko";
+
+export type Series = [number, number][];
+
+function assertPeriod(period: number, name: string) {
+  if (!Number.isInteger(period) || period < 1) {
+    throw new RangeError(`${name} must be a positive integer, got ${period}`);
+  }
+}
+
+/**
+ * Simple moving average of the last "period" values.
+ */
+export function sma(series: Series, period: number): Series {
+  assertPeriod(period, "period");
+  if (series.length < period) return [];
+
+  const out: Series = [];
+  let sum = 0;
+
+  for (let i = 0; i < series.length; i++) {
+    sum += series[i][1];
+    if (i >= period) sum -= series[i - period][1];
+    if (i >= period - 1) out.push([series[i][0], sum / period]);
+  }
+
+  return out;
+}
+
+/**
+ * Exponential moving average, seeded with the SMA of the first "period" values.
+ */
+export function ema(series: Series, period: number): Series {
+  assertPeriod(period, "period");
+  if (series.length < period) return [];
+
+  const k = 2 / (period + 1);
+  let prev =
+    series.slice(0, period).reduce((sum, [, v]) => sum + v, 0) / period;
+  const out: Series = [[series[period - 1][0], prev]];
+
+  for (let i = period; i < series.length; i++) {
+    prev = series[i][1] * k + prev * (1 - k);
+    out.push([series[i][0], prev]);
+  }
+
+  return out;
+}
+
+/**
+ * Relative Strength Index (0–100) with Wilder's smoothing.
+ */
+export function rsi(series: Series, period = 14): Series {
+  assertPeriod(period, "period");
+  if (series.length <= period) return [];
+
+  let avgGain = 0;
+  let avgLoss = 0;
+
+  for (let i = 1; i <= period; i++) {
+    const change = series[i][1] - series[i - 1][1];
+    if (change > 0) avgGain += change;
+    else avgLoss -= change;
+  }
+  avgGain /= period;
+  avgLoss /= period;
+
+  const toRsi = (gain: number, loss: number) =>
+    loss === 0 ? (gain === 0 ? 50 : 100) : 100 - 100 / (1 + gain / loss);
+
+  const out: Series = [[series[period][0], toRsi(avgGain, avgLoss)]];
+
+  for (let i = period + 1; i < series.length; i++) {
+    const change = series[i][1] - series[i - 1][1];
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+    out.push([series[i][0], toRsi(avgGain, avgLoss)]);
+  }
+
+  return out;
+}
+
+/**
+ * MACD line (fast EMA − slow EMA), its signal EMA and the histogram.
+ */
+export function macd(
+  series: Series,
+  fast = 12,
+  slow = 26,
+  signalPeriod = 9,
+): { macd: Series; signal: Series; histogram: Series } {
+  assertPeriod(fast, "fast");
+  assertPeriod(slow, "slow");
+  assertPeriod(signalPeriod, "signalPeriod");
+
+  const fastEma = new Map(ema(series, fast));
+  const macdLine: Series = ema(series, slow)
+    .filter(([ts]) => fastEma.has(ts))
+    .map(([ts, slowValue]) => [ts, (fastEma.get(ts) ?? 0) - slowValue]);
+
+  const signal = ema(macdLine, signalPeriod);
+  const signalByTs = new Map(signal);
+  const histogram: Series = macdLine
+    .filter(([ts]) => signalByTs.has(ts))
+    .map(([ts, value]) => [ts, value - (signalByTs.get(ts) ?? 0)]);
+
+  return { macd: macdLine, signal, histogram };
+}
+
+/**
+ * Bollinger Bands: SMA ± "stdDevs" population standard deviations.
+ */
+export function bollingerBands(
+  series: Series,
+  period = 20,
+  stdDevs = 2,
+): { middle: Series; upper: Series; lower: Series } {
+  const middle = sma(series, period);
+  const upper: Series = [];
+  const lower: Series = [];
+
+  middle.forEach(([ts, mean], idx) => {
+    const window = series.slice(idx, idx + period);
+    const variance =
+      window.reduce((sum, [, v]) => sum + (v - mean) ** 2, 0) / period;
+    const band = Math.sqrt(variance) * stdDevs;
+
+    upper.push([ts, mean + band]);
+    lower.push([ts, mean - band]);
+  });
+
+  return { middle, upper, lower };
+}
+
+/**
+ * Volume-weighted average price, anchored at the start of the series.
+ *
+ * Prices and volumes are matched by timestamp; when the two series are not
+ * sampled at the same instants, each price uses the latest volume at or
+ * before it. CoinGecko volumes are rolling 24h totals, so this is a
+ * volume-weighted mean of the price path rather than an exchange VWAP.
+ */
+export function vwap(prices: Series, volumes: Series): Series {
+  const out: Series = [];
+  let volumeIdx = 0;
+  let weighted = 0;
+  let totalVolume = 0;
+
+  for (const [ts, price] of prices) {
+    while (volumeIdx + 1 < volumes.length && volumes[volumeIdx + 1][0] <= ts) {
+      volumeIdx += 1;
+    }
+
+    const volume = volumes[volumeIdx];
+    if (!volume || volume[0] > ts) continue;
+
+    weighted += price * volume[1];
+    totalVolume += volume[1];
+    if (totalVolume > 0) out.push([ts, weighted / totalVolume]);
+  }
+
+  return out;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Chart overlays / sub-panels
+// ─────────────────────────────────────────────────────────────
+
+export type IndicatorId = "sma" | "ema" | "bb" | "vwap" | "rsi" | "macd";
+
+// Selectable via `?indicators=sma,rsi` on the coin price chart
+export const INDICATOR_OPTIONS: {
+  id: IndicatorId;
+  label: string;
+  placement: "overlay" | "panel";
+}[] = [
+  { id: "sma", label: "SMA 20", placement: "overlay" },
+  { id: "ema", label: "EMA 50", placement: "overlay" },
+  { id: "bb", label: "Bollinger", placement: "overlay" },
+  { id: "vwap", label: "VWAP", placement: "overlay" },
+  { id: "rsi", label: "RSI 14", placement: "panel" },
+  { id: "macd", label: "MACD", placement: "panel" },
+];
+
+/**
+ * Resolve a comma-separated `?indicators=` search param, ignoring unknown ids.
+ */
+export function parseIndicators(
+  value: string | string[] | undefined,
+): IndicatorId[] {
+  const raw = Array.isArray(value) ? value.join(",") : (value ?? "");
+  const requested = new Set(raw.split(","));
+
+  return INDICATOR_OPTIONS.filter((option) => requested.has(option.id)).map(
+    (option) => option.id,
+  );
+}
+
+/**
+ * Lines to draw over the price chart for the selected indicators.
+ */
+export function buildIndicatorOverlays(
+  selected: IndicatorId[],
+  chart: MarketChart,
+): ChartOverlay[] {
+  const overlays: ChartOverlay[] = [];
+  const { prices } = chart;
+
+  if (selected.includes("sma")) {
+    overlays.push({
+      id: "sma",
+      label: "SMA 20",
+      color: THEME_COLORS.series[2],
+      series: sma(prices, 20),
+    });
+  }
+
+  if (selected.includes("ema")) {
+    overlays.push({
+      id: "ema",
+      label: "EMA 50",
+      color: THEME_COLORS.series[3],
+      series: ema(prices, 50),
+    });
+  }
+
+  if (selected.includes("bb")) {
+    const bands = bollingerBands(prices);
+    overlays.push(
+      {
+        id: "bb-upper",
+        label: "BB upper",
+        color: withOpacity(THEME_COLORS.muted, 60),
+        series: bands.upper,
+      },
+      {
+        id: "bb-middle",
+        label: "BB mid",
+        color: THEME_COLORS.muted,
+        series: bands.middle,
+      },
+      {
+        id: "bb-lower",
+        label: "BB lower",
+        color: withOpacity(THEME_COLORS.muted, 60),
+        series: bands.lower,
+      },
+    );
+  }
+
+  if (selected.includes("vwap")) {
+    overlays.push({
+      id: "vwap",
+      label: "VWAP",
+      color: THEME_COLORS.series[4],
+      series: vwap(prices, chart.total_volumes),
+    });
+  }
+
+  return overlays;
+}
+
+/**
+ * Sub-panels (own y-axis) for the selected oscillators.
+ */
+export function buildIndicatorPanels(
+  selected: IndicatorId[],
+  chart: MarketChart,
+): ChartPanel[] {
+  const panels: ChartPanel[] = [];
+
+  if (selected.includes("rsi")) {
+    panels.push({
+      id: "rsi",
+      label: "RSI 14",
+      lines: [
+        {
+          id: "rsi",
+          label: "RSI",
+          color: THEME_COLORS.series[3],
+          series: rsi(chart.prices),
+        },
+      ],
+      domain: [0, 100],
+      guides: [30, 70],
+    });
+  }
+
+  if (selected.includes("macd")) {
+    const result = macd(chart.prices);
+    panels.push({
+      id: "macd",
+      label: "MACD 12/26/9",
+      lines: [
+        {
+          id: "macd",
+          label: "MACD",
+          color: THEME_COLORS.series[1],
+          series: result.macd,
+        },
+        {
+          id: "signal",
+          label: "Signal",
+          color: THEME_COLORS.series[2],
+          series: result.signal,
+        },
+      ],
+      histogram: result.histogram,
+      guides: [0],
+    });
+  }
+
+  return panels;
+}
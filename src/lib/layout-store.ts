@@ -0,0 +1,131 @@
+/**
+ * Persistence of the dashboard layouts (named widget arrangements) and of
+ * the active one in the local JSON store.
+ */
+
+import { randomUUID } from "node:crypto";
+import { readCollection, updateCollection } from "@/lib/store";
+import { defaultLayout, normalizeWidgets } from "@/lib/widgets";
+import type {
+  DashboardLayout,
+  DashboardLayouts,
+  LayoutWidget,
+} from "@/types/dashboard";
+
+const COLLECTION = "dashboard-layouts";
+
+function initialLayouts(): DashboardLayouts {
+  const layout = defaultLayout();
+  return { activeId: layout.id, layouts: [layout] };
+}
+
+function isLayout(value: unknown): value is DashboardLayout {
+  if (typeof value !== "object" || value === null) return false;
+  const item = value as Record<string, unknown>;
+
+  return (
+    typeof item.id === "string" &&
+    typeof item.name === "string" &&
+    Array.isArray(item.widgets) &&
+    typeof item.createdAt === "number"
+  );
+}
+
+/**
+ * Saved layouts, with widgets no longer in the registry dropped and an
+ * active layout that exists.
+ */
+function parseLayouts(json: unknown): DashboardLayouts {
+  const item = (json ?? {}) as Record<string, unknown>;
+  if (
+    typeof item.activeId !== "string" ||
+    !Array.isArray(item.layouts) ||
+    !item.layouts.length ||
+    !item.layouts.every(isLayout)
+  ) {
+    throw new TypeError("Expected dashboard layouts");
+  }
+
+  const layouts = item.layouts.map((layout) => ({
+    ...layout,
+    widgets: normalizeWidgets(layout.widgets),
+  }));
+  const activeId = layouts.some((layout) => layout.id === item.activeId)
+    ? item.activeId
+    : layouts[0].id;
+
+  return { activeId, layouts };
+}
+
+function update(change: (current: DashboardLayouts) => DashboardLayouts) {
+  return updateCollection(COLLECTION, parseLayouts, initialLayouts(), change);
+}
+
+export function getDashboardLayouts(): Promise<DashboardLayouts> {
+  return readCollection(COLLECTION, parseLayouts, initialLayouts());
+}
+
+export function findActiveLayout(state: DashboardLayouts): DashboardLayout {
+  return (
+    state.layouts.find((layout) => layout.id === state.activeId) ??
+    state.layouts[0]
+  );
+}
+
+export async function saveLayoutWidgets(
+  id: string,
+  widgets: LayoutWidget[],
+): Promise<void> {
+  await update((state) => ({
+    ...state,
+    layouts: state.layouts.map((layout) =>
+      layout.id === id
+        ? { ...layout, widgets: normalizeWidgets(widgets) }
+        : layout,
+    ),
+  }));
+}
+
+/**
+ * Save "widgets" as a new named layout, which becomes the active one.
+ */
+export async function addLayout(
+  name: string,
+  widgets: LayoutWidget[],
+): Promise<DashboardLayout> {
+  const layout: DashboardLayout = {
+    id: randomUUID(),
+    name,
+    widgets: normalizeWidgets(widgets),
+    createdAt: Date.now(),
+  };
+  await update((state) => ({
+    activeId: layout.id,
+    layouts: [...state.layouts, layout],
+  }));
+  return layout;
+}
+
+export async function setActiveLayout(id: string): Promise<void> {
+  await update((state) =>
+    state.layouts.some((layout) => layout.id === id)
+      ? { ...state, activeId: id }
+      : state,
+  );
+}
+
+/**
+ * Delete a layout (the last one is kept). Deleting the active layout
+ * activates the first remaining one.
+ */
+export async function removeLayout(id: string): Promise<void> {
+  await update((state) => {
+    const layouts = state.layouts.filter((layout) => layout.id !== id);
+    if (!layouts.length) return state;
+
+    return {
+      activeId: state.activeId === id ? layouts[0].id : state.activeId,
+      layouts,
+    };
+  });
+}
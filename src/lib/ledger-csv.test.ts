@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  type CoinRef,
+  importLedgerCsv,
+  readLedgerCsvSymbols,
+} from "@/lib/ledger-csv";
+
+const COINS: CoinRef[] = [
+  { id: "bitcoin", symbol: "btc" },
+  { id: "tether", symbol: "usdt" },
+  { id: "1inch", symbol: "1inch" },
+];
+
+function binanceCsv(...rows: string[]): string {
+  return ["Date(UTC),Pair,Side,Price,Executed,Amount,Fee", ...rows].join("\n");
+}
+
+describe("importLedgerCsv (Binance)", () => {
+  it("reads amounts glued to their asset", () => {
+    const result = importLedgerCsv(
+      binanceCsv(
+        "2024-01-15 10:00:00,BTCUSDT,BUY,50000,0.5BTC,25000USDT,0.1USDT",
+      ),
+      COINS,
+    );
+
+    expect(result.layout).toBe("binance");
+    expect(result.errors).toEqual([]);
+    expect(result.transactions).toMatchObject([
+      {
+        timestamp: Date.UTC(2024, 0, 15, 10),
+        type: "buy",
+        coinId: "bitcoin",
+        quantity: 0.5,
+        price: 50000,
+        fee: 0.1,
+      },
+    ]);
+  });
+
+  it("keeps tickers that start with digits whole", () => {
+    const result = importLedgerCsv(
+      binanceCsv(
+        "2024-01-15 10:00:00,1INCHUSDT,BUY,0.4,10.51INCH,4.2USDT,0.01051INCH",
+      ),
+      COINS,
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.transactions).toHaveLength(1);
+    expect(result.transactions[0]).toMatchObject({
+      coinId: "1inch",
+      quantity: 10.5,
+    });
+    // Fee paid in the base: 0.0105 1INCH at the fill price
+    expect(result.transactions[0].fee).toBeCloseTo(0.0042);
+  });
+
+  it("splits amounts and assets on a space", () => {
+    const result = importLedgerCsv(
+      binanceCsv(
+        '2024-01-15 10:00:00,1INCHUSDT,SELL,0.4,"1,000 1INCH",400 USDT,0.4 USDT',
+      ),
+      COINS,
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.transactions[0]).toMatchObject({
+      type: "sell",
+      coinId: "1inch",
+      quantity: 1000,
+      fee: 0.4,
+    });
+  });
+
+  it("reports unreadable amounts with their line number", () => {
+    const result = importLedgerCsv(
+      binanceCsv("2024-01-15 10:00:00,BTCUSDT,BUY,50000,BTC,25000USDT,0USDT"),
+      COINS,
+    );
+
+    expect(result.transactions).toEqual([]);
+    expect(result.errors).toEqual([
+      { line: 2, message: 'Invalid amount in Executed: "BTC"' },
+    ]);
+  });
+});
+
+describe("readLedgerCsvSymbols", () => {
+  it("lists the coins of the readable rows, aliases applied", () => {
+    const csv = [
+      "txid,ordertxid,pair,time,type,ordertype,price,cost,fee,vol",
+      "T1,O1,XXBTZUSD,2024-01-15 10:00:00,buy,limit,50000,25000,10,0.5",
+      "T2,O2,PEPEUSD,2024-01-16 10:00:00,sell,limit,0.00001,10,0.01,1000000",
+      "T3,O3,SOLUSD,not a date,buy,limit,50000,25000,10,0.5",
+    ].join("\n");
+
+    expect(readLedgerCsvSymbols(csv)).toEqual(["btc", "pepe"]);
+  });
+
+  it("is empty for an unknown layout", () => {
+    expect(readLedgerCsvSymbols("a,b\n1,2")).toEqual([]);
+  });
+});
@@ -0,0 +1,548 @@
+/**
+ * CSV import of exchange exports into ledger transactions.
+ *
+ * Supported layouts (detected from the header row):
+ *  - native    → timestamp,type,coin,quantity,price_usd,fee_usd
+ *                (type: buy | sell | transfer | fee; coin: CoinGecko id or symbol)
+ *  - coinbase  → Coinbase "Transaction history" export
+ *  - kraken    → Kraken "Trades" export (trades.csv)
+ *  - binance   → Binance "Trade History" export (Spot)
+ *
+ * Prices are only taken from the file when the trade was quoted in USD or a
+ * USD stablecoin; other fills keep `price: null` and are valued later from
+ * market history (their fees are ignored, as they are not in USD).
+ *
+ * Rows that cannot be read are reported with their line number instead of
+ * failing the whole import.
+ */
+
+import { createHash } from "node:crypto";
+import type { Transaction, TransactionType } from "@/types/ledger";
+
+// Minimal coin info needed to map exchange symbols to CoinGecko ids
+export type CoinRef = { id: string; symbol: string };
+
+export type CsvImportResult = {
+  layout: string | null;
+  transactions: Transaction[];
+  errors: { line: number; message: string }[];
+};
+
+// ─────────────────────────────────────────────────────────────
+// CSV parsing (RFC 4180: quoted fields, "" escapes, CRLF)
+// ─────────────────────────────────────────────────────────────
+
+type CsvLine = { line: number; cells: string[]; raw: string };
+
+function parseCsv(text: string): CsvLine[] {
+  const lines: CsvLine[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let startLine = 1;
+  let raw = "";
+
+  const input = text.replace(/^\uFEFF/, "");
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some((value) => value.trim() !== "")) {
+      lines.push({ line: startLine, cells, raw });
+    }
+    cells = [];
+    cell = "";
+    raw = "";
+    startLine = line;
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        raw += '""';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+        raw += char;
+      } else {
+        if (char === "\n") line += 1;
+        cell += char;
+        raw += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+      raw += char;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+      raw += char;
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i += 1;
+      line += 1;
+      endRow();
+    } else {
+      cell += char;
+      raw += char;
+    }
+  }
+
+  if (cell !== "" || cells.length) endRow();
+  return lines;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Field readers
+// ─────────────────────────────────────────────────────────────
+
+type Row = Record<string, string>;
+
+type ParsedRow = {
+  timestamp: number;
+  type: TransactionType;
+  symbol: string;
+  quantity: number;
+  price: number | null;
+  fee: number;
+};
+
+const USD_QUOTES = new Set([
+  "USD",
+  "ZUSD",
+  "USDT",
+  "USDC",
+  "BUSD",
+  "FDUSD",
+  "DAI",
+]);
+
+// Exchange tickers that differ from CoinGecko symbols
+const SYMBOL_ALIASES: Record<string, string> = {
+  XBT: "BTC",
+  XXBT: "BTC",
+  XETH: "ETH",
+  XXDG: "DOGE",
+  XDG: "DOGE",
+  XXRP: "XRP",
+  XLTC: "LTC",
+};
+
+function readField(row: Row, ...names: string[]): string {
+  for (const name of names) {
+    const value = row[name];
+    if (value !== undefined && value.trim() !== "") return value.trim();
+  }
+  throw new Error(`Missing column ${names.join(" / ")}`);
+}
+
+function readOptionalField(row: Row, ...names: string[]): string {
+  for (const name of names) {
+    const value = row[name];
+    if (value !== undefined && value.trim() !== "") return value.trim();
+  }
+  return "";
+}
+
+// Accepts "1,234.5", "$1.99" and "-0.5"
+function readAmount(value: string, column: string): number {
+  const amount = Number(value.replace(/[$,\s]/g, ""));
+  if (!Number.isFinite(amount)) {
+    throw new Error(`Invalid number in ${column}: "${value}"`);
+  }
+  return amount;
+}
+
+// ISO strings, "2024-01-15 10:00:00" (UTC) and "… UTC" suffixes
+function readTimestamp(value: string): number {
+  const normalized = value
+    .replace(/\s*UTC$/i, "Z")
+    .replace(/^(\d{4}-\d{2}-\d{2}) /, "$1T");
+  const withZone = /([zZ]|[+-]\d{2}:?\d{2})$/.test(normalized)
+    ? normalized
+    : `${normalized}Z`;
+
+  const ts = Date.parse(withZone);
+  if (!Number.isFinite(ts)) throw new Error(`Invalid date: "${value}"`);
+  return ts;
+}
+
+const AMOUNT_PATTERN = /^-?[\d.]+(?:e-?\d+)?$/i;
+
+/**
+ * "0.5BTC" → [0.5, "BTC"] (Binance amount columns).
+ *
+ * Tickers can start with digits, so "10.51INCH" alone is ambiguous: an
+ * asset of "knownAssets" (the traded pair) is matched whole first, making
+ * it 10.5 1INCH. "10.5 1INCH" is split on the space.
+ */
+function readAmountWithAsset(
+  value: string,
+  column: string,
+  knownAssets: string[] = [],
+): [number, string] {
+  const spaced = value.trim().match(/^(\S+)\s+([A-Z0-9]+)$/i);
+  if (spaced && AMOUNT_PATTERN.test(spaced[1].replace(/,/g, ""))) {
+    return [Number(spaced[1].replace(/,/g, "")), spaced[2].toUpperCase()];
+  }
+
+  const compact = value.replace(/[,\s]/g, "").toUpperCase();
+  const longestFirst = knownAssets
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length);
+  for (const asset of longestFirst) {
+    const amount = compact.slice(0, -asset.length);
+    if (compact.endsWith(asset) && AMOUNT_PATTERN.test(amount)) {
+      return [Number(amount), asset];
+    }
+  }
+
+  const match = compact.match(/^(-?[\d.]+(?:E-?\d+)?)([A-Z0-9]+)$/);
+  if (!match) throw new Error(`Invalid amount in ${column}: "${value}"`);
+  return [Number(match[1]), match[2]];
+}
+
+// ─────────────────────────────────────────────────────────────
+// Layouts
+// ─────────────────────────────────────────────────────────────
+
+type CsvLayout = {
+  id: string;
+  detect: (header: string[]) => boolean;
+  parseRow: (row: Row) => ParsedRow;
+};
+
+const nativeLayout: CsvLayout = {
+  id: "native",
+  detect: (header) =>
+    ["timestamp", "type", "coin", "quantity"].every((name) =>
+      header.includes(name),
+    ),
+  parseRow(row) {
+    const type = readField(row, "type").toLowerCase();
+    if (!["buy", "sell", "transfer", "fee"].includes(type)) {
+      throw new Error(`Unknown transaction type "${type}"`);
+    }
+
+    const price = readOptionalField(row, "price_usd");
+    const fee = readOptionalField(row, "fee_usd");
+
+    return {
+      timestamp: readTimestamp(readField(row, "timestamp")),
+      type: type as TransactionType,
+      symbol: readField(row, "coin"),
+      quantity: readAmount(readField(row, "quantity"), "quantity"),
+      price: price ? readAmount(price, "price_usd") : null,
+      fee: fee ? readAmount(fee, "fee_usd") : 0,
+    };
+  },
+};
+
+const COINBASE_TYPES: Record<string, TransactionType | "in" | "out"> = {
+  buy: "buy",
+  "advanced trade buy": "buy",
+  sell: "sell",
+  "advanced trade sell": "sell",
+  send: "out",
+  withdrawal: "out",
+  receive: "in",
+  deposit: "in",
+  "rewards income": "in",
+  "staking income": "in",
+  "learning reward": "in",
+  "inflation reward": "in",
+};
+
+const coinbaseLayout: CsvLayout = {
+  id: "coinbase",
+  detect: (header) =>
+    header.includes("Transaction Type") &&
+    header.includes("Asset") &&
+    header.includes("Quantity Transacted"),
+  parseRow(row) {
+    const rawType = readField(row, "Transaction Type");
+    const kind = COINBASE_TYPES[rawType.toLowerCase()];
+    if (!kind) throw new Error(`Unsupported Coinbase type "${rawType}"`);
+
+    const currency = readOptionalField(
+      row,
+      "Spot Price Currency",
+      "Price Currency",
+    ).toUpperCase();
+    const spot = readOptionalField(
+      row,
+      "Spot Price at Transaction",
+      "Price at Transaction",
+    );
+    const isUsd = USD_QUOTES.has(currency);
+    const fee = readOptionalField(row, "Fees and/or Spread", "Fees");
+
+    const quantity = Math.abs(
+      readAmount(readField(row, "Quantity Transacted"), "Quantity Transacted"),
+    );
+
+    return {
+      timestamp: readTimestamp(readField(row, "Timestamp")),
+      type: kind === "in" || kind === "out" ? "transfer" : kind,
+      symbol: readField(row, "Asset"),
+      quantity: kind === "out" ? -quantity : quantity,
+      price:
+        isUsd && spot ? readAmount(spot, "Spot Price at Transaction") : null,
+      fee: isUsd && fee ? Math.abs(readAmount(fee, "Fees and/or Spread")) : 0,
+    };
+  },
+};
+
+// Longest codes first so "XETHXXBT" splits as XETH / XXBT
+const KRAKEN_QUOTES = [
+  "ZUSD",
+  "ZEUR",
+  "ZGBP",
+  "XXBT",
+  "USDT",
+  "USDC",
+  "USD",
+  "EUR",
+  "GBP",
+  "XBT",
+];
+
+/**
+ * "XXBTZUSD" → ["XXBT", "ZUSD"], "SOLUSD" → ["SOL", "USD"].
+ */
+function splitKrakenPair(pair: string): [string, string] {
+  const upper = pair.toUpperCase().replace("/", "");
+  const quote = KRAKEN_QUOTES.find(
+    (q) => upper.endsWith(q) && upper.length > q.length,
+  );
+  if (!quote) throw new Error(`Unknown Kraken pair "${pair}"`);
+  return [upper.slice(0, -quote.length), quote];
+}
+
+/**
+ * Kraken prefixes legacy assets with X (crypto) or Z (fiat): XXBT, XETH, ZUSD.
+ */
+function normalizeKrakenAsset(asset: string): string {
+  if (SYMBOL_ALIASES[asset]) return SYMBOL_ALIASES[asset];
+  return asset.length === 4 && /^[XZ]/.test(asset) ? asset.slice(1) : asset;
+}
+
+const krakenLayout: CsvLayout = {
+  id: "kraken",
+  detect: (header) =>
+    ["txid", "pair", "time", "type", "price", "cost", "fee", "vol"].every(
+      (name) => header.includes(name),
+    ),
+  parseRow(row) {
+    const side = readField(row, "type").toLowerCase();
+    if (side !== "buy" && side !== "sell") {
+      throw new Error(`Unsupported Kraken type "${side}"`);
+    }
+
+    const [base, quote] = splitKrakenPair(readField(row, "pair"));
+    const isUsd = USD_QUOTES.has(quote);
+
+    return {
+      timestamp: readTimestamp(readField(row, "time")),
+      type: side,
+      symbol: normalizeKrakenAsset(base),
+      quantity: readAmount(readField(row, "vol"), "vol"),
+      price: isUsd ? readAmount(readField(row, "price"), "price") : null,
+      fee: isUsd ? readAmount(readField(row, "fee"), "fee") : 0,
+    };
+  },
+};
+
+const binanceLayout: CsvLayout = {
+  id: "binance",
+  detect: (header) =>
+    header.includes("Date(UTC)") &&
+    (header.includes("Pair") || header.includes("Market")),
+  parseRow(row) {
+    const side = readField(row, "Side", "Type").toLowerCase();
+    if (side !== "buy" && side !== "sell") {
+      throw new Error(`Unsupported Binance side "${side}"`);
+    }
+
+    let quantity: number;
+    let base: string;
+    let quote: string;
+    let feeAmount: number;
+    let feeAsset: string;
+
+    if (row.Executed !== undefined) {
+      // Current export: Pair "BTCUSDT", Executed "0.5BTC", Amount
+      // "25000USDT", Fee "0.1USDT"
+      [, quote] = readAmountWithAsset(readField(row, "Amount"), "Amount");
+      const pair = readOptionalField(row, "Pair").toUpperCase();
+      const pairBase = pair.endsWith(quote) ? pair.slice(0, -quote.length) : "";
+      [quantity, base] = readAmountWithAsset(
+        readField(row, "Executed"),
+        "Executed",
+        [pairBase],
+      );
+      [feeAmount, feeAsset] = readAmountWithAsset(
+        readField(row, "Fee"),
+        "Fee",
+        [base, quote],
+      );
+    } else {
+      // Older export: Market "BTCUSDT", Amount (base), Fee + Fee Coin
+      const market = readField(row, "Market").toUpperCase();
+      quote = [...USD_QUOTES].find((q) => market.endsWith(q)) ?? "";
+      base = quote ? market.slice(0, -quote.length) : market;
+      quantity = readAmount(readField(row, "Amount"), "Amount");
+      feeAmount = readAmount(readOptionalField(row, "Fee") || "0", "Fee");
+      feeAsset = readOptionalField(row, "Fee Coin").toUpperCase();
+    }
+
+    const isUsd = USD_QUOTES.has(quote);
+    const price = isUsd ? readAmount(readField(row, "Price"), "Price") : null;
+
+    // Fees paid in the quote are USD; fees in the base are valued at the fill
+    let fee = 0;
+    if (price !== null && feeAsset === quote) fee = feeAmount;
+    else if (price !== null && feeAsset === base) fee = feeAmount * price;
+
+    return {
+      timestamp: readTimestamp(readField(row, "Date(UTC)")),
+      type: side,
+      symbol: base,
+      quantity,
+      price,
+      fee,
+    };
+  },
+};
+
+const LAYOUTS = [nativeLayout, coinbaseLayout, krakenLayout, binanceLayout];
+
+// ─────────────────────────────────────────────────────────────
+// Import
+// ─────────────────────────────────────────────────────────────
+
+// Lowercase CoinGecko symbol of an exchange symbol ("XBT" → "btc")
+function coinSymbol(symbol: string): string {
+  const upper = symbol.toUpperCase();
+  return (SYMBOL_ALIASES[upper] ?? upper).toLowerCase();
+}
+
+/**
+ * Map an exchange symbol (or a CoinGecko id) to a CoinGecko id.
+ * Symbols are ambiguous, so the best ranked coin wins ("coins" is ranked).
+ */
+function resolveCoinId(symbol: string, coins: CoinRef[]): string | null {
+  const lower = symbol.toLowerCase();
+  if (coins.some((coin) => coin.id === lower)) return lower;
+
+  const target = coinSymbol(symbol);
+  return coins.find((coin) => coin.symbol.toLowerCase() === target)?.id ?? null;
+}
+
+type LayoutRows = {
+  layout: CsvLayout;
+  rows: { line: number; raw: string; row: Row }[];
+};
+
+/**
+ * Detect the layout and key the rows below the header by column name.
+ * Coinbase exports start with a few lines of account info, so the header
+ * is the first row a layout recognizes. Null when no layout matches.
+ */
+function readLayoutRows(text: string): LayoutRows | null {
+  const lines = parseCsv(text);
+  const headerIdx = lines.findIndex((line) =>
+    LAYOUTS.some((layout) => layout.detect(line.cells.map((c) => c.trim()))),
+  );
+  if (headerIdx < 0) return null;
+
+  const header = lines[headerIdx].cells.map((cell) => cell.trim());
+  return {
+    layout: LAYOUTS.find((item) => item.detect(header)) as CsvLayout,
+    rows: lines.slice(headerIdx + 1).map(({ line, cells, raw }) => ({
+      line,
+      raw,
+      row: Object.fromEntries(
+        header.map((name, idx) => [name, cells[idx] ?? ""]),
+      ),
+    })),
+  };
+}
+
+/**
+ * Coins the readable rows of an export refer to, as lowercase CoinGecko
+ * symbols (or ids): what "coins" has to cover for importLedgerCsv.
+ */
+export function readLedgerCsvSymbols(text: string): string[] {
+  const csv = readLayoutRows(text);
+  if (!csv) return [];
+
+  const symbols = new Set<string>();
+  for (const { row } of csv.rows) {
+    try {
+      symbols.add(coinSymbol(csv.layout.parseRow(row).symbol));
+    } catch {
+      // Reported by importLedgerCsv
+    }
+  }
+  return [...symbols];
+}
+
+/**
+ * Parse an exchange export, mapping its symbols to the ids of "coins".
+ */
+export function importLedgerCsv(
+  text: string,
+  coins: CoinRef[],
+): CsvImportResult {
+  const csv = readLayoutRows(text);
+  if (!csv) {
+    return {
+      layout: null,
+      transactions: [],
+      errors: [{ line: 1, message: "Unrecognized CSV layout" }],
+    };
+  }
+
+  const { layout } = csv;
+  const transactions: Transaction[] = [];
+  const errors: CsvImportResult["errors"] = [];
+  // Identical rows (same fill listed twice) still get distinct ids
+  const seen = new Map<string, number>();
+
+  for (const { line, raw, row } of csv.rows) {
+    try {
+      const parsed = layout.parseRow(row);
+      const coinId = resolveCoinId(parsed.symbol, coins);
+      if (!coinId) throw new Error(`Unknown coin "${parsed.symbol}"`);
+
+      const occurrence = (seen.get(raw) ?? 0) + 1;
+      seen.set(raw, occurrence);
+
+      transactions.push({
+        id: createHash("sha1")
+          .update(`${layout.id}:${occurrence}:${raw}`)
+          .digest("hex")
+          .slice(0, 16),
+        timestamp: parsed.timestamp,
+        type: parsed.type,
+        coinId,
+        quantity: parsed.quantity,
+        price: parsed.price,
+        fee: parsed.fee,
+        source: layout.id,
+      });
+    } catch (error) {
+      errors.push({
+        line,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return { layout: layout.id, transactions, errors };
+}
@@ -0,0 +1,71 @@
+/**
+ * Persistence of ledger transactions in the local JSON store.
+ */
+
+import { readCollection, updateCollection } from "@/lib/store";
+import type { Transaction } from "@/types/ledger";
+
+const COLLECTION = "ledger";
+
+const TYPES = new Set(["buy", "sell", "transfer", "fee"]);
+
+function isTransaction(value: unknown): value is Transaction {
+  if (typeof value !== "object" || value === null) return false;
+  const item = value as Record<string, unknown>;
+
+  return (
+    typeof item.id === "string" &&
+    typeof item.timestamp === "number" &&
+    typeof item.type === "string" &&
+    TYPES.has(item.type) &&
+    typeof item.coinId === "string" &&
+    typeof item.quantity === "number" &&
+    (item.price === null || typeof item.price === "number") &&
+    typeof item.fee === "number" &&
+    typeof item.source === "string"
+  );
+}
+
+function parseTransactions(json: unknown): Transaction[] {
+  if (!Array.isArray(json) || !json.every(isTransaction)) {
+    throw new TypeError("Expected an array of transactions");
+  }
+  return json;
+}
+
+/**
+ * All transactions, oldest first.
+ */
+export async function listTransactions(): Promise<Transaction[]> {
+  const transactions = await readCollection(COLLECTION, parseTransactions, []);
+  return [...transactions].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Append imported transactions, skipping ids already in the ledger.
+ * Returns how many were added.
+ */
+export async function appendTransactions(
+  transactions: Transaction[],
+): Promise<number> {
+  let added = 0;
+
+  await updateCollection(COLLECTION, parseTransactions, [], (current) => {
+    const ids = new Set(current.map((tx) => tx.id));
+    const fresh = transactions.filter((tx) => !ids.has(tx.id));
+    added = fresh.length;
+    return [...current, ...fresh];
+  });
+
+  return added;
+}
+
+export async function removeTransaction(id: string): Promise<void> {
+  await updateCollection(COLLECTION, parseTransactions, [], (current) =>
+    current.filter((tx) => tx.id !== id),
+  );
+}
+
+export async function clearTransactions(): Promise<void> {
+  await updateCollection(COLLECTION, parseTransactions, [], () => []);
+}
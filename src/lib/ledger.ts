@@ -0,0 +1,166 @@
+/**
+ * Ledger valuation: loads the stored transactions, prices fills without a
+ * USD price from market history, and replays them with a cost-basis method.
+ * Also resolves the symbols of a CSV import to coins.
+ *
+ * Shared by the ledger page, the realized gains CSV export and the import.
+ */
+
+import { computeGains, priceTransactions } from "@/lib/cost-basis";
+import {
+  type Fetched,
+  type Freshness,
+  mergeFreshness,
+} from "@/lib/http-client";
+import type { Series } from "@/lib/indicators";
+import type { CoinRef } from "@/lib/ledger-csv";
+import { listTransactions } from "@/lib/ledger-store";
+import {
+  getCoinsByIds,
+  getMarketChart,
+  getTopCoins,
+  searchCoins,
+} from "@/lib/market-data";
+import type { MarketCoin } from "@/types/coingecko";
+import type {
+  CostBasisMethod,
+  LedgerPosition,
+  RealizedGain,
+  Transaction,
+} from "@/types/ledger";
+
+// Imported symbols shared by several coins go to the best ranked of these
+const SYMBOL_RANKING_SIZE = 100;
+
+// Symbols outside the ranking looked up one by one, per import
+const MAX_SYMBOL_LOOKUPS = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ValuedLedgerPosition = LedgerPosition & {
+  name: string;
+  symbol: string;
+  price: number | null;
+  value: number | null;
+  unrealizedGain: number | null;
+};
+
+export type LedgerReport = {
+  method: CostBasisMethod;
+  transactions: Transaction[];
+  // Fills that had no USD price and no market history (valued at 0)
+  unpriced: Transaction[];
+  realized: RealizedGain[];
+  positions: ValuedLedgerPosition[];
+  // Quotes of the coins in the ledger
+  coins: MarketCoin[];
+  freshness: Freshness;
+};
+
+/**
+ * History of each coin with unpriced fills, long enough to cover its oldest
+ * one. A coin whose history fails simply stays unpriced.
+ */
+async function fetchFillPrices(transactions: Transaction[]): Promise<{
+  pricesByCoin: Record<string, Series>;
+  fetched: Fetched<unknown>[];
+}> {
+  const oldestByCoin = new Map<string, number>();
+  for (const tx of transactions) {
+    if (tx.price !== null) continue;
+    const oldest = oldestByCoin.get(tx.coinId);
+    if (oldest === undefined || tx.timestamp < oldest) {
+      oldestByCoin.set(tx.coinId, tx.timestamp);
+    }
+  }
+
+  const coinIds = [...oldestByCoin.keys()];
+  const results = await Promise.allSettled(
+    coinIds.map((id) => {
+      const age = Date.now() - (oldestByCoin.get(id) ?? Date.now());
+      return getMarketChart(id, Math.max(1, Math.ceil(age / DAY_MS) + 1));
+    }),
+  );
+
+  const pricesByCoin: Record<string, Series> = {};
+  const fetched: Fetched<unknown>[] = [];
+  results.forEach((result, idx) => {
+    if (result.status !== "fulfilled") return;
+    pricesByCoin[coinIds[idx]] = result.value.data.prices;
+    fetched.push(result.value);
+  });
+
+  return { pricesByCoin, fetched };
+}
+
+/**
+ * Coins the symbols of a CSV import (see readLedgerCsvSymbols) can map to:
+ * the top coins first, so ambiguous tickers go to the best ranked coin,
+ * then search matches for the symbols outside them. A symbol whose search
+ * fails is left unknown; the import reports its rows.
+ */
+export async function resolveLedgerCoins(
+  symbols: string[],
+): Promise<CoinRef[]> {
+  const ranking = (await getTopCoins(SYMBOL_RANKING_SIZE)).data;
+  const known = new Set(
+    ranking.flatMap((coin) => [coin.id, coin.symbol.toLowerCase()]),
+  );
+  const missing = symbols
+    .filter((symbol) => !known.has(symbol))
+    .slice(0, MAX_SYMBOL_LOOKUPS);
+
+  const results = await Promise.allSettled(
+    missing.map((symbol) => searchCoins(symbol)),
+  );
+  const found = results.flatMap((result, idx) =>
+    result.status === "fulfilled"
+      ? result.value.data.filter(
+          (coin) =>
+            coin.id === missing[idx] ||
+            coin.symbol.toLowerCase() === missing[idx],
+        )
+      : [],
+  );
+
+  return [...ranking, ...found];
+}
+
+export async function loadLedgerReport(
+  method: CostBasisMethod,
+): Promise<LedgerReport> {
+  const stored = await listTransactions();
+  const coinIds = [...new Set(stored.map((tx) => tx.coinId))];
+
+  const [coinsRes, { pricesByCoin, fetched }] = await Promise.all([
+    getCoinsByIds(coinIds),
+    fetchFillPrices(stored),
+  ]);
+  const { transactions, unpriced } = priceTransactions(stored, pricesByCoin);
+  const { realized, positions } = computeGains(transactions, method);
+
+  const coinsById = new Map(coinsRes.data.map((coin) => [coin.id, coin]));
+  const valued = positions.map((position): ValuedLedgerPosition => {
+    const coin = coinsById.get(position.coinId);
+    const value = coin ? position.quantity * coin.current_price : null;
+
+    return {
+      ...position,
+      name: coin?.name ?? position.coinId,
+      symbol: coin?.symbol ?? "",
+      price: coin?.current_price ?? null,
+      value,
+      unrealizedGain: value === null ? null : value - position.costBasis,
+    };
+  });
+
+  return {
+    method,
+    transactions,
+    unpriced,
+    realized,
+    positions: valued,
+    coins: coinsRes.data,
+    freshness: mergeFreshness(coinsRes, ...fetched),
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * Server-side hub behind the live dashboard updates (`/api/live`).
+ *
+ * A single timer polls the data layer every LIVE_POLL_SECONDS while at
+ * least one browser is connected — one global fetch, plus one ranking
+ * fetch per currency someone watches — and fans the diffs out to every
+ * subscriber of that currency. The timer stops with the last subscriber.
+ * Server-only.
+ */
+
+import type { Currency } from "@/lib/currency";
+import { mergeFreshness } from "@/lib/http-client";
+import {
+  buildLiveState,
+  diffLiveState,
+  LIVE_COIN_COUNT,
+  type LiveEvent,
+  type LiveState,
+} from "@/lib/live";
+import { logError } from "@/lib/logger";
+import { getGlobalData, getTopCoins } from "@/lib/market-data";
+
+// Upstream responses are cached for 60s (see http-client), so polling
+// faster than this only re-reads the cache
+export const LIVE_POLL_SECONDS = 15;
+
+export type LiveListener = (event: LiveEvent) => void;
+
+type Channel = {
+  listeners: Set<LiveListener>;
+  // Last state sent, null until the first poll for this currency
+  state: LiveState | null;
+};
+
+const channels = new Map<Currency, Channel>();
+let timer: ReturnType<typeof setInterval> | null = null;
+let polling: Promise<void> | null = null;
+
+function broadcast(channel: Channel, event: LiveEvent) {
+  for (const listener of channel.listeners) listener(event);
+}
+
+async function pollOnce(): Promise<void> {
+  const currencies = [...channels.keys()];
+  if (!currencies.length) return;
+
+  const [globalRes, rankings] = await Promise.all([
+    getGlobalData(),
+    Promise.all(
+      currencies.map((currency) => getTopCoins(LIVE_COIN_COUNT, 1, currency)),
+    ),
+  ]);
+
+  currencies.forEach((currency, idx) => {
+    const channel = channels.get(currency);
+    if (!channel) return;
+
+    const next = buildLiveState(
+      globalRes.data,
+      rankings[idx].data,
+      mergeFreshness(globalRes, rankings[idx]),
+    );
+    const previous = channel.state;
+    channel.state = next;
+
+    if (!previous) {
+      broadcast(channel, { type: "snapshot", state: next });
+      return;
+    }
+    const patch = diffLiveState(previous, next);
+    if (patch) broadcast(channel, { type: "update", patch });
+  });
+}
+
+// A poll requested while one is running shares it
+function poll(): Promise<void> {
+  if (!polling) {
+    polling = pollOnce()
+      .catch((error: unknown) => logError("Live market poll", error))
+      .finally(() => {
+        polling = null;
+      });
+  }
+  return polling;
+}
+
+/**
+ * Receive the live state of "currency": a snapshot as soon as one is
+ * available, then the updates. Returns the unsubscribe function.
+ */
+export function subscribeLive(
+  currency: Currency,
+  listener: LiveListener,
+): () => void {
+  const channel = channels.get(currency) ?? {
+    listeners: new Set(),
+    state: null,
+  };
+  channels.set(currency, channel);
+  channel.listeners.add(listener);
+
+  if (channel.state) {
+    listener({ type: "snapshot", state: channel.state });
+  } else {
+    // A poll already running may have started before this currency was
+    // watched: poll again rather than wait for the next tick
+    void poll().then(() => {
+      if (channels.get(currency) === channel && !channel.state) void poll();
+    });
+  }
+
+  if (!timer) {
+    timer = setInterval(() => void poll(), LIVE_POLL_SECONDS * 1000);
+    timer.unref?.();
+  }
+
+  return () => {
+    channel.listeners.delete(listener);
+    if (!channel.listeners.size) channels.delete(currency);
+
+    if (!channels.size && timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  };
+}
@@ -0,0 +1,146 @@
+/**
+ * Live market state pushed to the dashboard over server-sent events
+ * (`/api/live`), and the diffs between two polls of it.
+ *
+ * The server sends the whole state once per connection ("snapshot"), then
+ * only what changed ("update"): the global fields and the coins whose
+ * quote moved. Pure: shared by the feed (lib/live-feed) and the browser.
+ */
+
+import type { Freshness } from "@/lib/http-client";
+import type { GlobalData, MarketCoin } from "@/types/coingecko";
+
+// Coins streamed: the first page of the dashboard's coins table
+export const LIVE_COIN_COUNT = 25;
+
+// Global fields shown by the KPI cards
+export type LiveGlobal = Pick<
+  GlobalData,
+  | "active_cryptocurrencies"
+  | "total_market_cap"
+  | "total_volume"
+  | "market_cap_percentage"
+  | "market_cap_change_percentage_24h_usd"
+>;
+
+// Fields of a coin that move between polls (names, images don't)
+export type LiveQuote = Pick<
+  MarketCoin,
+  | "id"
+  | "current_price"
+  | "market_cap"
+  | "total_volume"
+  | "price_change_percentage_24h"
+  | "market_cap_rank"
+>;
+
+export type LiveState = Freshness & {
+  global: LiveGlobal;
+  coins: LiveQuote[];
+};
+
+// Changed global fields and coin quotes, with the freshness of the poll
+export type LivePatch = Freshness & {
+  global: Partial<LiveGlobal>;
+  coins: LiveQuote[];
+};
+
+export type LiveEvent =
+  | { type: "snapshot"; state: LiveState }
+  | { type: "update"; patch: LivePatch };
+
+const GLOBAL_FIELDS = [
+  "active_cryptocurrencies",
+  "total_market_cap",
+  "total_volume",
+  "market_cap_percentage",
+  "market_cap_change_percentage_24h_usd",
+] as const satisfies (keyof LiveGlobal)[];
+
+export function buildLiveState(
+  global: GlobalData,
+  coins: MarketCoin[],
+  freshness: Freshness,
+): LiveState {
+  return {
+    stale: freshness.stale,
+    fetchedAt: freshness.fetchedAt,
+    global: Object.fromEntries(
+      GLOBAL_FIELDS.map((field) => [field, global[field]]),
+    ) as LiveGlobal,
+    coins: coins.map((coin) => ({
+      id: coin.id,
+      current_price: coin.current_price,
+      market_cap: coin.market_cap,
+      total_volume: coin.total_volume,
+      price_change_percentage_24h: coin.price_change_percentage_24h,
+      market_cap_rank: coin.market_cap_rank,
+    })),
+  };
+}
+
+// Numbers compare as-is, per-currency records by content
+function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function sameQuote(a: LiveQuote, b: LiveQuote): boolean {
+  return (
+    a.current_price === b.current_price &&
+    a.market_cap === b.market_cap &&
+    a.total_volume === b.total_volume &&
+    a.price_change_percentage_24h === b.price_change_percentage_24h &&
+    a.market_cap_rank === b.market_cap_rank
+  );
+}
+
+/**
+ * What changed from "previous" to "next", or null when nothing did (the
+ * fetch time alone isn't a change). Coins that left the streamed ranking
+ * are not reported: the browser keeps their last quote.
+ */
+export function diffLiveState(
+  previous: LiveState,
+  next: LiveState,
+): LivePatch | null {
+  const global: Partial<LiveGlobal> = {};
+  for (const field of GLOBAL_FIELDS) {
+    if (!sameValue(previous.global[field], next.global[field])) {
+      Object.assign(global, { [field]: next.global[field] });
+    }
+  }
+
+  const before = new Map(previous.coins.map((coin) => [coin.id, coin]));
+  const coins = next.coins.filter((coin) => {
+    const old = before.get(coin.id);
+    return !old || !sameQuote(old, coin);
+  });
+
+  if (
+    !coins.length &&
+    !Object.keys(global).length &&
+    previous.stale === next.stale
+  ) {
+    return null;
+  }
+  return { stale: next.stale, fetchedAt: next.fetchedAt, global, coins };
+}
+
+/**
+ * "state" with "patch" applied: changed quotes replace the old ones, new
+ * coins are appended.
+ */
+export function applyLivePatch(state: LiveState, patch: LivePatch): LiveState {
+  const changed = new Map(patch.coins.map((coin) => [coin.id, coin]));
+  const known = new Set(state.coins.map((coin) => coin.id));
+
+  return {
+    stale: patch.stale,
+    fetchedAt: patch.fetchedAt,
+    global: { ...state.global, ...patch.global },
+    coins: [
+      ...state.coins.map((coin) => changed.get(coin.id) ?? coin),
+      ...patch.coins.filter((coin) => !known.has(coin.id)),
+    ],
+  };
+}
@@ -0,0 +1,12 @@
+/**
+ * Server-side reporting of failures nothing else surfaces: background
+ * jobs, live polls, unexpected API errors. The single place to plug an
+ * error tracker into. Server-only.
+ */
+
+/**
+ * Report "error", prefixed with what was being done ("Alert evaluation").
+ */
+export function logError(context: string, error: unknown): void {
+  console.error(`${context} failed:`, error);
+}
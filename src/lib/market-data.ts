@@ -0,0 +1,186 @@
+/**
+ * Market data access layer.
+ *
+ * All market data flows through a single `MarketDataProvider` so that:
+ *  - the dashboard pages stay clean
+ *  - you can swap API providers in one place (see MARKET_DATA_PROVIDER)
+ *  - the app and its tests can run offline against recorded fixtures
+ */
+
+import { createCoinGeckoProvider } from "@/lib/coingecko";
+import { type Currency, DEFAULT_CURRENCY } from "@/lib/currency";
+import { createFixtureProvider } from "@/lib/fixtures";
+import type { Fetched } from "@/lib/http-client";
+import { rankSearchResults } from "@/lib/search";
+import type {
+  ChartDays,
+  CoinDetail,
+  GlobalData,
+  MarketChart,
+  MarketCoin,
+  OhlcCandle,
+  SearchCoin,
+  SparklineCoin,
+} from "@/types/coingecko";
+
+/**
+ * Contract every market data vendor must implement.
+ * Responses are shaped like CoinGecko's, which the whole UI is built around,
+ * and carry their freshness so widgets can flag stale data.
+ * Prices, market caps and volumes are quoted in "currency"; global data
+ * already carries every currency.
+ */
+export type MarketDataProvider = {
+  name: string;
+  getGlobalData(): Promise<Fetched<GlobalData>>;
+  // 1-based page of "limit" coins each
+  getTopCoins(
+    limit: number,
+    page: number,
+    currency: Currency,
+  ): Promise<Fetched<MarketCoin[]>>;
+  // The listed coins only, by market cap, with 7-day sparklines
+  getCoinsByIds(
+    coinIds: string[],
+    currency: Currency,
+  ): Promise<Fetched<SparklineCoin[]>>;
+  getMarketChart(
+    coinId: string,
+    days: ChartDays,
+    currency: Currency,
+  ): Promise<Fetched<MarketChart>>;
+  getOhlc(
+    coinId: string,
+    days: ChartDays,
+    currency: Currency,
+  ): Promise<Fetched<OhlcCandle[]>>;
+  getCoinDetail(
+    coinId: string,
+    currency: Currency,
+  ): Promise<Fetched<CoinDetail>>;
+  // Coins whose name, symbol or id match "query", in any order
+  searchCoins(query: string): Promise<Fetched<SearchCoin[]>>;
+};
+
+// Register new vendors here — the key is the MARKET_DATA_PROVIDER value.
+const providerFactories: Record<string, () => MarketDataProvider> = {
+  coingecko: () => createCoinGeckoProvider(process.env.COINGECKO_API_URL),
+  fixture: () => createFixtureProvider(process.env.MARKET_DATA_FIXTURES_DIR),
+};
+
+let activeProvider: MarketDataProvider | null = null;
+
+/**
+ * Resolve the configured provider (defaults to the live CoinGecko API).
+ */
+export function getMarketDataProvider(): MarketDataProvider {
+  if (activeProvider) return activeProvider;
+
+  const name = process.env.MARKET_DATA_PROVIDER ?? "coingecko";
+  const factory = providerFactories[name];
+
+  if (!factory) {
+    throw new Error(
+      `Unknown MARKET_DATA_PROVIDER "${name}" (expected one of: ${Object.keys(
+        providerFactories,
+      ).join(", ")})`,
+    );
+  }
+
+  activeProvider = factory();
+  return activeProvider;
+}
+
+// Provider coin ids: lowercase words joined by dashes ("usd-coin", "1inch")
+const COIN_ID_PATTERN = /^[a-z0-9]+(?:[-._][a-z0-9]+)*$/;
+const MAX_COIN_ID_LENGTH = 100;
+
+/**
+ * Whether "value" is shaped like a coin id. Says nothing about whether the
+ * provider knows it (see getCoinsByIds).
+ */
+export function isCoinIdFormat(value: unknown): value is string {
+  return (
+    typeof value === "string" &&
+    value.length <= MAX_COIN_ID_LENGTH &&
+    COIN_ID_PATTERN.test(value)
+  );
+}
+
+/**
+ * Fetch global crypto market data.
+ */
+export function getGlobalData(): Promise<Fetched<GlobalData>> {
+  return getMarketDataProvider().getGlobalData();
+}
+
+/**
+ * Fetch top N coins by market cap.
+ * "page" pages through the ranking N coins at a time (page 2 = ranks N+1…2N).
+ */
+export function getTopCoins(
+  limit = 10,
+  page = 1,
+  currency: Currency = DEFAULT_CURRENCY,
+): Promise<Fetched<MarketCoin[]>> {
+  return getMarketDataProvider().getTopCoins(limit, page, currency);
+}
+
+/**
+ * Fetch specific coins (e.g. a watchlist) with their 7-day sparkline.
+ * An empty list is answered without a request.
+ */
+export function getCoinsByIds(
+  coinIds: string[],
+  currency: Currency = DEFAULT_CURRENCY,
+): Promise<Fetched<SparklineCoin[]>> {
+  if (!coinIds.length) {
+    return Promise.resolve({ data: [], stale: false, fetchedAt: Date.now() });
+  }
+  return getMarketDataProvider().getCoinsByIds(coinIds, currency);
+}
+
+/**
+ * Fetch market chart series for a specific coin (e.g. "bitcoin").
+ * "days" defines how many days back to fetch.
+ */
+export function getMarketChart(
+  coinId = "bitcoin",
+  days: ChartDays = 30,
+  currency: Currency = DEFAULT_CURRENCY,
+): Promise<Fetched<MarketChart>> {
+  return getMarketDataProvider().getMarketChart(coinId, days, currency);
+}
+
+/**
+ * Fetch OHLC candles for a specific coin.
+ * Candle width is chosen upstream from "days" (30 min → 4 days).
+ */
+export function getOhlc(
+  coinId = "bitcoin",
+  days: ChartDays = 30,
+  currency: Currency = DEFAULT_CURRENCY,
+): Promise<Fetched<OhlcCandle[]>> {
+  return getMarketDataProvider().getOhlc(coinId, days, currency);
+}
+
+/**
+ * Fetch rank, supply and ATH/ATL stats for a single coin.
+ */
+export function getCoinDetail(
+  coinId: string,
+  currency: Currency = DEFAULT_CURRENCY,
+): Promise<Fetched<CoinDetail>> {
+  return getMarketDataProvider().getCoinDetail(coinId, currency);
+}
+
+/**
+ * Search coins by name or symbol, best matches first
+ * (exact symbol matches lead, see `rankSearchResults`).
+ */
+export async function searchCoins(
+  query: string,
+): Promise<Fetched<SearchCoin[]>> {
+  const result = await getMarketDataProvider().searchCoins(query.trim());
+  return { ...result, data: rankSearchResults(result.data, query) };
+}
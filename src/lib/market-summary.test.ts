@@ -0,0 +1,189 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildGlobalMetrics,
+  buildMarketSummary,
+  OTHERS_ID,
+} from "@/lib/market-summary";
+import type { GlobalData, MarketCoin } from "@/types/coingecko";
+
+function coin(
+  id: string,
+  marketCap: number,
+  change24h: number | null,
+): MarketCoin {
+  return {
+    id,
+    symbol: id,
+    name: id.toUpperCase(),
+    image: "",
+    current_price: 1,
+    market_cap: marketCap,
+    total_volume: 0,
+    price_change_percentage_24h: change24h,
+    price_change_percentage_1h: null,
+    price_change_percentage_7d: null,
+    market_cap_rank: null,
+  };
+}
+
+function globalData(totalMarketCap: Record<string, number>): GlobalData {
+  return {
+    active_cryptocurrencies: 0,
+    markets: 0,
+    total_market_cap: totalMarketCap,
+    total_volume: {},
+    market_cap_percentage: {},
+    market_cap_change_percentage_24h_usd: 0,
+  };
+}
+
+const COINS = [
+  coin("a", 400, 5),
+  coin("b", 200, -3),
+  coin("c", 100, 0),
+  coin("d", 50, 12),
+  coin("e", 30, -8),
+  coin("f", 20, null),
+];
+
+const ids = (coins: MarketCoin[]) => coins.map((item) => item.id);
+
+describe("buildMarketSummary", () => {
+  it("counts breadth over the coins with a 24h change", () => {
+    const { breadth } = buildMarketSummary(COINS, globalData({ usd: 1000 }));
+
+    expect(breadth).toEqual({
+      coins: 5,
+      advancers: 2,
+      decliners: 2,
+      unchanged: 1,
+      avgChange24h: 1.2,
+      medianChange24h: 0,
+    });
+  });
+
+  it("averages the two middle changes for an even count", () => {
+    const { breadth } = buildMarketSummary(
+      [coin("a", 1, 1), coin("b", 1, 4), coin("c", 1, -2), coin("d", 1, 10)],
+      globalData({}),
+    );
+
+    expect(breadth.medianChange24h).toBe(2.5);
+  });
+
+  it("lists gainers and losers strongest first, up to moversCount", () => {
+    const summary = buildMarketSummary(COINS, globalData({ usd: 1000 }), {
+      moversCount: 1,
+    });
+
+    expect(ids(summary.gainers)).toEqual(["d"]);
+    expect(ids(summary.losers)).toEqual(["e"]);
+    expect(summary.topGainer?.id).toBe("d");
+    expect(summary.topLoser?.id).toBe("e");
+  });
+
+  it("leaves flat coins out of both lists", () => {
+    const summary = buildMarketSummary(COINS, globalData({ usd: 1000 }), {
+      moversCount: 10,
+    });
+
+    expect(ids(summary.gainers)).toEqual(["d", "a"]);
+    expect(ids(summary.losers)).toEqual(["e", "b"]);
+  });
+
+  it("has no top movers when nothing moved", () => {
+    const summary = buildMarketSummary(
+      [coin("a", 1, 0), coin("b", 1, null)],
+      globalData({}),
+    );
+
+    expect(summary.gainers).toEqual([]);
+    expect(summary.losers).toEqual([]);
+    expect(summary.topGainer).toBeNull();
+    expect(summary.topLoser).toBeNull();
+    expect(summary.breadth.coins).toBe(1);
+  });
+
+  it("puts the rest of the global market cap in an Others slice", () => {
+    const { marketShare } = buildMarketSummary(
+      COINS,
+      globalData({ usd: 1000 }),
+      { shareCount: 2 },
+    );
+
+    expect(marketShare).toEqual([
+      { id: "a", name: "A", share: 40 },
+      { id: "b", name: "B", share: 20 },
+      { id: OTHERS_ID, name: "Others", share: 40 },
+    ]);
+  });
+
+  it("uses the global total of the selected currency", () => {
+    const { marketShare } = buildMarketSummary(
+      COINS,
+      globalData({ usd: 1000, eur: 800 }),
+      { currency: "eur", shareCount: 2 },
+    );
+
+    expect(marketShare.map((slice) => slice.share)).toEqual([50, 25, 25]);
+  });
+
+  it("falls back to shares among the listed coins without a global total", () => {
+    const totals: Record<string, number>[] = [{}, { usd: 0 }, { usd: 100 }];
+    for (const total of totals) {
+      const { marketShare } = buildMarketSummary(COINS, globalData(total), {
+        shareCount: 2,
+      });
+
+      expect(marketShare.map((slice) => slice.id)).toEqual(["a", "b"]);
+      expect(marketShare[0].share).toBeCloseTo(400 / 6);
+      expect(marketShare[1].share).toBeCloseTo(200 / 6);
+    }
+  });
+
+  it("has no market share when no coin has a market cap", () => {
+    const { marketShare } = buildMarketSummary(
+      [coin("a", 0, 1)],
+      globalData({}),
+    );
+
+    expect(marketShare).toEqual([]);
+  });
+});
+
+describe("buildGlobalMetrics", () => {
+  const data: GlobalData = {
+    active_cryptocurrencies: 12000,
+    markets: 900,
+    total_market_cap: { usd: 2000, eur: 1800 },
+    total_volume: { usd: 100, eur: 90 },
+    market_cap_percentage: { btc: 52.5, eth: 17 },
+    market_cap_change_percentage_24h_usd: -1.5,
+  };
+
+  it("picks the totals of the selected currency", () => {
+    expect(buildGlobalMetrics(data, "eur")).toEqual({
+      currency: "eur",
+      totalMarketCap: 1800,
+      totalVolume: 90,
+      marketCapChange24h: -1.5,
+      marketCapChange24hCurrency: "usd",
+      btcDominance: 52.5,
+      ethDominance: 17,
+      activeCryptocurrencies: 12000,
+      markets: 900,
+    });
+  });
+
+  it("has no totals or dominance the provider didn't report", () => {
+    const metrics = buildGlobalMetrics(
+      { ...data, market_cap_percentage: {} },
+      "jpy",
+    );
+
+    expect(metrics.totalMarketCap).toBeNull();
+    expect(metrics.totalVolume).toBeNull();
+    expect(metrics.btcDominance).toBeNull();
+    expect(metrics.ethDominance).toBeNull();
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Market-wide summary of the top coins: who moved most in 24h, how broad
+ * the move was, and how the total market cap splits between them. Also the
+ * headline figures of the global data shown by the dashboard KPIs.
+ *
+ * Pure: takes what the dashboard (or an API route) already fetched and
+ * never calls the market data layer itself.
+ */
+
+import { type Currency, DEFAULT_CURRENCY } from "@/lib/currency";
+import type { GlobalData, MarketCoin } from "@/types/coingecko";
+
+export type MarketShareSlice = {
+  // Coin id, or OTHERS_ID for the rest of the market
+  id: string;
+  name: string;
+  // Share of the total market cap (%)
+  share: number;
+};
+
+export type MarketBreadth = {
+  // Coins with a 24h change (the sample the stats below are computed on)
+  coins: number;
+  advancers: number;
+  decliners: number;
+  unchanged: number;
+  avgChange24h: number;
+  medianChange24h: number;
+};
+
+export type MarketSummary = {
+  // Strongest rises first, only coins that rose
+  gainers: MarketCoin[];
+  // Steepest drops first, only coins that fell
+  losers: MarketCoin[];
+  topGainer: MarketCoin | null;
+  topLoser: MarketCoin | null;
+  breadth: MarketBreadth;
+  // First "shareCount" coins, then "Others" when the global total is known
+  marketShare: MarketShareSlice[];
+};
+
+export type MarketSummaryOptions = {
+  // Currency the coins are quoted in; selects the global total
+  currency?: Currency;
+  // Coins with their own market share slice
+  shareCount?: number;
+  // Length of the gainers / losers lists
+  moversCount?: number;
+};
+
+export const OTHERS_ID = "others";
+
+function median(values: number[]): number {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function computeBreadth(changes: number[]): MarketBreadth {
+  return {
+    coins: changes.length,
+    advancers: changes.filter((change) => change > 0).length,
+    decliners: changes.filter((change) => change < 0).length,
+    unchanged: changes.filter((change) => change === 0).length,
+    avgChange24h: changes.length
+      ? changes.reduce((sum, change) => sum + change, 0) / changes.length
+      : 0,
+    medianChange24h: median(changes),
+  };
+}
+
+/**
+ * Shares of the global market cap. Without a global total in "currency"
+ * (or a zero one), falls back to shares among the listed coins only.
+ */
+function computeMarketShare(
+  coins: MarketCoin[],
+  globalData: GlobalData,
+  currency: Currency,
+  shareCount: number,
+): MarketShareSlice[] {
+  const top = coins.slice(0, shareCount);
+  const topCap = top.reduce((sum, coin) => sum + (coin.market_cap || 0), 0);
+  const globalCap = globalData.total_market_cap[currency];
+  const total = globalCap && globalCap >= topCap ? globalCap : topCap;
+  if (!total) return [];
+
+  const slices: MarketShareSlice[] = top.map((coin) => ({
+    id: coin.id,
+    name: coin.name,
+    share: ((coin.market_cap || 0) / total) * 100,
+  }));
+
+  if (total > topCap) {
+    slices.push({
+      id: OTHERS_ID,
+      name: "Others",
+      share: ((total - topCap) / total) * 100,
+    });
+  }
+  return slices;
+}
+
+/**
+ * Summarize "topCoins" (as ranked by market cap) against the global market.
+ * Coins without a 24h change are left out of the movers and breadth.
+ */
+export function buildMarketSummary(
+  topCoins: MarketCoin[],
+  globalData: GlobalData,
+  {
+    currency = DEFAULT_CURRENCY,
+    shareCount = 5,
+    moversCount = 3,
+  }: MarketSummaryOptions = {},
+): MarketSummary {
+  const withChange = topCoins.filter(
+    (coin) => typeof coin.price_change_percentage_24h === "number",
+  );
+  const change = (coin: MarketCoin) => coin.price_change_percentage_24h ?? 0;
+
+  // One sort, strongest first: gainers from the front, losers from the back
+  const byChange = [...withChange].sort((a, b) => change(b) - change(a));
+  const gainers = byChange
+    .filter((coin) => change(coin) > 0)
+    .slice(0, moversCount);
+  const losers = byChange
+    .filter((coin) => change(coin) < 0)
+    .reverse()
+    .slice(0, moversCount);
+
+  return {
+    gainers,
+    losers,
+    topGainer: gainers[0] ?? null,
+    topLoser: losers[0] ?? null,
+    breadth: computeBreadth(withChange.map(change)),
+    marketShare: computeMarketShare(topCoins, globalData, currency, shareCount),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Global KPIs
+// ─────────────────────────────────────────────────────────────
+
+export type GlobalMetrics = {
+  currency: Currency;
+  // Totals in "currency" (null when the provider has none for it)
+  totalMarketCap: number | null;
+  totalVolume: number | null;
+  // % change of the total market cap over 24h. The provider only reports it
+  // for the USD total, so it is always measured in USD.
+  marketCapChange24h: number;
+  marketCapChange24hCurrency: "usd";
+  // Share of the total market cap (%)
+  btcDominance: number | null;
+  ethDominance: number | null;
+  activeCryptocurrencies: number;
+  markets: number;
+};
+
+/**
+ * The figures the KPI cards show, in the selected currency.
+ */
+export function buildGlobalMetrics(
+  globalData: GlobalData,
+  currency: Currency = DEFAULT_CURRENCY,
+): GlobalMetrics {
+  return {
+    currency,
+    totalMarketCap: globalData.total_market_cap[currency] ?? null,
+    totalVolume: globalData.total_volume[currency] ?? null,
+    marketCapChange24h: globalData.market_cap_change_percentage_24h_usd,
+    marketCapChange24hCurrency: "usd",
+    btcDominance: globalData.market_cap_percentage.btc ?? null,
+    ethDominance: globalData.market_cap_percentage.eth ?? null,
+    activeCryptocurrencies: globalData.active_cryptocurrencies,
+    markets: globalData.markets,
+  };
+}
@@ -3,63 +3,98 @@
  * These functions NEVER call any API, they only shape data for the UI.
  */
 
+import { DEFAULT_TIME_ZONE, resampleSeries } from "@/lib/resample";
 import type { MarketCoin } from "@/types/coingecko";
 
+export type DayMove = {
+  // Local midnight starting the day
+  ts: number;
+  close: number;
+  // % change of the close vs the previous day's close
+  changePct: number;
+  direction: "up" | "down" | "flat";
+};
+
+export type Streak = {
+  direction: "up" | "down";
+  length: number;
+};
+
+export type GreenDayStats = {
+  greenRate: number;
+  up: number;
+  down: number;
+  days: DayMove[];
+  // Run of same-direction days ending with the latest day (null when flat)
+  currentStreak: Streak | null;
+  longestUpStreak: number;
+  longestDownStreak: number;
+};
+
 /**
- * Build a simple bar representation from a price series.
- * We downsample to "maxPoints" to avoid too many bars.
+ * "Green days" from true daily closes: the series is resampled into calendar
+ * days in "timeZone", and a day is green when it closed above the previous
+ * day's close. The first day only serves as the baseline, and the latest day
+ * may still be in progress.
  */
-export function buildPriceBars(
+export function computeGreenDays(
   prices: [number, number][],
-  maxPoints = 12,
-): { label: string; value: number; height: number }[] {
-  if (!prices.length) return [];
-
-  const step = Math.max(1, Math.floor(prices.length / maxPoints));
-  const sampled = prices.filter((_, idx) => idx % step === 0).slice(-maxPoints);
+  timeZone = DEFAULT_TIME_ZONE,
+): GreenDayStats {
+  const closes = resampleSeries(prices, "day", timeZone);
+  const days: DayMove[] = [];
 
-  const values = sampled.map(([, price]) => price);
-  const maxValue = Math.max(...values);
+  for (let i = 1; i < closes.length; i++) {
+    const prev = closes[i - 1][4];
+    const [ts, , , , close] = closes[i];
+    const diff = close - prev;
 
-  return sampled.map(([ts, price]) => {
-    const label = new Date(ts).toLocaleDateString("en-US", {
-      month: "short",
-      day: "numeric",
+    days.push({
+      ts,
+      close,
+      changePct: prev ? (diff / prev) * 100 : 0,
+      direction: diff > 0 ? "up" : diff < 0 ? "down" : "flat",
     });
-    const height = maxValue ? Math.round((price / maxValue) * 100) : 0;
-    return { label, value: price, height };
-  });
-}
-
-/**
- * Compute "green days" rate based on price movements.
- * Green = price increased since previous data point.
- */
-export function computeGreenRate(prices: [number, number][]): {
-  greenRate: number;
-  up: number;
-  down: number;
-} {
-  if (prices.length < 2) {
-    return { greenRate: 0, up: 0, down: 0 };
   }
 
   let up = 0;
   let down = 0;
+  let longestUpStreak = 0;
+  let longestDownStreak = 0;
+  let streak: Streak | null = null;
 
-  for (let i = 1; i < prices.length; i++) {
-    const prev = prices[i - 1][1];
-    const curr = prices[i][1];
-    const diff = curr - prev;
+  for (const day of days) {
+    if (day.direction === "flat") {
+      streak = null;
+      continue;
+    }
 
-    if (diff > 0) up += 1;
-    else if (diff < 0) down += 1;
+    if (day.direction === "up") up += 1;
+    else down += 1;
+
+    const length: number =
+      streak && streak.direction === day.direction ? streak.length + 1 : 1;
+    streak = { direction: day.direction, length };
+
+    if (day.direction === "up") {
+      longestUpStreak = Math.max(longestUpStreak, length);
+    } else {
+      longestDownStreak = Math.max(longestDownStreak, length);
+    }
   }
 
   const total = up + down;
   const greenRate = total ? (up / total) * 100 : 0;
 
-  return { greenRate, up, down };
+  return {
+    greenRate,
+    up,
+    down,
+    days,
+    currentStreak: streak,
+    longestUpStreak,
+    longestDownStreak,
+  };
 }
 
 /**
@@ -67,15 +102,9 @@ export function computeGreenRate(prices: [number, number][]): {
  */
 export function buildVolumeBars(
   coins: MarketCoin[],
-): { label: string; value: number; height: number }[] {
-  if (!coins.length) return [];
-
-  const volumes = coins.map((coin) => coin.total_volume || 0);
-  const maxVolume = Math.max(...volumes);
-
+): { label: string; value: number }[] {
   return coins.map((coin) => ({
     label: coin.symbol.toUpperCase(),
-    value: coin.total_volume,
-    height: maxVolume ? Math.round((coin.total_volume / maxVolume) * 100) : 0,
+    value: coin.total_volume || 0,
   }));
 }
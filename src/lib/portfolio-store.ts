@@ -0,0 +1,53 @@
+/**
+ * Persistence of portfolio holdings in the local JSON store.
+ */
+
+import { randomUUID } from "node:crypto";
+import { readCollection, updateCollection } from "@/lib/store";
+import type { Holding } from "@/types/portfolio";
+
+const COLLECTION = "portfolio";
+
+function isHolding(value: unknown): value is Holding {
+  if (typeof value !== "object" || value === null) return false;
+  const item = value as Record<string, unknown>;
+
+  return (
+    typeof item.id === "string" &&
+    typeof item.coinId === "string" &&
+    typeof item.quantity === "number" &&
+    typeof item.costBasis === "number"
+  );
+}
+
+function parseHoldings(json: unknown): Holding[] {
+  if (!Array.isArray(json) || !json.every(isHolding)) {
+    throw new TypeError("Expected an array of holdings");
+  }
+  return json;
+}
+
+export function listHoldings(): Promise<Holding[]> {
+  return readCollection(COLLECTION, parseHoldings, []);
+}
+
+export async function addHolding(input: Omit<Holding, "id">): Promise<Holding> {
+  const holding: Holding = { id: randomUUID(), ...input };
+  await updateCollection(COLLECTION, parseHoldings, [], (holdings) => [
+    ...holdings,
+    holding,
+  ]);
+  return holding;
+}
+
+export async function updateHolding(holding: Holding): Promise<void> {
+  await updateCollection(COLLECTION, parseHoldings, [], (holdings) =>
+    holdings.map((item) => (item.id === holding.id ? holding : item)),
+  );
+}
+
+export async function removeHolding(id: string): Promise<void> {
+  await updateCollection(COLLECTION, parseHoldings, [], (holdings) =>
+    holdings.filter((item) => item.id !== id),
+  );
+}
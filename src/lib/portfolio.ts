@@ -0,0 +1,161 @@
+/**
+ * Portfolio valuation helpers.
+ * Pure functions: holdings + market data in, numbers for the UI out.
+ */
+
+import type { Series } from "@/lib/indicators";
+import type { MarketCoin } from "@/types/coingecko";
+import type {
+  Holding,
+  PortfolioPosition,
+  PortfolioSummary,
+} from "@/types/portfolio";
+
+/**
+ * Value every holding at its coin's current price, with unrealized P&L,
+ * 24h P&L (from `price_change_percentage_24h`) and allocation.
+ */
+export function valuePortfolio(
+  holdings: Holding[],
+  coins: MarketCoin[],
+): PortfolioSummary {
+  const coinsById = new Map(coins.map((coin) => [coin.id, coin]));
+
+  const positions = holdings.map((holding): PortfolioPosition => {
+    const coin = coinsById.get(holding.coinId);
+    if (!coin) {
+      return {
+        holding,
+        name: holding.coinId,
+        symbol: "",
+        image: null,
+        price: null,
+        value: null,
+        unrealizedPnl: null,
+        unrealizedPnlPct: null,
+        pnl24h: null,
+        allocation: 0,
+      };
+    }
+
+    const value = holding.quantity * coin.current_price;
+    const unrealizedPnl = value - holding.costBasis;
+    const change24h = coin.price_change_percentage_24h ?? 0;
+    // Value 24h ago = value / (1 + change)
+    const pnl24h = value - value / (1 + change24h / 100);
+
+    return {
+      holding,
+      name: coin.name,
+      symbol: coin.symbol,
+      image: coin.image,
+      price: coin.current_price,
+      value,
+      unrealizedPnl,
+      unrealizedPnlPct: holding.costBasis
+        ? (unrealizedPnl / holding.costBasis) * 100
+        : null,
+      pnl24h,
+      allocation: 0,
+    };
+  });
+
+  const priced = positions.filter((position) => position.value !== null);
+  const totalValue = priced.reduce((sum, p) => sum + (p.value ?? 0), 0);
+  const totalCost = priced.reduce((sum, p) => sum + p.holding.costBasis, 0);
+  const pnl24h = priced.reduce((sum, p) => sum + (p.pnl24h ?? 0), 0);
+
+  for (const position of priced) {
+    position.allocation = totalValue
+      ? ((position.value ?? 0) / totalValue) * 100
+      : 0;
+  }
+
+  return {
+    positions,
+    totalValue,
+    totalCost,
+    unrealizedPnl: totalValue - totalCost,
+    unrealizedPnlPct: totalCost
+      ? ((totalValue - totalCost) / totalCost) * 100
+      : 0,
+    pnl24h,
+    pnl24hPct: totalValue - pnl24h ? (pnl24h / (totalValue - pnl24h)) * 100 : 0,
+  };
+}
+
+/**
+ * Allocation per coin (several holdings of one coin are merged),
+ * largest first, in the `{ id, name, share }` shape of MarketShareOverview.
+ */
+export function buildAllocation(
+  positions: PortfolioPosition[],
+): { id: string; name: string; share: number }[] {
+  const byCoin = new Map<string, { id: string; name: string; share: number }>();
+
+  for (const position of positions) {
+    if (!position.allocation) continue;
+    const id = position.holding.coinId;
+    const item = byCoin.get(id) ?? { id, name: position.name, share: 0 };
+    item.share += position.allocation;
+    byCoin.set(id, item);
+  }
+
+  return [...byCoin.values()].sort((a, b) => b.share - a.share);
+}
+
+/**
+ * Value of the current holdings over time: Σ quantity × price.
+ *
+ * Uses the densest price series as the timeline; other coins contribute
+ * their latest price at or before each timestamp. Timestamps before every
+ * coin has a price are skipped so the line never jumps when a coin "joins".
+ */
+export function buildPortfolioHistory(
+  holdings: Holding[],
+  pricesByCoin: Record<string, Series>,
+): Series {
+  const held = holdings.filter((holding) => pricesByCoin[holding.coinId]);
+  if (!held.length) return [];
+
+  const coinIds = [...new Set(held.map((holding) => holding.coinId))];
+  const quantities = new Map<string, number>();
+  for (const holding of held) {
+    quantities.set(
+      holding.coinId,
+      (quantities.get(holding.coinId) ?? 0) + holding.quantity,
+    );
+  }
+
+  const timeline = coinIds
+    .map((id) => pricesByCoin[id])
+    .reduce((densest, series) =>
+      series.length > densest.length ? series : densest,
+    );
+  const cursors = new Map(coinIds.map((id) => [id, -1]));
+  const history: Series = [];
+
+  for (const [ts] of timeline) {
+    let total = 0;
+    let complete = true;
+
+    for (const id of coinIds) {
+      const series = pricesByCoin[id];
+      let cursor = cursors.get(id) ?? -1;
+      while (cursor + 1 < series.length && series[cursor + 1][0] <= ts) {
+        cursor += 1;
+      }
+      cursors.set(id, cursor);
+
+      if (cursor < 0) {
+        complete = false;
+        break;
+      }
+      total += series[cursor][1] * (quantities.get(id) ?? 0);
+    }
+
+    if (complete) history.push([ts, total]);
+  }
+
+  return history;
+}
@@ -0,0 +1,47 @@
+/**
+ * Per-browser display preferences, kept in cookies so every server
+ * component sees them without threading search params through each link.
+ * Server-only (reads the request); set them with the actions in
+ * `src/app/(crypto)/actions.ts`.
+ */
+
+import { cookies, headers } from "next/headers";
+import { CURRENCY_COOKIE, type Currency, parseCurrency } from "@/lib/currency";
+import {
+  DEFAULT_LOCALE,
+  LOCALE_COOKIE,
+  negotiateLocale,
+  parseLocale,
+} from "@/lib/format";
+import { parseTheme, THEME_COOKIE, type Theme } from "@/lib/theme";
+
+/**
+ * Quote currency selected with the currency picker (USD by default).
+ */
+export async function getCurrencyPreference(): Promise<Currency> {
+  const store = await cookies();
+  return parseCurrency(store.get(CURRENCY_COOKIE)?.value);
+}
+
+/**
+ * Locale selected with the locale picker; until one is picked, the best
+ * match of the browser's Accept-Language, else en-US.
+ */
+export async function getLocalePreference(): Promise<string> {
+  const selected = (await cookies()).get(LOCALE_COOKIE)?.value;
+  if (selected) return parseLocale(selected);
+
+  const requestHeaders = await headers();
+  return (
+    negotiateLocale(requestHeaders.get("accept-language")) ?? DEFAULT_LOCALE
+  );
+}
+
+/**
+ * Color theme selected with the theme picker ("system" by default: light
+ * or dark following the OS).
+ */
+export async function getThemePreference(): Promise<Theme> {
+  const store = await cookies();
+  return parseTheme(store.get(THEME_COOKIE)?.value);
+}
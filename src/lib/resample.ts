@@ -0,0 +1,151 @@
+/**
+ * Calendar resampling of `[timestamp, value][]` series (MarketChart).
+ *
+ * CoinGecko's granularity depends on the requested range (5-minute, hourly or
+ * daily points), so "one point" is not "one day". These helpers group raw
+ * ticks into calendar buckets — days, ISO weeks (Monday start) or months — in
+ * a given IANA time zone and return one OHLC candle per bucket:
+ *
+ *   [bucketStart, open, high, low, close]
+ *
+ * "bucketStart" is the instant of local midnight starting the bucket; open and
+ * close are the first and last ticks inside it. The last bucket may still be
+ * in progress (e.g. today).
+ */
+
+import type { OhlcCandle } from "@/types/coingecko";
+
+export type ResampleInterval = "day" | "week" | "month";
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Validate an IANA time zone name (e.g. from an env var), falling back to UTC.
+ */
+export function resolveTimeZone(value: string | undefined): string {
+  if (!value) return DEFAULT_TIME_ZONE;
+
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return value;
+  } catch {
+    return DEFAULT_TIME_ZONE;
+  }
+}
+
+// Formatters are relatively expensive to build; reuse one per time zone
+const partFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function partFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = partFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    partFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock time of "ts" in "timeZone", expressed as if it were UTC.
+ */
+function wallClock(ts: number, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of partFormatter(timeZone).formatToParts(ts)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+
+  return Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+}
+
+/**
+ * Instant at which the local wall-clock time "local" (as UTC) occurs.
+ * Re-checks the offset once so buckets next to a DST switch land correctly.
+ */
+function fromWallClock(local: number, timeZone: string): number {
+  const guess = local - (wallClock(local, timeZone) - local);
+  return local - (wallClock(guess, timeZone) - guess);
+}
+
+/**
+ * Start of the calendar bucket containing "ts" (local midnight, as an instant).
+ */
+export function bucketStart(
+  ts: number,
+  interval: ResampleInterval,
+  timeZone = DEFAULT_TIME_ZONE,
+): number {
+  const local = new Date(wallClock(ts, timeZone));
+  const year = local.getUTCFullYear();
+  const month = local.getUTCMonth();
+  let day = local.getUTCDate();
+
+  if (interval === "week") {
+    // getUTCDay: 0 = Sunday … 6 = Saturday; ISO weeks start on Monday
+    day -= (local.getUTCDay() + 6) % 7;
+  } else if (interval === "month") {
+    day = 1;
+  }
+
+  return fromWallClock(Date.UTC(year, month, day), timeZone);
+}
+
+/**
+ * Start of the local day after the one containing "ts".
+ * Days are 23–25h long around DST switches, hence the half-day margin.
+ */
+function nextDayStart(ts: number, timeZone: string): number {
+  const start = bucketStart(ts, "day", timeZone);
+  return bucketStart(start + DAY_MS * 1.5, "day", timeZone);
+}
+
+/**
+ * Group a sorted series into one OHLC candle per calendar bucket.
+ */
+export function resampleSeries(
+  series: [number, number][],
+  interval: ResampleInterval,
+  timeZone = DEFAULT_TIME_ZONE,
+): OhlcCandle[] {
+  const candles: OhlcCandle[] = [];
+  let current: OhlcCandle | null = null;
+  // Weeks and months are whole days, so ticks before "dayEnd" stay in the
+  // current bucket and the Intl lookups only run once per day
+  let dayEnd = -Infinity;
+
+  for (const [ts, value] of series) {
+    if (!current || ts >= dayEnd) {
+      const start = bucketStart(ts, interval, timeZone);
+      dayEnd = nextDayStart(ts, timeZone);
+
+      if (!current || start !== current[0]) {
+        current = [start, value, value, value, value];
+        candles.push(current);
+        continue;
+      }
+    }
+
+    current[2] = Math.max(current[2], value);
+    current[3] = Math.min(current[3], value);
+    current[4] = value;
+  }
+
+  return candles;
+}
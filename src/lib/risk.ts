@@ -0,0 +1,280 @@
+/**
+ * Risk analytics over `[timestamp, price][]` series (MarketChart prices).
+ *
+ * Pure functions, no API calls. Return-based metrics use daily closes (see
+ * resample.ts) so results do not depend on CoinGecko's granularity, and are
+ * annualized with 365 periods per year since crypto trades every day.
+ *
+ * Rates and returns are fractions (0.04 = 4%); the UI formats them.
+ */
+
+import type { Series } from "@/lib/indicators";
+import { DEFAULT_TIME_ZONE, resampleSeries } from "@/lib/resample";
+
+export const PERIODS_PER_YEAR = 365;
+
+/**
+ * Simple daily returns from daily closes, timestamped with the later day.
+ */
+export function dailyReturns(
+  prices: Series,
+  timeZone = DEFAULT_TIME_ZONE,
+): Series {
+  const closes = resampleSeries(prices, "day", timeZone);
+  const returns: Series = [];
+
+  for (let i = 1; i < closes.length; i++) {
+    const prev = closes[i - 1][4];
+    if (prev > 0) returns.push([closes[i][0], closes[i][4] / prev - 1]);
+  }
+
+  return returns;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+// Sample standard deviation (n - 1)
+function stdDev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  const variance =
+    values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+/**
+ * Annualized volatility: standard deviation of periodic returns × √periods.
+ * Null with fewer than two returns.
+ */
+export function annualizedVolatility(
+  returns: Series,
+  periodsPerYear = PERIODS_PER_YEAR,
+): number | null {
+  if (returns.length < 2) return null;
+  return stdDev(returns.map(([, r]) => r)) * Math.sqrt(periodsPerYear);
+}
+
+export type Drawdown = {
+  // Peak-to-trough loss as a negative fraction (-0.25 = -25%)
+  drawdown: number;
+  peakTs: number;
+  peakValue: number;
+  troughTs: number;
+  troughValue: number;
+};
+
+/**
+ * Largest peak-to-trough decline of a price series.
+ * Null for an empty series; 0 when prices never fell below a previous peak.
+ */
+export function maxDrawdown(prices: Series): Drawdown | null {
+  if (!prices.length) return null;
+
+  let [peakTs, peakValue] = prices[0];
+  let worst: Drawdown = {
+    drawdown: 0,
+    peakTs,
+    peakValue,
+    troughTs: peakTs,
+    troughValue: peakValue,
+  };
+
+  for (const [ts, value] of prices) {
+    if (value > peakValue) {
+      peakTs = ts;
+      peakValue = value;
+      continue;
+    }
+
+    const drawdown = peakValue > 0 ? value / peakValue - 1 : 0;
+    if (drawdown < worst.drawdown) {
+      worst = { drawdown, peakTs, peakValue, troughTs: ts, troughValue: value };
+    }
+  }
+
+  return worst;
+}
+
+/**
+ * Annualized Sharpe ratio against an annual risk-free rate.
+ */
+export function sharpeRatio(
+  returns: Series,
+  riskFreeRate = 0,
+  periodsPerYear = PERIODS_PER_YEAR,
+): number | null {
+  if (returns.length < 2) return null;
+
+  const excess = returns.map(([, r]) => r - riskFreeRate / periodsPerYear);
+  const deviation = stdDev(excess);
+  if (deviation === 0) return null;
+
+  return (mean(excess) / deviation) * Math.sqrt(periodsPerYear);
+}
+
+/**
+ * Annualized Sortino ratio: like Sharpe, but only penalizes returns below
+ * the risk-free rate (downside deviation).
+ */
+export function sortinoRatio(
+  returns: Series,
+  riskFreeRate = 0,
+  periodsPerYear = PERIODS_PER_YEAR,
+): number | null {
+  if (returns.length < 2) return null;
+
+  const excess = returns.map(([, r]) => r - riskFreeRate / periodsPerYear);
+  const downside = Math.sqrt(
+    excess.reduce((sum, r) => sum + Math.min(r, 0) ** 2, 0) / excess.length,
+  );
+  if (downside === 0) return null;
+
+  return (mean(excess) / downside) * Math.sqrt(periodsPerYear);
+}
+
+/**
+ * Pair up two return series on their common timestamps.
+ */
+function alignReturns(a: Series, b: Series): [number[], number[]] {
+  const byTs = new Map(b);
+  const left: number[] = [];
+  const right: number[] = [];
+
+  for (const [ts, value] of a) {
+    const other = byTs.get(ts);
+    if (other === undefined) continue;
+    left.push(value);
+    right.push(other);
+  }
+
+  return [left, right];
+}
+
+function covariance(a: number[], b: number[]): number {
+  const meanA = mean(a);
+  const meanB = mean(b);
+  return (
+    a.reduce((sum, v, idx) => sum + (v - meanA) * (b[idx] - meanB), 0) /
+    (a.length - 1)
+  );
+}
+
+/**
+ * Beta of an asset versus a benchmark (e.g. BTC) over common days.
+ * Null when there is no overlap or the benchmark never moved.
+ */
+export function beta(returns: Series, benchmark: Series): number | null {
+  const [asset, market] = alignReturns(returns, benchmark);
+  if (asset.length < 2) return null;
+
+  const marketStd = stdDev(market);
+  if (marketStd === 0) return null;
+
+  return covariance(asset, market) / marketStd ** 2;
+}
+
+/**
+ * Pearson correlation of two return series over common days.
+ * Null when either side is flat (e.g. a stablecoin pegged all period).
+ */
+export function correlation(a: Series, b: Series): number | null {
+  const [left, right] = alignReturns(a, b);
+  if (left.length < 2) return null;
+
+  const denominator = stdDev(left) * stdDev(right);
+  if (denominator === 0) return null;
+
+  return covariance(left, right) / denominator;
+}
+
+/**
+ * Symmetric correlation matrix; matrix[i][j] correlates series i and j.
+ */
+export function correlationMatrix(series: Series[]): (number | null)[][] {
+  const matrix = series.map(() => series.map((): number | null => null));
+
+  series.forEach((a, i) => {
+    matrix[i][i] = a.length >= 2 ? 1 : null;
+    for (let j = i + 1; j < series.length; j++) {
+      const value = correlation(a, series[j]);
+      matrix[i][j] = value;
+      matrix[j][i] = value;
+    }
+  });
+
+  return matrix;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Per-coin report for the risk widget
+// ─────────────────────────────────────────────────────────────
+
+export type RiskAsset = {
+  id: string;
+  name: string;
+  symbol: string;
+  prices: Series;
+};
+
+export type AssetRisk = {
+  id: string;
+  name: string;
+  symbol: string;
+  volatility: number | null;
+  maxDrawdown: Drawdown | null;
+  sharpe: number | null;
+  sortino: number | null;
+  // Versus the benchmark (1 for the benchmark itself); null without one
+  beta: number | null;
+};
+
+export type RiskReport = {
+  assets: AssetRisk[];
+  // Same order as "assets"
+  correlations: (number | null)[][];
+  benchmarkId: string;
+  riskFreeRate: number;
+};
+
+/**
+ * Risk table + correlation matrix for a set of coins.
+ */
+export function buildRiskReport(
+  assets: RiskAsset[],
+  {
+    riskFreeRate = 0,
+    benchmarkId = "bitcoin",
+    timeZone = DEFAULT_TIME_ZONE,
+  }: { riskFreeRate?: number; benchmarkId?: string; timeZone?: string } = {},
+): RiskReport {
+  const returns = assets.map((asset) => dailyReturns(asset.prices, timeZone));
+  const benchmarkIdx = assets.findIndex((asset) => asset.id === benchmarkId);
+  const benchmark = benchmarkIdx >= 0 ? returns[benchmarkIdx] : null;
+
+  return {
+    assets: assets.map((asset, idx) => ({
+      id: asset.id,
+      name: asset.name,
+      symbol: asset.symbol,
+      volatility: annualizedVolatility(returns[idx]),
+      maxDrawdown: maxDrawdown(asset.prices),
+      sharpe: sharpeRatio(returns[idx], riskFreeRate),
+      sortino: sortinoRatio(returns[idx], riskFreeRate),
+      beta: benchmark ? beta(returns[idx], benchmark) : null,
+    })),
+    correlations: correlationMatrix(returns),
+    benchmarkId,
+    riskFreeRate,
+  };
+}
+
+/**
+ * Parse an annual risk-free rate given as a fraction ("0.045"), ignoring
+ * invalid values.
+ */
+export function parseRiskFreeRate(value: string | undefined): number {
+  const rate = Number(value);
+  return value && Number.isFinite(rate) ? rate : 0;
+}
@@ -0,0 +1,47 @@
+/**
+ * In-process timers for background jobs (alert evaluation, market
+ * snapshots), started once from `src/instrumentation.ts`. Server-only.
+ */
+
+import { logError } from "@/lib/logger";
+
+const started = new Set<string>();
+
+/**
+ * Resolve an interval env variable: a whole number of seconds, 0 to
+ * disable the job; anything else falls back to "fallback".
+ */
+export function parseIntervalSeconds(
+  value: string | undefined,
+  fallback: number,
+): number {
+  if (!value) return fallback;
+
+  const seconds = Number(value);
+  return Number.isInteger(seconds) && seconds >= 0 ? seconds : fallback;
+}
+
+/**
+ * Run "task" every "intervalSeconds" (and once right away with
+ * "immediate"). Failed runs are logged and retried at the next tick.
+ * Scheduling the same job twice is a no-op.
+ */
+export function scheduleJob(
+  name: string,
+  intervalSeconds: number,
+  task: () => Promise<unknown>,
+  { immediate = false }: { immediate?: boolean } = {},
+): void {
+  if (started.has(name) || intervalSeconds <= 0) return;
+  started.add(name);
+
+  const run = () => {
+    task().catch((error: unknown) => {
+      logError(name, error);
+    });
+  };
+
+  if (immediate) run();
+  // Don't keep the process alive just for background jobs
+  setInterval(run, intervalSeconds * 1000).unref?.();
+}
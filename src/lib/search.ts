@@ -0,0 +1,55 @@
+/**
+ * Ranking of coin search results.
+ *
+ * Upstream relevance puts popular coins first, which buries the coin a
+ * ticker was typed for ("op" → Optimism, not a dozen "…op…" coins). Results
+ * are re-ranked: exact symbol matches, then exact names, then prefixes,
+ * then the rest, each tier by market cap rank.
+ * Safe to import from client components.
+ */
+
+import type { SearchCoin } from "@/types/coingecko";
+
+// Shorter queries match too much to be useful
+export const MIN_SEARCH_LENGTH = 2;
+
+export const MAX_SEARCH_RESULTS = 10;
+
+export function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase();
+}
+
+// Lower is better
+function matchTier(coin: SearchCoin, query: string): number {
+  const symbol = coin.symbol.toLowerCase();
+  const name = coin.name.toLowerCase();
+
+  if (symbol === query) return 0;
+  if (name === query || coin.id === query) return 1;
+  if (symbol.startsWith(query)) return 2;
+  if (name.startsWith(query)) return 3;
+  return 4;
+}
+
+/**
+ * Best matches for "query" first, at most "limit" of them. Ties keep the
+ * market cap order (unranked coins last), then the upstream order.
+ */
+export function rankSearchResults(
+  coins: SearchCoin[],
+  query: string,
+  limit = MAX_SEARCH_RESULTS,
+): SearchCoin[] {
+  const needle = normalizeQuery(query);
+
+  return coins
+    .map((coin, index) => ({
+      coin,
+      index,
+      tier: matchTier(coin, needle),
+      rank: coin.market_cap_rank ?? Number.POSITIVE_INFINITY,
+    }))
+    .sort((a, b) => a.tier - b.tier || a.rank - b.rank || a.index - b.index)
+    .slice(0, limit)
+    .map(({ coin }) => coin);
+}
@@ -0,0 +1,34 @@
+/**
+ * Periodic recording of market snapshots (GlobalData + the top of the
+ * ranking) into the local store.
+ *
+ * Scheduled from `src/instrumentation.ts`: once at startup, then every
+ * SNAPSHOT_INTERVAL_SECONDS (900 by default, 0 disables it). Server-only.
+ */
+
+import { getGlobalData, getTopCoins } from "@/lib/market-data";
+import { appendSnapshot } from "@/lib/snapshot-store";
+import { buildSnapshot, SNAPSHOT_RANKING_SIZE } from "@/lib/snapshots";
+import type { MarketSnapshot } from "@/types/snapshots";
+
+export const DEFAULT_SNAPSHOT_INTERVAL_SECONDS = 900;
+
+/**
+ * Fetch and store one snapshot. Stale data (upstream down) is not
+ * recorded: it would repeat an older snapshot under a new time.
+ */
+export async function recordMarketSnapshot(): Promise<MarketSnapshot | null> {
+  const [globalRes, topCoinsRes] = await Promise.all([
+    getGlobalData(),
+    getTopCoins(SNAPSHOT_RANKING_SIZE, 1, "usd"),
+  ]);
+  if (globalRes.stale || topCoinsRes.stale) return null;
+
+  const snapshot = buildSnapshot(
+    globalRes.data,
+    topCoinsRes.data,
+    Math.min(globalRes.fetchedAt, topCoinsRes.fetchedAt),
+  );
+  await appendSnapshot(snapshot);
+  return snapshot;
+}
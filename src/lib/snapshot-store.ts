@@ -0,0 +1,55 @@
+/**
+ * Persistence of market snapshots in the local JSON store.
+ */
+
+import { applyRetention } from "@/lib/snapshots";
+import { readCollection, updateCollection } from "@/lib/store";
+import type { MarketSnapshot } from "@/types/snapshots";
+
+const COLLECTION = "snapshots";
+
+function isSnapshot(value: unknown): value is MarketSnapshot {
+  if (typeof value !== "object" || value === null) return false;
+  const item = value as Record<string, unknown>;
+
+  return (
+    typeof item.ts === "number" &&
+    typeof item.activeCryptocurrencies === "number" &&
+    typeof item.markets === "number" &&
+    typeof item.totalMarketCap === "object" &&
+    item.totalMarketCap !== null &&
+    typeof item.totalVolume === "object" &&
+    item.totalVolume !== null &&
+    typeof item.dominance === "object" &&
+    item.dominance !== null &&
+    Array.isArray(item.ranking)
+  );
+}
+
+function parseSnapshots(json: unknown): MarketSnapshot[] {
+  if (!Array.isArray(json) || !json.every(isSnapshot)) {
+    throw new TypeError("Expected an array of market snapshots");
+  }
+  return json;
+}
+
+/**
+ * Stored snapshots, oldest first.
+ */
+export async function listSnapshots(): Promise<MarketSnapshot[]> {
+  const snapshots = await readCollection(COLLECTION, parseSnapshots, []);
+  return [...snapshots].sort((a, b) => a.ts - b.ts);
+}
+
+/**
+ * Store a snapshot and thin out the history (see RETENTION_TIERS) in the
+ * same write.
+ */
+export async function appendSnapshot(
+  snapshot: MarketSnapshot,
+  now = Date.now(),
+): Promise<void> {
+  await updateCollection(COLLECTION, parseSnapshots, [], (snapshots) =>
+    applyRetention([...snapshots, snapshot], now),
+  );
+}
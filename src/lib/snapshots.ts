@@ -0,0 +1,261 @@
+/**
+ * Market snapshots: building them, thinning them out as they age and
+ * querying the stored history.
+ *
+ * `/global` only describes the market right now; snapshots recorded over
+ * time (lib/snapshot-recorder) are what dominance history, rank changes
+ * and week-over-week deltas are computed from.
+ *
+ * Pure: the recorder and the pages read / write the store themselves.
+ */
+
+import { CURRENCIES, type Currency } from "@/lib/currency";
+import type { GlobalData, MarketCoin } from "@/types/coingecko";
+import type { MarketSnapshot, RankedCoin } from "@/types/snapshots";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+export const WEEK_MS = 7 * DAY_MS;
+
+// Coins of the ranking kept per snapshot
+export const SNAPSHOT_RANKING_SIZE = 20;
+
+/**
+ * Snapshots younger than "maxAgeMs" are kept one per "bucketMs" (the last
+ * one of each bucket), or all of them when "bucketMs" is null.
+ */
+export type RetentionTier = {
+  maxAgeMs: number;
+  bucketMs: number | null;
+};
+
+// Youngest tier first; snapshots older than the last tier are dropped
+export const RETENTION_TIERS: RetentionTier[] = [
+  { maxAgeMs: 2 * DAY_MS, bucketMs: null },
+  { maxAgeMs: 30 * DAY_MS, bucketMs: HOUR_MS },
+  { maxAgeMs: 730 * DAY_MS, bucketMs: DAY_MS },
+];
+
+export type SnapshotDelta = {
+  current: number;
+  previous: number;
+  change: number;
+  // Relative change (%); null when the previous value is 0
+  changePct: number | null;
+};
+
+export type SnapshotComparison = {
+  // Timestamps of the two snapshots compared
+  from: number;
+  to: number;
+  // null when either snapshot lacks the value
+  marketCap: SnapshotDelta | null;
+  volume: SnapshotDelta | null;
+  btcDominance: SnapshotDelta | null;
+  activeCryptocurrencies: SnapshotDelta | null;
+  ranks: RankChange[];
+};
+
+export type RankChange = RankedCoin & {
+  // null when the coin was outside the stored ranking before
+  previousRank: number | null;
+  // Places gained (positive) or lost; null for new entries
+  change: number | null;
+};
+
+function pickCurrencies(values: Record<string, number>) {
+  const picked: Partial<Record<Currency, number>> = {};
+  for (const { id } of CURRENCIES) {
+    if (values[id] !== undefined) picked[id] = values[id];
+  }
+  return picked;
+}
+
+export function buildSnapshot(
+  globalData: GlobalData,
+  topCoins: MarketCoin[],
+  ts: number,
+): MarketSnapshot {
+  return {
+    ts,
+    activeCryptocurrencies: globalData.active_cryptocurrencies,
+    markets: globalData.markets,
+    totalMarketCap: pickCurrencies(globalData.total_market_cap),
+    totalVolume: pickCurrencies(globalData.total_volume),
+    dominance: globalData.market_cap_percentage,
+    ranking: topCoins
+      .filter((coin) => coin.market_cap_rank !== null)
+      .slice(0, SNAPSHOT_RANKING_SIZE)
+      .map((coin) => ({
+        id: coin.id,
+        symbol: coin.symbol,
+        name: coin.name,
+        rank: coin.market_cap_rank ?? 0,
+      })),
+  };
+}
+
+/**
+ * Thin out snapshots by age following "tiers". Returns them oldest first.
+ */
+export function applyRetention(
+  snapshots: MarketSnapshot[],
+  now: number,
+  tiers: RetentionTier[] = RETENTION_TIERS,
+): MarketSnapshot[] {
+  const kept = new Map<string, MarketSnapshot>();
+
+  for (const snapshot of [...snapshots].sort((a, b) => a.ts - b.ts)) {
+    const age = now - snapshot.ts;
+    const tier = tiers.findIndex((item) => age <= item.maxAgeMs);
+    if (tier === -1) continue;
+
+    const { bucketMs } = tiers[tier];
+    // Later snapshots of a bucket replace earlier ones
+    const key =
+      bucketMs === null
+        ? `${tier}:${snapshot.ts}`
+        : `${tier}:${Math.floor(snapshot.ts / bucketMs)}`;
+    kept.delete(key);
+    kept.set(key, snapshot);
+  }
+
+  return [...kept.values()].sort((a, b) => a.ts - b.ts);
+}
+
+// ─────────────────────────────────────────────────────────────
+// Queries (snapshots sorted oldest first)
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * The latest snapshot taken at or before "ts".
+ */
+export function snapshotAt(
+  snapshots: MarketSnapshot[],
+  ts: number,
+): MarketSnapshot | null {
+  for (let idx = snapshots.length - 1; idx >= 0; idx--) {
+    if (snapshots[idx].ts <= ts) return snapshots[idx];
+  }
+  return null;
+}
+
+/**
+ * Snapshots from the last "days" days, measured from the latest one.
+ */
+export function recentSnapshots(
+  snapshots: MarketSnapshot[],
+  days: number,
+): MarketSnapshot[] {
+  const latest = snapshots[snapshots.length - 1];
+  if (!latest) return [];
+
+  const from = latest.ts - days * DAY_MS;
+  return snapshots.filter((snapshot) => snapshot.ts >= from);
+}
+
+/**
+ * One value per snapshot as a chart series; snapshots without the value
+ * are skipped.
+ */
+export function snapshotSeries(
+  snapshots: MarketSnapshot[],
+  read: (snapshot: MarketSnapshot) => number | undefined,
+): [number, number][] {
+  return snapshots.flatMap((snapshot): [number, number][] => {
+    const value = read(snapshot);
+    return value === undefined ? [] : [[snapshot.ts, value]];
+  });
+}
+
+/**
+ * Market cap share (%) of the coin with "symbol" over time.
+ */
+export function dominanceSeries(
+  snapshots: MarketSnapshot[],
+  symbol: string,
+): [number, number][] {
+  return snapshotSeries(
+    snapshots,
+    (snapshot) => snapshot.dominance[symbol.toLowerCase()],
+  );
+}
+
+function delta(
+  current: number | undefined,
+  previous: number | undefined,
+): SnapshotDelta | null {
+  if (current === undefined || previous === undefined) return null;
+  return {
+    current,
+    previous,
+    change: current - previous,
+    changePct: previous ? ((current - previous) / previous) * 100 : null,
+  };
+}
+
+/**
+ * How each coin of the current ranking moved since "previous", biggest
+ * moves first (new entries after the movers, unchanged coins last).
+ */
+export function rankChanges(
+  current: MarketSnapshot,
+  previous: MarketSnapshot,
+): RankChange[] {
+  const before = new Map(previous.ranking.map((coin) => [coin.id, coin.rank]));
+
+  return current.ranking
+    .map((coin): RankChange => {
+      const previousRank = before.get(coin.id) ?? null;
+      return {
+        ...coin,
+        previousRank,
+        change: previousRank === null ? null : previousRank - coin.rank,
+      };
+    })
+    .sort((a, b) => {
+      const weight = (item: RankChange) =>
+        item.change === null ? 0.5 : Math.abs(item.change);
+      return weight(b) - weight(a) || a.rank - b.rank;
+    });
+}
+
+export function compareSnapshots(
+  current: MarketSnapshot,
+  previous: MarketSnapshot,
+  currency: Currency,
+): SnapshotComparison {
+  return {
+    from: previous.ts,
+    to: current.ts,
+    marketCap: delta(
+      current.totalMarketCap[currency],
+      previous.totalMarketCap[currency],
+    ),
+    volume: delta(
+      current.totalVolume[currency],
+      previous.totalVolume[currency],
+    ),
+    btcDominance: delta(current.dominance.btc, previous.dominance.btc),
+    activeCryptocurrencies: delta(
+      current.activeCryptocurrencies,
+      previous.activeCryptocurrencies,
+    ),
+    ranks: rankChanges(current, previous),
+  };
+}
+
+/**
+ * Latest snapshot against the one a week earlier, or null while less than
+ * a week of history is stored.
+ */
+export function weekOverWeek(
+  snapshots: MarketSnapshot[],
+  currency: Currency,
+): SnapshotComparison | null {
+  const current = snapshots[snapshots.length - 1];
+  if (!current) return null;
+
+  const previous = snapshotAt(snapshots, current.ts - WEEK_MS);
+  return previous ? compareSnapshots(current, previous, currency) : null;
+}
@@ -0,0 +1,95 @@
+/**
+ * Local JSON file store for user data (portfolio, …).
+ *
+ * Each collection is one JSON file in the data directory (DATA_DIR, default
+ * `.data/` in the project root). Writes go to a temp file that is renamed
+ * over the original, so a crash never leaves a half-written file, and
+ * updates to the same collection are queued so concurrent server actions
+ * cannot overwrite each other's changes.
+ *
+ * Server-only: never import this from a client component.
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { StoreError } from "@/lib/errors";
+
+const DEFAULT_DATA_DIR = path.join(process.cwd(), ".data");
+
+function dataDir(): string {
+  return process.env.DATA_DIR || DEFAULT_DATA_DIR;
+}
+
+function collectionPath(name: string): string {
+  return path.join(dataDir(), `${path.basename(name)}.json`);
+}
+
+// Pending update per collection file; each update waits for the previous one
+const queues = new Map<string, Promise<unknown>>();
+
+/**
+ * Read a collection, validated with "parse". A missing file is an empty
+ * collection ("fallback"), not an error.
+ */
+export async function readCollection<T>(
+  name: string,
+  parse: (json: unknown) => T,
+  fallback: T,
+): Promise<T> {
+  const file = collectionPath(name);
+  let raw: string;
+
+  try {
+    raw = await readFile(file, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw new StoreError("Failed to read data file", file, { cause: error });
+  }
+
+  try {
+    return parse(JSON.parse(raw));
+  } catch (error) {
+    throw new StoreError("Corrupted data file", file, { cause: error });
+  }
+}
+
+/**
+ * Apply "update" to the current content of a collection and persist the
+ * result. Updates of the same collection run one after another.
+ */
+export function updateCollection<T>(
+  name: string,
+  parse: (json: unknown) => T,
+  fallback: T,
+  update: (current: T) => T,
+): Promise<T> {
+  const file = collectionPath(name);
+
+  const run = async () => {
+    const next = update(await readCollection(name, parse, fallback));
+    const tmp = `${file}.${process.pid}.tmp`;
+
+    try {
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(tmp, `${JSON.stringify(next, null, 2)}\n`, "utf8");
+      await rename(tmp, file);
+    } catch (error) {
+      throw new StoreError("Failed to write data file", file, {
+        cause: error,
+      });
+    }
+
+    return next;
+  };
+
+  const previous = queues.get(file) ?? Promise.resolve();
+  const result = previous.then(run, run);
+  const settled = result.catch(() => undefined);
+  queues.set(file, settled);
+  // Forget the queue once idle so it does not hold finished promises
+  settled.then(() => {
+    if (queues.get(file) === settled) queues.delete(file);
+  });
+
+  return result;
+}
@@ -0,0 +1,73 @@
+/**
+ * Color themes of the app and the theme colors used outside CSS classes.
+ *
+ * The token values live in `src/app/globals.css`; the selected theme is
+ * the `data-theme` attribute of <html>. Safe to import from client
+ * components.
+ */
+
+import { OTHERS_ID } from "@/lib/market-summary";
+
+export type Theme = "system" | "light" | "dark" | "contrast";
+
+export const THEMES: { id: Theme; label: string }[] = [
+  { id: "system", label: "System" },
+  { id: "light", label: "Light" },
+  { id: "dark", label: "Dark" },
+  { id: "contrast", label: "High contrast" },
+];
+
+export const DEFAULT_THEME: Theme = "system";
+
+// Cookie holding the selected theme (see the theme picker)
+export const THEME_COOKIE = "theme";
+
+/**
+ * Resolve a cookie value, falling back to the system preference.
+ */
+export function parseTheme(value: string | undefined): Theme {
+  return THEMES.find((theme) => theme.id === value)?.id ?? DEFAULT_THEME;
+}
+
+/**
+ * Theme colors as CSS variables, for SVG and style props (they follow the
+ * active theme without a re-render).
+ */
+export const THEME_COLORS = {
+  up: "var(--color-up)",
+  down: "var(--color-down)",
+  grid: "var(--color-chart-grid)",
+  muted: "var(--color-chart-muted)",
+  track: "var(--color-surface-strong)",
+  // Series of a chart, in order
+  series: [
+    "var(--color-chart-1)",
+    "var(--color-chart-2)",
+    "var(--color-chart-3)",
+    "var(--color-chart-4)",
+    "var(--color-chart-5)",
+    "var(--color-chart-6)",
+  ],
+} as const;
+
+const COIN_COLORS: Record<string, string> = {
+  bitcoin: "var(--color-coin-bitcoin)",
+  ethereum: "var(--color-coin-ethereum)",
+  [OTHERS_ID]: "var(--color-coin-other)",
+};
+
+/**
+ * Brand color of a coin, else a chart color picked by its position.
+ */
+export function getColorForCoin(id: string, index: number): string {
+  return (
+    COIN_COLORS[id] ?? THEME_COLORS.series[index % THEME_COLORS.series.length]
+  );
+}
+
+/**
+ * "color" at "percent" opacity (heatmaps, soft fills).
+ */
+export function withOpacity(color: string, percent: number): string {
+  return `color-mix(in srgb, ${color} ${percent}%, transparent)`;
+}
@@ -0,0 +1,33 @@
+/**
+ * Chart time ranges shared by every page that renders a price history.
+ * The active range lives in the URL (`?range=7d`) so views can be shared.
+ */
+
+import type { ChartDays } from "@/types/coingecko";
+
+export type TimeRange = {
+  id: string;
+  label: string;
+  days: ChartDays;
+};
+
+export const TIME_RANGES: TimeRange[] = [
+  { id: "1d", label: "1D", days: 1 },
+  { id: "7d", label: "7D", days: 7 },
+  { id: "30d", label: "30D", days: 30 },
+  { id: "90d", label: "90D", days: 90 },
+  { id: "1y", label: "1Y", days: 365 },
+  { id: "max", label: "MAX", days: "max" },
+];
+
+export const DEFAULT_TIME_RANGE = TIME_RANGES[2];
+
+/**
+ * Resolve a `?range=` search param, falling back to the default (30D).
+ */
+export function parseTimeRange(
+  value: string | string[] | undefined,
+): TimeRange {
+  const id = Array.isArray(value) ? value[0] : value;
+  return TIME_RANGES.find((range) => range.id === id) ?? DEFAULT_TIME_RANGE;
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { squarify, type TreemapRect, type TreemapTile } from "@/lib/treemap";
+
+const RECT: TreemapRect = { x: 10, y: 20, width: 600, height: 400 };
+const EPSILON = 1e-9;
+
+const area = (tile: TreemapRect) => tile.width * tile.height;
+
+function expectInside(tiles: TreemapTile<unknown>[], rect: TreemapRect) {
+  for (const tile of tiles) {
+    expect(tile.width).toBeGreaterThan(0);
+    expect(tile.height).toBeGreaterThan(0);
+    expect(tile.x).toBeGreaterThanOrEqual(rect.x - EPSILON);
+    expect(tile.y).toBeGreaterThanOrEqual(rect.y - EPSILON);
+    expect(tile.x + tile.width).toBeLessThanOrEqual(
+      rect.x + rect.width + EPSILON,
+    );
+    expect(tile.y + tile.height).toBeLessThanOrEqual(
+      rect.y + rect.height + EPSILON,
+    );
+  }
+}
+
+describe("squarify", () => {
+  it("sizes tiles in proportion to their values", () => {
+    const values = [6, 6, 4, 3, 2, 2, 1];
+    const tiles = squarify(values, (value) => value, RECT);
+    const total = values.reduce((sum, value) => sum + value, 0);
+
+    expect(tiles).toHaveLength(values.length);
+    for (const tile of tiles) {
+      expect(area(tile)).toBeCloseTo((area(RECT) * tile.item) / total);
+    }
+  });
+
+  it("keeps every tile inside the rectangle, covering it once", () => {
+    const values = [50, 31, 17, 12, 9, 7, 4, 3, 2, 1, 1, 0.5];
+    const tiles = squarify(values, (value) => value, RECT);
+
+    expectInside(tiles, RECT);
+    expect(tiles.reduce((sum, tile) => sum + area(tile), 0)).toBeCloseTo(
+      area(RECT),
+    );
+
+    // No two tiles overlap
+    for (const [idx, a] of tiles.entries()) {
+      for (const b of tiles.slice(idx + 1)) {
+        const overlapX =
+          Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+        const overlapY =
+          Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+        expect(overlapX <= EPSILON || overlapY <= EPSILON).toBe(true);
+      }
+    }
+  });
+
+  it("lays out the example of the squarified treemap paper", () => {
+    const tiles = squarify([6, 6, 4, 3, 2, 2, 1], (value) => value, {
+      x: 0,
+      y: 0,
+      width: 6,
+      height: 4,
+    });
+
+    // The two 6s fill a column, then 4 and 3 share a row across the rest
+    expect(tiles[0]).toMatchObject({ x: 0, y: 0, width: 3, height: 2 });
+    expect(tiles[1]).toMatchObject({ x: 0, y: 2, width: 3, height: 2 });
+    expect(tiles[2]).toMatchObject({ x: 3, y: 0 });
+    expect(tiles[2].width).toBeCloseTo(12 / 7);
+    expect(tiles[2].height).toBeCloseTo(7 / 3);
+    expect(tiles[3].x).toBeCloseTo(3 + 12 / 7);
+    expect(tiles[3].height).toBeCloseTo(7 / 3);
+  });
+
+  it("returns tiles largest first", () => {
+    const tiles = squarify([1, 5, 3], (value) => value, RECT);
+
+    expect(tiles.map((tile) => tile.item)).toEqual([5, 3, 1]);
+  });
+
+  it("skips zero, negative and non-finite values", () => {
+    const values = [
+      10,
+      0,
+      -5,
+      Number.NaN,
+      Number.POSITIVE_INFINITY,
+      Number.NEGATIVE_INFINITY,
+      5,
+    ];
+    const tiles = squarify(values, (value) => value, RECT);
+
+    expect(tiles.map((tile) => tile.item)).toEqual([10, 5]);
+    expectInside(tiles, RECT);
+    expect(area(tiles[0])).toBeCloseTo((area(RECT) * 2) / 3);
+  });
+
+  it("returns no tiles without positive values or space", () => {
+    expect(squarify([], (value: number) => value, RECT)).toEqual([]);
+    expect(squarify([0, -1], (value) => value, RECT)).toEqual([]);
+    expect(squarify([1, 2], (value) => value, { ...RECT, width: 0 })).toEqual(
+      [],
+    );
+  });
+});
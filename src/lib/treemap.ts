@@ -0,0 +1,129 @@
+/**
+ * Squarified treemap layout (Bruls, Huizing & van Wijk, 2000).
+ *
+ * Splits a rectangle into one tile per item, with areas proportional to
+ * the item values and tiles kept as close to squares as possible: items
+ * are placed largest first, in rows along the shorter side of the space
+ * left, and a row is closed as soon as the next item would make its
+ * most elongated tile worse.
+ *
+ * Pure: safe to import from client components.
+ */
+
+export type TreemapRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type TreemapTile<T> = TreemapRect & {
+  item: T;
+};
+
+type Entry<T> = {
+  item: T;
+  area: number;
+};
+
+/**
+ * Aspect ratio (≥ 1) of the most elongated tile of a row of "areas" laid
+ * along a side of length "side".
+ */
+function worstRatio(areas: number[], side: number): number {
+  const total = areas.reduce((sum, area) => sum + area, 0);
+  const largest = Math.max(...areas);
+  const smallest = Math.min(...areas);
+  const sideSq = side * side;
+
+  return Math.max(
+    (sideSq * largest) / (total * total),
+    (total * total) / (sideSq * smallest),
+  );
+}
+
+/**
+ * Place a row along the shorter side of "free" and return the space left.
+ */
+function layoutRow<T>(
+  row: Entry<T>[],
+  free: TreemapRect,
+  tiles: TreemapTile<T>[],
+): TreemapRect {
+  const total = row.reduce((sum, entry) => sum + entry.area, 0);
+
+  if (free.width >= free.height) {
+    // Column on the left, tiles stacked top to bottom
+    const thickness = total / free.height;
+    let y = free.y;
+    for (const { item, area } of row) {
+      const height = area / thickness;
+      tiles.push({ item, x: free.x, y, width: thickness, height });
+      y += height;
+    }
+    return {
+      ...free,
+      x: free.x + thickness,
+      width: Math.max(0, free.width - thickness),
+    };
+  }
+
+  // Row at the top, tiles side by side
+  const thickness = total / free.width;
+  let x = free.x;
+  for (const { item, area } of row) {
+    const width = area / thickness;
+    tiles.push({ item, x, y: free.y, width, height: thickness });
+    x += width;
+  }
+  return {
+    ...free,
+    y: free.y + thickness,
+    height: Math.max(0, free.height - thickness),
+  };
+}
+
+/**
+ * Lay "items" out in "rect", sized by "value". Items whose value isn't a
+ * positive number get no tile. Tiles come out largest first.
+ */
+export function squarify<T>(
+  items: T[],
+  value: (item: T) => number,
+  rect: TreemapRect,
+): TreemapTile<T>[] {
+  const sized = items
+    .map((item) => ({ item, value: value(item) }))
+    .filter((entry) => Number.isFinite(entry.value) && entry.value > 0)
+    .sort((a, b) => b.value - a.value);
+  const total = sized.reduce((sum, entry) => sum + entry.value, 0);
+  if (!sized.length || rect.width <= 0 || rect.height <= 0) return [];
+
+  // Values → areas of the rectangle
+  const scale = (rect.width * rect.height) / total;
+  const entries = sized.map(({ item, value }) => ({
+    item,
+    area: value * scale,
+  }));
+
+  const tiles: TreemapTile<T>[] = [];
+  let free = rect;
+  let row: Entry<T>[] = [];
+
+  for (const entry of entries) {
+    const side = Math.min(free.width, free.height);
+    const areas = row.map(({ area }) => area);
+    if (
+      !row.length ||
+      worstRatio([...areas, entry.area], side) <= worstRatio(areas, side)
+    ) {
+      row.push(entry);
+      continue;
+    }
+    free = layoutRow(row, free, tiles);
+    row = [entry];
+  }
+  layoutRow(row, free, tiles);
+
+  return tiles;
+}
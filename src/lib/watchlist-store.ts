@@ -0,0 +1,31 @@
+/**
+ * Persistence of the watchlist (favorite coin ids) in the local JSON store.
+ */
+
+import { readCollection, updateCollection } from "@/lib/store";
+
+const COLLECTION = "watchlist";
+
+function parseWatchlist(json: unknown): string[] {
+  if (!Array.isArray(json) || !json.every((id) => typeof id === "string")) {
+    throw new TypeError("Expected an array of coin ids");
+  }
+  return json;
+}
+
+/**
+ * Watched coin ids, in the order they were added.
+ */
+export function listWatchlist(): Promise<string[]> {
+  return readCollection(COLLECTION, parseWatchlist, []);
+}
+
+export async function setWatched(
+  coinId: string,
+  watched: boolean,
+): Promise<void> {
+  await updateCollection(COLLECTION, parseWatchlist, [], (ids) => {
+    const rest = ids.filter((id) => id !== coinId);
+    return watched ? [...rest, coinId] : rest;
+  });
+}
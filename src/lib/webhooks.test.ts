@@ -0,0 +1,162 @@
+import { createHmac } from "node:crypto";
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { deliverWebhook } from "@/lib/webhooks";
+import type { AlertEvent, Webhook } from "@/types/alerts";
+
+type Received = { headers: IncomingHttpHeaders; body: string };
+
+// Statuses answered to the next requests, in order; 200 once exhausted
+let statuses: number[] = [];
+let received: Received[] = [];
+let server: Server;
+let url: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      received.push({
+        headers: req.headers,
+        body: Buffer.concat(chunks).toString("utf8"),
+      });
+      res.statusCode = statuses.shift() ?? 200;
+      res.end();
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  url = `http://127.0.0.1:${port}/hook`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  statuses = [];
+  received = [];
+});
+
+const EVENT: AlertEvent = {
+  id: "evt-1",
+  ruleId: "rule-1",
+  triggeredAt: Date.UTC(2024, 0, 15),
+  metric: "price",
+  coinId: "bitcoin",
+  direction: "above",
+  threshold: 50000,
+  currency: "usd",
+  value: 50100,
+  message: "Bitcoin price rose above $50,000",
+  deliveries: [],
+};
+
+function webhook(secret: string | null = null): Webhook {
+  return {
+    id: "hook-1",
+    name: "Test",
+    url,
+    secret,
+    enabled: true,
+    createdAt: 0,
+  };
+}
+
+// Keep retries fast
+const OPTIONS = { retries: 2, baseDelayMs: 1 };
+
+describe("deliverWebhook", () => {
+  it("posts the event as JSON without its deliveries", async () => {
+    const delivery = await deliverWebhook(
+      webhook(),
+      "alert.triggered",
+      EVENT,
+      OPTIONS,
+    );
+
+    expect(delivery).toEqual({
+      webhookId: "hook-1",
+      url,
+      ok: true,
+      status: 200,
+      error: null,
+      attempts: 1,
+    });
+    expect(received).toHaveLength(1);
+
+    const [{ headers, body }] = received;
+    expect(headers["content-type"]).toBe("application/json");
+    expect(headers["x-noro-event"]).toBe("alert.triggered");
+    expect(headers["x-noro-signature"]).toBeUndefined();
+
+    const { deliveries: _deliveries, ...alert } = EVENT;
+    expect(JSON.parse(body)).toEqual({
+      type: "alert.triggered",
+      sentAt: expect.any(Number),
+      alert,
+    });
+  });
+
+  it("signs the raw body with the webhook secret", async () => {
+    await deliverWebhook(webhook("s3cret"), "webhook.test", EVENT, OPTIONS);
+
+    const [{ headers, body }] = received;
+    const expected = createHmac("sha256", "s3cret").update(body).digest("hex");
+    expect(headers["x-noro-signature"]).toBe(`sha256=${expected}`);
+  });
+
+  it("retries 5xx and 429 responses until one succeeds", async () => {
+    statuses = [503, 429];
+    const delivery = await deliverWebhook(
+      webhook("s3cret"),
+      "alert.triggered",
+      EVENT,
+      OPTIONS,
+    );
+
+    expect(delivery).toMatchObject({ ok: true, status: 200, attempts: 3 });
+    expect(received).toHaveLength(3);
+    // Every attempt sends the same signed body
+    expect(new Set(received.map((request) => request.body)).size).toBe(1);
+  });
+
+  it("gives up after the last retry", async () => {
+    statuses = [500, 500, 502, 500];
+    const delivery = await deliverWebhook(
+      webhook(),
+      "alert.triggered",
+      EVENT,
+      OPTIONS,
+    );
+
+    expect(delivery).toMatchObject({
+      ok: false,
+      status: 502,
+      error: "HTTP 502",
+      attempts: 3,
+    });
+    expect(received).toHaveLength(3);
+  });
+
+  it("does not retry other 4xx responses", async () => {
+    statuses = [404];
+    const delivery = await deliverWebhook(
+      webhook(),
+      "alert.triggered",
+      EVENT,
+      OPTIONS,
+    );
+
+    expect(delivery).toMatchObject({
+      ok: false,
+      status: 404,
+      error: "HTTP 404",
+      attempts: 1,
+    });
+    expect(received).toHaveLength(1);
+  });
+});
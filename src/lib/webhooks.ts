@@ -0,0 +1,133 @@
+/**
+ * Delivery of alert events to user-configured webhooks.
+ *
+ * Each event is POSTed as JSON:
+ *  `{ type: "alert.triggered" | "webhook.test", sentAt, alert }`
+ * with an `X-Noro-Signature: sha256=<hex>` header (HMAC of the raw body)
+ * when the webhook has a secret. Network failures, 429 and 5xx are retried
+ * with exponential backoff; a failed delivery is recorded, never thrown.
+ */
+
+import { createHmac } from "node:crypto";
+import type { AlertEvent, Webhook, WebhookDelivery } from "@/types/alerts";
+
+export type WebhookEventType = "alert.triggered" | "webhook.test";
+
+export type WebhookPayload = {
+  type: WebhookEventType;
+  sentAt: number;
+  alert: Omit<AlertEvent, "deliveries">;
+};
+
+export type DeliveryOptions = {
+  /** Extra attempts after the first one. */
+  retries?: number;
+  baseDelayMs?: number;
+  /** Per-attempt time limit. */
+  timeoutMs?: number;
+};
+
+const DEFAULT_OPTIONS: Required<DeliveryOptions> = {
+  retries: 2,
+  baseDelayMs: 500,
+  timeoutMs: 5000,
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function sign(body: string, secret: string): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+/**
+ * Webhook URLs must be absolute http(s) URLs.
+ */
+export function isValidWebhookUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * POST one event to one webhook, retrying transient failures.
+ */
+export async function deliverWebhook(
+  webhook: Webhook,
+  type: WebhookEventType,
+  { deliveries: _deliveries, ...alert }: AlertEvent,
+  options: DeliveryOptions = {},
+): Promise<WebhookDelivery> {
+  const { retries, baseDelayMs, timeoutMs } = {
+    ...DEFAULT_OPTIONS,
+    ...options,
+  };
+  const body = JSON.stringify({
+    type,
+    sentAt: Date.now(),
+    alert,
+  } satisfies WebhookPayload);
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "User-Agent": "noro-alerts",
+    "X-Noro-Event": type,
+  };
+  if (webhook.secret) headers["X-Noro-Signature"] = sign(body, webhook.secret);
+
+  const delivery: WebhookDelivery = {
+    webhookId: webhook.id,
+    url: webhook.url,
+    ok: false,
+    status: null,
+    error: null,
+    attempts: 0,
+  };
+
+  for (;;) {
+    delivery.attempts += 1;
+
+    try {
+      const res = await fetch(webhook.url, {
+        method: "POST",
+        headers,
+        body,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      // Free the connection; the response body is not used
+      await res.body?.cancel();
+
+      delivery.status = res.status;
+      delivery.ok = res.ok;
+      delivery.error = res.ok ? null : `HTTP ${res.status}`;
+      if (res.ok || (res.status !== 429 && res.status < 500)) return delivery;
+    } catch (error) {
+      delivery.status = null;
+      delivery.error = error instanceof Error ? error.message : String(error);
+    }
+
+    if (delivery.attempts > retries) return delivery;
+    await sleep(baseDelayMs * 2 ** (delivery.attempts - 1));
+  }
+}
+
+/**
+ * Deliver an event to every enabled webhook in parallel.
+ */
+export function deliverAlert(
+  event: AlertEvent,
+  webhooks: Webhook[],
+  options?: DeliveryOptions,
+): Promise<WebhookDelivery[]> {
+  return Promise.all(
+    webhooks
+      .filter((webhook) => webhook.enabled)
+      .map((webhook) =>
+        deliverWebhook(webhook, "alert.triggered", event, options),
+      ),
+  );
+}
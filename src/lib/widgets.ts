@@ -0,0 +1,235 @@
+/**
+ * Dashboard widget registry.
+ *
+ * Every widget the dashboard can show declares here the data it needs
+ * (each widget fetches only that, so a layout only loads what its widgets
+ * show) and the widths it can take. Rendering lives in
+ * `components/dashboard/DashboardWidget`.
+ *
+ * Pure: safe to import from client components (the layout editor).
+ */
+
+import type {
+  DashboardLayout,
+  LayoutWidget,
+  WidgetId,
+  WidgetSpan,
+} from "@/types/dashboard";
+
+/**
+ * Data sets a dashboard widget can load:
+ *  - global: market-wide totals (/global)
+ *  - topCoins: first page of the ranking (plus the table's page, if other)
+ *  - chart / ohlc: history of the charted coin (candles in that mode only)
+ *  - watchlist: starred coin ids · watchlistCoins: their quotes
+ *  - riskHistories: 90-day history of each top coin
+ *  - snapshots: market snapshots recorded by the server
+ */
+export type DashboardDataNeed =
+  | "global"
+  | "topCoins"
+  | "chart"
+  | "ohlc"
+  | "watchlist"
+  | "watchlistCoins"
+  | "riskHistories"
+  | "snapshots";
+
+export type WidgetDefinition = {
+  id: WidgetId;
+  label: string;
+  description: string;
+  // Section id the command palette links to
+  anchor: string;
+  needs: DashboardDataNeed[];
+  minSpan: WidgetSpan;
+  maxSpan: WidgetSpan;
+  defaultSpan: WidgetSpan;
+};
+
+// In the order of the default layout
+export const WIDGETS: Record<WidgetId, WidgetDefinition> = {
+  kpis: {
+    id: "kpis",
+    label: "Market KPIs",
+    description: "Total market cap, 24h volume, active coins, dominance",
+    anchor: "market-overview",
+    needs: ["global"],
+    minSpan: 3,
+    maxSpan: 3,
+    defaultSpan: 3,
+  },
+  extraMetrics: {
+    id: "extraMetrics",
+    label: "Market stats",
+    description: "Total markets, top gainer and loser, 24h breadth",
+    anchor: "market-stats",
+    needs: ["global", "topCoins"],
+    minSpan: 2,
+    maxSpan: 3,
+    defaultSpan: 3,
+  },
+  watchlist: {
+    id: "watchlist",
+    label: "Watchlist",
+    description: "Starred coins with their 7-day sparklines",
+    anchor: "watchlist",
+    needs: ["watchlist", "watchlistCoins"],
+    minSpan: 1,
+    maxSpan: 3,
+    defaultSpan: 3,
+  },
+  priceChart: {
+    id: "priceChart",
+    label: "Price chart",
+    description: "Price history of a top coin as a line, area or candles",
+    anchor: "price-chart",
+    needs: ["topCoins", "chart", "ohlc"],
+    minSpan: 2,
+    maxSpan: 3,
+    defaultSpan: 2,
+  },
+  greenDays: {
+    id: "greenDays",
+    label: "Green days",
+    description: "Share of days the charted coin closed higher",
+    anchor: "green-days",
+    needs: ["topCoins", "chart"],
+    minSpan: 1,
+    maxSpan: 3,
+    defaultSpan: 1,
+  },
+  dominanceHistory: {
+    id: "dominanceHistory",
+    label: "Dominance history",
+    description: "BTC and ETH dominance over the last 30 days",
+    anchor: "market-history",
+    needs: ["snapshots"],
+    minSpan: 2,
+    maxSpan: 3,
+    defaultSpan: 2,
+  },
+  weekOverWeek: {
+    id: "weekOverWeek",
+    label: "Week over week",
+    description: "Market cap, volume, dominance and rank changes in 7 days",
+    anchor: "week-over-week",
+    needs: ["snapshots"],
+    minSpan: 1,
+    maxSpan: 3,
+    defaultSpan: 1,
+  },
+  topCoins: {
+    id: "topCoins",
+    label: "Top coins",
+    description: "The market cap ranking, sortable and paged",
+    anchor: "top-coins",
+    needs: ["topCoins", "watchlist"],
+    minSpan: 2,
+    maxSpan: 3,
+    defaultSpan: 2,
+  },
+  marketShare: {
+    id: "marketShare",
+    label: "Market share",
+    description: "Share of the total market cap of the top 5 coins",
+    anchor: "market-share",
+    needs: ["global", "topCoins"],
+    minSpan: 1,
+    maxSpan: 3,
+    defaultSpan: 1,
+  },
+  heatmap: {
+    id: "heatmap",
+    label: "Market heatmap",
+    description: "Top coins sized by market cap, colored by 1h/24h/7d change",
+    anchor: "heatmap",
+    needs: ["topCoins"],
+    minSpan: 2,
+    maxSpan: 3,
+    defaultSpan: 3,
+  },
+  volume: {
+    id: "volume",
+    label: "24h volume",
+    description: "Trading volume of the top 10 coins",
+    anchor: "volume",
+    needs: ["topCoins"],
+    minSpan: 1,
+    maxSpan: 3,
+    defaultSpan: 3,
+  },
+  risk: {
+    id: "risk",
+    label: "Risk overview",
+    description: "Volatility, drawdown, Sharpe/Sortino, beta, correlations",
+    anchor: "risk",
+    needs: ["topCoins", "riskHistories"],
+    minSpan: 2,
+    maxSpan: 3,
+    defaultSpan: 3,
+  },
+};
+
+export const WIDGET_IDS = Object.keys(WIDGETS) as WidgetId[];
+
+export const DEFAULT_LAYOUT_ID = "default";
+
+export function isWidgetId(value: unknown): value is WidgetId {
+  return typeof value === "string" && Object.hasOwn(WIDGETS, value);
+}
+
+/**
+ * "span" brought within the widths the widget supports.
+ */
+export function clampSpan(widget: WidgetId, span: number): WidgetSpan {
+  const { minSpan, maxSpan } = WIDGETS[widget];
+  return Math.min(maxSpan, Math.max(minSpan, Math.round(span))) as WidgetSpan;
+}
+
+/**
+ * Widths a widget can be resized to, narrowest first.
+ */
+export function widgetSpans(widget: WidgetId): WidgetSpan[] {
+  const { minSpan, maxSpan } = WIDGETS[widget];
+  return ([1, 2, 3] as const).filter(
+    (span) => span >= minSpan && span <= maxSpan,
+  );
+}
+
+/**
+ * Widgets of a layout as saved: unknown widgets and repeats dropped,
+ * widths clamped to what each widget supports.
+ */
+export function normalizeWidgets(widgets: unknown[]): LayoutWidget[] {
+  const seen = new Set<WidgetId>();
+
+  return widgets.flatMap((item) => {
+    if (typeof item !== "object" || item === null) return [];
+    const { widget, span } = item as Record<string, unknown>;
+    if (!isWidgetId(widget) || seen.has(widget)) return [];
+    seen.add(widget);
+
+    const width =
+      typeof span === "number" && Number.isFinite(span)
+        ? span
+        : WIDGETS[widget].defaultSpan;
+    return [{ widget, span: clampSpan(widget, width) }];
+  });
+}
+
+/**
+ * The built-in arrangement, used until the user saves their own: every
+ * widget, in registry order, at its default width.
+ */
+export function defaultLayout(): DashboardLayout {
+  return {
+    id: DEFAULT_LAYOUT_ID,
+    name: "Default",
+    widgets: WIDGET_IDS.map((widget) => ({
+      widget,
+      span: WIDGETS[widget].defaultSpan,
+    })),
+    createdAt: 0,
+  };
+}
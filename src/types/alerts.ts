@@ -0,0 +1,86 @@
+/**
+ * Alert types shared between the rules engine, the local store, webhook
+ * delivery and the alerts page.
+ */
+
+import type { Currency } from "@/lib/currency";
+
+// price: in the rule's currency · change24h: % · dominance: % of the
+// global market cap · volumeSpike: 24h volume ÷ its 30-day average
+export type AlertMetric = "price" | "change24h" | "dominance" | "volumeSpike";
+
+export type AlertDirection = "above" | "below";
+
+// One rule as defined by the user, with its evaluation state (persisted in
+// the local store)
+export type AlertRule = {
+  id: string;
+  metric: AlertMetric;
+  coinId: string;
+  direction: AlertDirection;
+  threshold: number;
+  // Currency of price thresholds; other metrics don't depend on it
+  currency: Currency;
+  // Minimum time between two triggers of the rule
+  cooldownMinutes: number;
+  // How far back across the threshold (in the metric's unit) the value
+  // must go before the rule can trigger again
+  hysteresis: number;
+  enabled: boolean;
+  createdAt: number;
+  // false once triggered, until the value moves back past the hysteresis
+  armed: boolean;
+  lastValue: number | null;
+  lastEvaluatedAt: number | null;
+  lastTriggeredAt: number | null;
+};
+
+// What the user defines; the rest of AlertRule is bookkeeping
+export type AlertRuleInput = Pick<
+  AlertRule,
+  | "metric"
+  | "coinId"
+  | "direction"
+  | "threshold"
+  | "currency"
+  | "cooldownMinutes"
+  | "hysteresis"
+>;
+
+// Outcome of posting one event to one webhook
+export type WebhookDelivery = {
+  webhookId: string;
+  url: string;
+  ok: boolean;
+  // HTTP status of the last attempt; null when no response came back
+  status: number | null;
+  error: string | null;
+  attempts: number;
+};
+
+// A rule that triggered (kept in the alert history)
+export type AlertEvent = {
+  id: string;
+  ruleId: string;
+  triggeredAt: number;
+  metric: AlertMetric;
+  coinId: string;
+  direction: AlertDirection;
+  threshold: number;
+  currency: Currency;
+  // Metric value that crossed the threshold
+  value: number;
+  message: string;
+  deliveries: WebhookDelivery[];
+};
+
+// Endpoint alert events are POSTed to
+export type Webhook = {
+  id: string;
+  name: string;
+  url: string;
+  // Signs payloads (HMAC-SHA256) when set
+  secret: string | null;
+  enabled: boolean;
+  createdAt: number;
+};
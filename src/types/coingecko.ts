@@ -14,6 +14,7 @@ export type GlobalData = {
 };
 
 // Type for /coins/markets items
+// (validated + normalized in lib/coingecko-schema: null amounts become 0)
 export type MarketCoin = {
   id: string;
   symbol: string;
@@ -23,7 +24,18 @@ export type MarketCoin = {
   market_cap: number;
   total_volume: number;
   price_change_percentage_24h: number | null;
-  market_cap_rank: number;
+  // Price change over the last hour / 7 days, in the quote currency
+  // (requested with price_change_percentage=1h,24h,7d)
+  price_change_percentage_1h: number | null;
+  price_change_percentage_7d: number | null;
+  market_cap_rank: number | null;
+};
+
+// Type for /coins/markets?ids=…&sparkline=true items
+// (flattened: sparkline_in_7d.price becomes "sparkline")
+export type SparklineCoin = MarketCoin & {
+  // Hourly prices over the last 7 days, oldest first
+  sparkline: number[];
 };
 
 // Type for /coins/{id}/market_chart
@@ -32,3 +44,42 @@ export type MarketChart = {
   market_caps: [number, number][];
   total_volumes: [number, number][];
 };
+
+// Type for /coins/{id}/ohlc items: [timestamp, open, high, low, close]
+export type OhlcCandle = [number, number, number, number, number];
+
+// "days" accepted by /coins/{id}/market_chart ("max" = full history)
+export type ChartDays = number | "max";
+
+// Type for /search "coins" items (exchanges, categories… are ignored)
+export type SearchCoin = {
+  id: string;
+  name: string;
+  symbol: string;
+  market_cap_rank: number | null;
+  // Small logo URL
+  thumb: string;
+};
+
+// Type for /coins/{id}
+// (flattened: per-currency maps in market_data are reduced to one currency)
+export type CoinDetail = {
+  id: string;
+  symbol: string;
+  name: string;
+  image: string;
+  market_cap_rank: number | null;
+  current_price: number;
+  market_cap: number;
+  total_volume: number;
+  price_change_percentage_24h: number | null;
+  circulating_supply: number | null;
+  total_supply: number | null;
+  max_supply: number | null;
+  ath: number | null;
+  ath_change_percentage: number | null;
+  ath_date: string | null;
+  atl: number | null;
+  atl_change_percentage: number | null;
+  atl_date: string | null;
+};
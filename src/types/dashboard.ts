@@ -0,0 +1,43 @@
+/**
+ * Dashboard layout types: which widgets the dashboard shows, in which
+ * order and at which width. Shared by the widget registry, the local store
+ * and the layout editor.
+ */
+
+export type WidgetId =
+  | "kpis"
+  | "extraMetrics"
+  | "watchlist"
+  | "priceChart"
+  | "greenDays"
+  | "dominanceHistory"
+  | "weekOverWeek"
+  | "topCoins"
+  | "marketShare"
+  | "heatmap"
+  | "volume"
+  | "risk";
+
+// Columns taken in the 3-column grid of large screens (small screens
+// stack every widget full width)
+export type WidgetSpan = 1 | 2 | 3;
+
+export type LayoutWidget = {
+  widget: WidgetId;
+  span: WidgetSpan;
+};
+
+// A named arrangement of widgets, top to bottom
+export type DashboardLayout = {
+  id: string;
+  name: string;
+  widgets: LayoutWidget[];
+  createdAt: number;
+};
+
+// Every saved layout and the one the dashboard shows (persisted in the
+// local store)
+export type DashboardLayouts = {
+  activeId: string;
+  layouts: DashboardLayout[];
+};
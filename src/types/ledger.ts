@@ -0,0 +1,52 @@
+/**
+ * Transaction ledger types shared between the CSV import, the local store,
+ * the cost-basis engine and the ledger page.
+ */
+
+// transfer: quantity > 0 moves coins in, < 0 moves them out
+export type TransactionType = "buy" | "sell" | "transfer" | "fee";
+
+export type Transaction = {
+  // Derived from the imported row, so re-importing a file adds no duplicates
+  id: string;
+  // ms timestamp of the fill
+  timestamp: number;
+  type: TransactionType;
+  coinId: string;
+  quantity: number;
+  // USD per unit; null = valued from market history at "timestamp"
+  price: number | null;
+  // USD fee paid on top of the trade
+  fee: number;
+  // Import layout the row came from (e.g. "coinbase")
+  source: string;
+};
+
+export type CostBasisMethod = "fifo" | "lifo" | "average";
+
+// One disposal (sell or fee) matched against earlier acquisitions
+export type RealizedGain = {
+  transactionId: string;
+  timestamp: number;
+  coinId: string;
+  quantity: number;
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+  // Earliest acquisition the disposal was matched with (null for average cost)
+  acquiredAt: number | null;
+  // Quantity sold that was never acquired in the ledger (counted at 0 cost)
+  shortfall: number;
+};
+
+// Remaining holdings of one coin after replaying the ledger
+export type LedgerPosition = {
+  coinId: string;
+  quantity: number;
+  costBasis: number;
+};
+
+export type GainsResult = {
+  realized: RealizedGain[];
+  positions: LedgerPosition[];
+};
@@ -0,0 +1,40 @@
+/**
+ * Portfolio types shared between the local store, the valuation helpers
+ * and the portfolio page.
+ */
+
+// One position as entered by the user (persisted in the local store)
+export type Holding = {
+  id: string;
+  coinId: string;
+  quantity: number;
+  // Total amount paid for the position, in USD
+  costBasis: number;
+};
+
+// A holding valued against the latest market data.
+// Price-dependent fields are null when the coin has no live price.
+export type PortfolioPosition = {
+  holding: Holding;
+  name: string;
+  symbol: string;
+  image: string | null;
+  price: number | null;
+  value: number | null;
+  unrealizedPnl: number | null;
+  unrealizedPnlPct: number | null;
+  pnl24h: number | null;
+  // Share of the total portfolio value (%)
+  allocation: number;
+};
+
+export type PortfolioSummary = {
+  positions: PortfolioPosition[];
+  totalValue: number;
+  // Cost basis of the positions that have a price
+  totalCost: number;
+  unrealizedPnl: number;
+  unrealizedPnlPct: number;
+  pnl24h: number;
+  pnl24hPct: number;
+};
@@ -0,0 +1,29 @@
+/**
+ * Market snapshot types shared between the snapshot recorder, the local
+ * store and the dashboard history widgets.
+ */
+
+import type { Currency } from "@/lib/currency";
+
+// A coin's place in the market cap ranking at snapshot time
+export type RankedCoin = {
+  id: string;
+  symbol: string;
+  name: string;
+  rank: number;
+};
+
+// GlobalData and the top of the ranking at one point in time
+export type MarketSnapshot = {
+  // ms timestamp the data was fetched at
+  ts: number;
+  activeCryptocurrencies: number;
+  markets: number;
+  // Totals in the supported quote currencies
+  totalMarketCap: Partial<Record<Currency, number>>;
+  totalVolume: Partial<Record<Currency, number>>;
+  // Share of the total market cap (%) per coin symbol ("btc", "eth"…)
+  dominance: Record<string, number>;
+  // Best rank first
+  ranking: RankedCoin[];
+};